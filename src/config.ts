@@ -0,0 +1,445 @@
+/**
+ * Server runtime configuration.
+ * Values are read from environment variables so the same build can run as a
+ * local stdio process or as a shared HTTP service. Some settings can also come
+ * from an optional JSON file (APPD_MCP_CONFIG); environment variables win.
+ */
+
+import { readFileSync } from "fs";
+import { homedir } from "os";
+import { join, resolve } from "path";
+import { API_TIMEOUT_MS } from "./constants.js";
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function envString(name: string): string | undefined {
+  const value = process.env[name];
+  return value !== undefined && value.trim() !== "" ? value.trim() : undefined;
+}
+
+function envList(name: string): string[] | undefined {
+  const raw = envString(name);
+  if (raw === undefined) return undefined;
+  return raw
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function envInt(name: string, fallback: number): number {
+  const raw = envString(name);
+  if (raw === undefined) return fallback;
+  const parsed = Number(raw);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer (got "${raw}").`);
+  }
+  return parsed;
+}
+
+// ── Config file ─────────────────────────────────────────────────────────────
+
+/**
+ * Shape of the optional JSON config file. Every field is optional.
+ */
+export interface FileConfig {
+  /** "off" | "read-only" | "confirm" (see getSafetyConfig). */
+  safeMode?: string;
+  /** Lifetime of a confirmation token in seconds. */
+  confirmTtlSeconds?: number;
+  /** Only register tools in these categories. */
+  enabledCategories?: string[];
+  /** Never register tools in these categories. */
+  disabledCategories?: string[];
+  /** Tool-name globs to register (e.g. "appd_get_*"). */
+  allowTools?: string[];
+  /** Tool-name globs to skip; wins over everything else. */
+  denyTools?: string[];
+  /** Audit log file path, or "off". */
+  auditLog?: string;
+  /** Directory for undo before-images, or "off". */
+  undoDir?: string;
+  /** Directory of custom prompt templates, or "off". */
+  promptsDir?: string;
+  /** Directory of custom health rule templates, or "off". */
+  healthRuleTemplatesDir?: string;
+  /** Directory for cached metric-tree indexes, or "off". */
+  metricIndexDir?: string;
+  /** IANA time zone for displayed timestamps and zone-less input times. */
+  timezone?: string;
+}
+
+let fileConfig: FileConfig | null = null;
+
+/**
+ * Load the JSON file named by APPD_MCP_CONFIG (once). Returns {} when unset.
+ */
+export function getFileConfig(): FileConfig {
+  if (fileConfig) return fileConfig;
+  const path = envString("APPD_MCP_CONFIG");
+  if (path === undefined) {
+    fileConfig = {};
+    return fileConfig;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read APPD_MCP_CONFIG file "${path}": ${reason}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`APPD_MCP_CONFIG file "${path}" must contain a JSON object.`);
+  }
+  fileConfig = parsed as FileConfig;
+  return fileConfig;
+}
+
+// ── Transport ───────────────────────────────────────────────────────────────
+
+export type TransportMode = "stdio" | "http";
+
+export interface TransportConfig {
+  mode: TransportMode;
+  /** TCP port for the HTTP transport. */
+  port: number;
+  /** Bind address for the HTTP transport. Defaults to loopback only. */
+  host: string;
+  /** Bearer token every HTTP request but /health must carry; undefined = no authentication. */
+  token?: string;
+  /** Hostnames the Host header may name, against DNS rebinding. Empty = not checked. */
+  allowedHosts: string[];
+  /** Streamable HTTP sessions without a request for this long are closed; 0 = never. */
+  sessionIdleMs: number;
+}
+
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "::1"];
+
+/** True for binds that only accept connections from this machine. */
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host.toLowerCase()) || /^127\.\d+\.\d+\.\d+$/.test(host);
+}
+
+/**
+ * Read transport settings:
+ *   MCP_TRANSPORT           stdio (default) | http
+ *   MCP_HTTP_PORT           default 3000
+ *   MCP_HTTP_HOST           default 127.0.0.1 — set 0.0.0.0 to serve other machines
+ *   MCP_HTTP_TOKEN          bearer token; required unless MCP_HTTP_HOST is loopback
+ *   MCP_HTTP_ALLOWED_HOSTS  comma-separated Host header names; defaults to the
+ *                           loopback names for a loopback bind, the bind address
+ *                           for any other specific address, unchecked for 0.0.0.0 / ::
+ *   MCP_HTTP_SESSION_IDLE_MINUTES  default 30; 0 keeps idle sessions open
+ */
+export function getTransportConfig(): TransportConfig {
+  const mode = (envString("MCP_TRANSPORT") ?? "stdio").toLowerCase();
+  if (mode !== "stdio" && mode !== "http") {
+    throw new Error(`MCP_TRANSPORT must be "stdio" or "http" (got "${mode}").`);
+  }
+  const host = envString("MCP_HTTP_HOST") ?? "127.0.0.1";
+  const token = envString("MCP_HTTP_TOKEN");
+  if (mode === "http" && !token && !isLoopbackHost(host)) {
+    throw new Error(
+      `MCP_HTTP_HOST=${host} accepts connections from other machines, so MCP_HTTP_TOKEN must be set ` +
+        "(clients send it as \"Authorization: Bearer <token>\")."
+    );
+  }
+  const defaultAllowedHosts = isLoopbackHost(host) ? LOOPBACK_HOSTS : host === "0.0.0.0" || host === "::" ? [] : [host];
+  return {
+    mode,
+    port: envInt("MCP_HTTP_PORT", 3000),
+    host,
+    token,
+    allowedHosts: envList("MCP_HTTP_ALLOWED_HOSTS") ?? defaultAllowedHosts,
+    sessionIdleMs: envInt("MCP_HTTP_SESSION_IDLE_MINUTES", 30) * 60_000,
+  };
+}
+
+// ── Display ─────────────────────────────────────────────────────────────────
+
+export interface DisplayConfig {
+  /** IANA time zone name, e.g. "UTC" or "Europe/Berlin". */
+  timeZone: string;
+}
+
+let displayConfig: DisplayConfig | null = null;
+
+/**
+ * Read display settings (once):
+ *   APPD_TIMEZONE   default UTC   (file: timezone)
+ * Used by formatTimestamp and for ISO times given without an offset.
+ */
+export function getDisplayConfig(): DisplayConfig {
+  if (displayConfig) return displayConfig;
+  const timeZone = envString("APPD_TIMEZONE") ?? getFileConfig().timezone ?? "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new Error(`APPD_TIMEZONE must be an IANA time zone such as "UTC" or "Europe/Berlin" (got "${timeZone}").`);
+  }
+  displayConfig = { timeZone };
+  return displayConfig;
+}
+
+// ── Controller requests ─────────────────────────────────────────────────────
+
+export interface RetryConfig {
+  /** Total attempts for a retryable GET, including the first. 1 disables retries. */
+  maxAttempts: number;
+  /** Base delay for exponential backoff (doubled on each retry, then jittered). */
+  baseDelayMs: number;
+  /** Upper bound for any single wait, including a server-sent Retry-After. */
+  maxDelayMs: number;
+  /** Per-request timeout. */
+  timeoutMs: number;
+}
+
+/**
+ * Read request retry settings:
+ *   APPD_RETRY_MAX_ATTEMPTS    default 3
+ *   APPD_RETRY_BASE_DELAY_MS   default 500
+ *   APPD_RETRY_MAX_DELAY_MS    default 10000
+ *   APPD_REQUEST_TIMEOUT_MS    default 30000
+ */
+export function getRetryConfig(): RetryConfig {
+  return {
+    maxAttempts: Math.max(1, envInt("APPD_RETRY_MAX_ATTEMPTS", 3)),
+    baseDelayMs: envInt("APPD_RETRY_BASE_DELAY_MS", 500),
+    maxDelayMs: envInt("APPD_RETRY_MAX_DELAY_MS", 10000),
+    timeoutMs: envInt("APPD_REQUEST_TIMEOUT_MS", API_TIMEOUT_MS),
+  };
+}
+
+export interface RequestLimitConfig {
+  /** Maximum concurrent controller requests across all tool calls (0 = unlimited). */
+  maxConcurrent: number;
+  /** Maximum controller requests started per second (0 = unlimited). */
+  maxPerSecond: number;
+}
+
+/**
+ * Read request limiter settings:
+ *   APPD_MAX_CONCURRENT_REQUESTS   default 8
+ *   APPD_MAX_REQUESTS_PER_SECOND   default 20
+ */
+export function getRequestLimitConfig(): RequestLimitConfig {
+  return {
+    maxConcurrent: envInt("APPD_MAX_CONCURRENT_REQUESTS", 8),
+    maxPerSecond: envInt("APPD_MAX_REQUESTS_PER_SECOND", 20),
+  };
+}
+
+export interface CacheConfig {
+  /** TTL for topology / configuration responses (0 = do not cache). */
+  topologyTtlMs: number;
+  /** TTL for time-windowed data responses (0 = do not cache). */
+  dataTtlMs: number;
+  /** Maximum cached responses across all controllers. */
+  maxEntries: number;
+}
+
+/**
+ * Read response cache settings:
+ *   APPD_CACHE_TOPOLOGY_TTL_SECONDS   default 300
+ *   APPD_CACHE_DATA_TTL_SECONDS       default 30
+ *   APPD_CACHE_MAX_ENTRIES            default 1000
+ */
+export function getCacheConfig(): CacheConfig {
+  return {
+    topologyTtlMs: envInt("APPD_CACHE_TOPOLOGY_TTL_SECONDS", 300) * 1000,
+    dataTtlMs: envInt("APPD_CACHE_DATA_TTL_SECONDS", 30) * 1000,
+    maxEntries: envInt("APPD_CACHE_MAX_ENTRIES", 1000),
+  };
+}
+
+export type FixtureMode = "off" | "record" | "replay";
+
+export interface FixtureConfig {
+  /**
+   * off    — talk to the controller normally
+   * record — talk to the controller and save sanitized request/response pairs
+   * replay — serve saved responses; no network, no credentials needed
+   */
+  mode: FixtureMode;
+  /** Directory holding fixture files (one sub-directory per controller). */
+  dir: string;
+}
+
+/**
+ * Read fixture settings:
+ *   APPD_FIXTURE_MODE   off (default) | record | replay
+ *   APPD_FIXTURE_DIR    default ./fixtures
+ */
+export function getFixtureConfig(): FixtureConfig {
+  const mode = (envString("APPD_FIXTURE_MODE") ?? "off").toLowerCase();
+  if (mode !== "off" && mode !== "record" && mode !== "replay") {
+    throw new Error(`APPD_FIXTURE_MODE must be "off", "record" or "replay" (got "${mode}").`);
+  }
+  return { mode, dir: resolve(envString("APPD_FIXTURE_DIR") ?? "fixtures") };
+}
+
+// ── Audit log ───────────────────────────────────────────────────────────────
+
+export interface AuditConfig {
+  /** JSONL file that mutating calls are appended to; null = disabled. */
+  path: string | null;
+}
+
+/**
+ * Read audit log settings:
+ *   APPD_AUDIT_LOG   default ~/.appdynamics-mcp/audit.jsonl; "off" disables   (file: auditLog)
+ */
+export function getAuditConfig(): AuditConfig {
+  const value = envString("APPD_AUDIT_LOG") ?? getFileConfig().auditLog;
+  if (value !== undefined && value.toLowerCase() === "off") return { path: null };
+  return { path: value ?? join(homedir(), ".appdynamics-mcp", "audit.jsonl") };
+}
+
+// ── Undo ────────────────────────────────────────────────────────────────────
+
+export interface UndoConfig {
+  /** Directory holding one before-image file per operation; null = disabled. */
+  dir: string | null;
+  /** Number of most recent operations kept. */
+  maxEntries: number;
+}
+
+/**
+ * Read undo settings:
+ *   APPD_UNDO_DIR           default ~/.appdynamics-mcp/undo; "off" disables   (file: undoDir)
+ *   APPD_UNDO_MAX_ENTRIES   default 200
+ */
+export function getUndoConfig(): UndoConfig {
+  const value = envString("APPD_UNDO_DIR") ?? getFileConfig().undoDir;
+  const maxEntries = Math.max(1, envInt("APPD_UNDO_MAX_ENTRIES", 200));
+  if (value !== undefined && value.toLowerCase() === "off") return { dir: null, maxEntries };
+  return { dir: value ?? join(homedir(), ".appdynamics-mcp", "undo"), maxEntries };
+}
+
+// ── Prompts ─────────────────────────────────────────────────────────────────
+
+export interface PromptsConfig {
+  /** Directory of custom prompt templates (*.json); null = built-in prompts only. */
+  dir: string | null;
+}
+
+/**
+ * Read prompt settings:
+ *   APPD_PROMPTS_DIR   default ~/.appdynamics-mcp/prompts; "off" disables   (file: promptsDir)
+ * A missing directory is not an error.
+ */
+export function getPromptsConfig(): PromptsConfig {
+  const value = envString("APPD_PROMPTS_DIR") ?? getFileConfig().promptsDir;
+  if (value !== undefined && value.toLowerCase() === "off") return { dir: null };
+  return { dir: value ?? join(homedir(), ".appdynamics-mcp", "prompts") };
+}
+
+// ── Health rule templates ───────────────────────────────────────────────────
+
+export interface HealthRuleTemplatesConfig {
+  /** Directory of custom templates (*.json, *.yaml); null = built-in templates only. */
+  dir: string | null;
+}
+
+/**
+ * Read health rule template settings:
+ *   APPD_HEALTH_RULE_TEMPLATES_DIR   default ~/.appdynamics-mcp/health-rule-templates; "off" disables
+ *                                    (file: healthRuleTemplatesDir)
+ * A missing directory is not an error.
+ */
+export function getHealthRuleTemplatesConfig(): HealthRuleTemplatesConfig {
+  const value = envString("APPD_HEALTH_RULE_TEMPLATES_DIR") ?? getFileConfig().healthRuleTemplatesDir;
+  if (value !== undefined && value.toLowerCase() === "off") return { dir: null };
+  return { dir: value ?? join(homedir(), ".appdynamics-mcp", "health-rule-templates") };
+}
+
+// ── Metric index ────────────────────────────────────────────────────────────
+
+export interface MetricIndexConfig {
+  /** Directory for crawled metric-path indexes; null = memory only. */
+  dir: string | null;
+  /** Age after which an index is crawled again. */
+  ttlMs: number;
+}
+
+/**
+ * Read metric-index settings (appd_search_metrics):
+ *   APPD_METRIC_INDEX_DIR         default ~/.appdynamics-mcp/metric-index; "off" keeps indexes in memory only   (file: metricIndexDir)
+ *   APPD_METRIC_INDEX_TTL_HOURS   default 24
+ */
+export function getMetricIndexConfig(): MetricIndexConfig {
+  const value = envString("APPD_METRIC_INDEX_DIR") ?? getFileConfig().metricIndexDir;
+  const ttlMs = Math.max(0, envInt("APPD_METRIC_INDEX_TTL_HOURS", 24)) * 3_600_000;
+  if (value !== undefined && value.toLowerCase() === "off") return { dir: null, ttlMs };
+  return { dir: value ?? join(homedir(), ".appdynamics-mcp", "metric-index"), ttlMs };
+}
+
+// ── Safe mode ───────────────────────────────────────────────────────────────
+
+export type SafeMode = "off" | "read-only" | "confirm";
+
+const SAFE_MODES: SafeMode[] = ["off", "read-only", "confirm"];
+
+export interface SafetyConfig {
+  /**
+   * off       — every tool is registered and runs immediately
+   * read-only — tools not annotated readOnlyHint: true are not registered
+   * confirm   — destructiveHint: true tools run only when re-called with a
+   *             server-issued confirmation token
+   */
+  mode: SafeMode;
+  /** How long a confirmation token stays valid. */
+  confirmTtlMs: number;
+}
+
+/**
+ * Read safe-mode settings:
+ *   APPD_SAFE_MODE             off (default) | read-only | confirm   (file: safeMode)
+ *   APPD_CONFIRM_TTL_SECONDS   default 300                           (file: confirmTtlSeconds)
+ */
+export function getSafetyConfig(): SafetyConfig {
+  const file = getFileConfig();
+  const mode = (envString("APPD_SAFE_MODE") ?? file.safeMode ?? "off").toLowerCase();
+  if (!SAFE_MODES.includes(mode as SafeMode)) {
+    throw new Error(`APPD_SAFE_MODE must be one of ${SAFE_MODES.join(", ")} (got "${mode}").`);
+  }
+  const ttlSeconds = envInt("APPD_CONFIRM_TTL_SECONDS", file.confirmTtlSeconds ?? 300);
+  return { mode: mode as SafeMode, confirmTtlMs: ttlSeconds * 1000 };
+}
+
+// ── Tool selection ──────────────────────────────────────────────────────────
+
+export interface ToolFilterConfig {
+  /** Categories to register; undefined = all (or none, when allowTools is set). */
+  enabledCategories: string[] | undefined;
+  disabledCategories: string[];
+  allowTools: string[];
+  denyTools: string[];
+}
+
+function fileList(value: unknown, key: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new Error(`Config file field "${key}" must be an array of strings.`);
+  }
+  return value as string[];
+}
+
+/**
+ * Read tool selection settings (comma-separated; tool names accept * and ? globs):
+ *   APPD_ENABLED_CATEGORIES    (file: enabledCategories)
+ *   APPD_DISABLED_CATEGORIES   (file: disabledCategories)
+ *   APPD_ALLOW_TOOLS           (file: allowTools)
+ *   APPD_DENY_TOOLS            (file: denyTools)
+ */
+export function getToolFilterConfig(): ToolFilterConfig {
+  const file = getFileConfig();
+  return {
+    enabledCategories:
+      envList("APPD_ENABLED_CATEGORIES") ?? fileList(file.enabledCategories, "enabledCategories"),
+    disabledCategories:
+      envList("APPD_DISABLED_CATEGORIES") ?? fileList(file.disabledCategories, "disabledCategories") ?? [],
+    allowTools: envList("APPD_ALLOW_TOOLS") ?? fileList(file.allowTools, "allowTools") ?? [],
+    denyTools: envList("APPD_DENY_TOOLS") ?? fileList(file.denyTools, "denyTools") ?? [],
+  };
+}
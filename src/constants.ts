@@ -2,6 +2,10 @@
  * Shared constants for AppDynamics MCP Server
  */
 
+// Server identity reported to MCP clients and the HTTP health endpoint
+export const SERVER_NAME = "appdynamics-mcp-server";
+export const SERVER_VERSION = "2.0.0";
+
 // Maximum characters per tool response to prevent overwhelming the LLM context
 export const CHARACTER_LIMIT = 50000;
 
@@ -14,8 +18,34 @@ export const DEFAULT_ANOMALY_DURATION_MINS = 1440; // 24 hours
 // Default result limits
 export const DEFAULT_MAX_SNAPSHOTS = 20;
 export const DEFAULT_METRIC_TREE_MAX_DEPTH = 2;
-
-// API request timeout in milliseconds
+export const MAX_METRICS_BATCH = 50;
+
+// Metric tree crawl limits and result count for appd_search_metrics
+export const DEFAULT_METRIC_CRAWL_DEPTH = 10;
+export const DEFAULT_METRIC_CRAWL_FOLDERS = 2000;
+export const DEFAULT_METRIC_SEARCH_RESULTS = 25;
+
+// Metric analysis tools (anomaly detection, forecasting, correlation)
+export const MAX_ANALYSIS_SERIES = 10; // series analysed when a wildcard path matches many
+export const DEFAULT_ANOMALY_THRESHOLD = 3.5; // robust z-score
+export const DEFAULT_FORECAST_HISTORY_MINS = 7 * 24 * 60; // 7 days of history (hourly data)
+export const DEFAULT_FORECAST_HORIZON_MINS = 24 * 60;
+export const MAX_FORECAST_STEPS = 5000; // steps searched for a threshold crossing
+export const MAX_CORRELATION_CANDIDATES = 200; // candidate series per appd_correlate_metrics call
+export const DEFAULT_CORRELATION_RESULTS = 10;
+export const DEFAULT_CORRELATION_MAX_LAG_MINS = 10;
+
+// Health rule templates
+export const MAX_TEMPLATE_APPLICATIONS = 50; // applications per appd_apply_health_rule_template call
+
+// How often subscribed MCP resources are re-read from the controller
+export const RESOURCE_REFRESH_INTERVAL_MS = 60_000;
+
+// Applications per controller whose individual health rules resources/list enumerates
+// (one alerting-API request each); the rest are reached through their rule-list resource
+export const RESOURCE_LIST_MAX_APPS = 25;
+
+// Default API request timeout in milliseconds (override with APPD_REQUEST_TIMEOUT_MS)
 export const API_TIMEOUT_MS = 30000;
 
 // Token expiry safety margin in seconds (refresh 5 min before actual expiry)
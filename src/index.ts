@@ -7,7 +7,8 @@
  *
  * Provides tools for:
  *  - Application discovery and monitoring
- *  - Health rule management and violation tracking
+ *  - Health rule management (conditions, scope, schedules, export / sync as files,
+ *    templates applied across applications) and violation tracking
  *  - Business transaction performance analysis
  *  - Infrastructure topology (tiers, nodes, backends)
  *  - Transaction snapshots and error diagnostics
@@ -15,70 +16,157 @@
  *  - Anomaly detection
  *  - Dashboard CRUD (list, get, create, update, clone, delete, export)
  *  - Service endpoint monitoring
+ *  - Audit log of every mutating request, undo of health rule / dashboard changes
+ *  - Server self-description (active tools, controllers, safe mode)
+ *
+ * Also exposes applications' tiers, BTs, health rules and dashboards as MCP
+ * resources (appd://...) with update subscriptions, and prompts for common
+ * SRE workflows (plus custom templates from APPD_PROMPTS_DIR).
+ *
+ * Transports: stdio (default) or streamable HTTP + SSE (MCP_TRANSPORT=http).
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { startHttpServer } from "./transports/http.js";
+import { getTransportConfig, getSafetyConfig } from "./config.js";
+import { SERVER_NAME, SERVER_VERSION } from "./constants.js";
+import { installToolMiddleware, type ToolCatalog } from "./utils/tool-middleware.js";
 
 // Tool registrations
 import { registerApplicationTools } from "./tools/applications.js";
 import { registerHealthViolationTools } from "./tools/health-violations.js";
 import { registerHealthRuleTools } from "./tools/health-rules.js";
+import { registerHealthRuleScheduleTools } from "./tools/health-rule-schedules.js";
+import { registerHealthRuleFileTools } from "./tools/health-rule-files.js";
+import { registerHealthRuleTemplateTools } from "./tools/health-rule-templates.js";
 import { registerBusinessTransactionTools } from "./tools/business-transactions.js";
 import { registerBtPerformanceTools } from "./tools/bt-performance.js";
 import { registerTiersNodesTools } from "./tools/tiers-nodes.js";
 import { registerSnapshotTools } from "./tools/snapshots.js";
 import { registerErrorTools } from "./tools/errors.js";
 import { registerMetricTools } from "./tools/metrics.js";
+import { registerMetricAnalysisTools } from "./tools/metric-analysis.js";
 import { registerAnomalyTools } from "./tools/anomalies.js";
 import { registerBackendTools } from "./tools/backends.js";
 import { registerServiceEndpointTools } from "./tools/service-endpoints.js";
 import { registerDashboardTools } from "./tools/dashboards.js";
 import { registerRootCauseTools } from "./tools/root-cause.js";
+import { registerAuditTools } from "./tools/audit.js";
+import { registerUndoTools } from "./tools/undo.js";
+import { registerServerInfoTools, summarizeActiveTools } from "./tools/server-info.js";
+import { registerEntityResources } from "./resources/entities.js";
+import { registerWorkflowPrompts } from "./prompts/workflows.js";
+import { registerCustomPrompts } from "./prompts/custom.js";
 
 // ── Server Setup ─────────────────────────────────────────────────────────────
 
-const server = new McpServer({
-  name: "appdynamics-mcp-server",
-  version: "2.0.0",
-});
+interface BuiltServer {
+  server: McpServer;
+  catalog: ToolCatalog;
+}
+
+/**
+ * Build a fully registered server instance. The HTTP transport calls this
+ * once per client session; stdio calls it once.
+ */
+function buildServer(): BuiltServer {
+  const server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  });
+
+  // Must run before registration: adds the per-call `controller` selector,
+  // safe mode and category / allow / deny filtering
+  const catalog = installToolMiddleware(server);
+
+  catalog.inCategory("discovery", () => {
+    registerApplicationTools(server);
+  });
+
+  catalog.inCategory("health", () => {
+    registerHealthRuleTools(server);
+    registerHealthRuleScheduleTools(server);
+    registerHealthRuleFileTools(server);
+    registerHealthRuleTemplateTools(server);
+    registerHealthViolationTools(server);
+    registerAnomalyTools(server);
+  });
 
-// ── Register All Tools ───────────────────────────────────────────────────────
+  catalog.inCategory("performance", () => {
+    registerBusinessTransactionTools(server);
+    registerBtPerformanceTools(server);
+    registerServiceEndpointTools(server);
+  });
 
-// Discovery & overview
-registerApplicationTools(server);
+  catalog.inCategory("infrastructure", () => {
+    registerTiersNodesTools(server);
+    registerBackendTools(server);
+  });
 
-// Health monitoring
-registerHealthRuleTools(server);
-registerHealthViolationTools(server);
-registerAnomalyTools(server);
+  catalog.inCategory("diagnostics", () => {
+    registerSnapshotTools(server);
+    registerErrorTools(server);
+  });
 
-// Application performance
-registerBusinessTransactionTools(server);
-registerBtPerformanceTools(server);
-registerServiceEndpointTools(server);
+  catalog.inCategory("root-cause", () => {
+    registerRootCauseTools(server);
+  });
 
-// Infrastructure
-registerTiersNodesTools(server);
-registerBackendTools(server);
+  catalog.inCategory("metrics", () => {
+    registerMetricTools(server);
+    registerMetricAnalysisTools(server);
+  });
 
-// Diagnostics
-registerSnapshotTools(server);
-registerErrorTools(server);
-registerRootCauseTools(server);
+  catalog.inCategory("dashboards", () => {
+    registerDashboardTools(server);
+  });
 
-// Metrics
-registerMetricTools(server);
+  catalog.inCategory("audit", () => {
+    registerAuditTools(server);
+    registerUndoTools(server);
+  });
 
-// Dashboards
-registerDashboardTools(server);
+  // Always registered: describes everything above
+  registerServerInfoTools(server, catalog);
+
+  registerEntityResources(server);
+
+  // Custom templates first: one with a built-in's name replaces it
+  registerWorkflowPrompts(server, registerCustomPrompts(server));
+
+  return { server, catalog };
+}
+
+function createServer(): McpServer {
+  return buildServer().server;
+}
 
 // ── Start ────────────────────────────────────────────────────────────────────
 
 async function main(): Promise<void> {
+  const transportConfig = getTransportConfig();
+  const safety = getSafetyConfig();
+  if (safety.mode !== "off") {
+    console.error(`Safe mode: ${safety.mode}`);
+  }
+
+  // Builds one instance up front so configuration errors fail fast
+  const { server, catalog } = buildServer();
+  console.error(summarizeActiveTools(catalog));
+
+  if (transportConfig.mode === "http") {
+    await startHttpServer(createServer, transportConfig);
+    console.error(
+      `AppDynamics MCP Server v${SERVER_VERSION} listening on http://${transportConfig.host}:${transportConfig.port} ` +
+      "(streamable HTTP: /mcp, SSE: /sse, health: /health)"
+    );
+    return;
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
-  console.error("AppDynamics MCP Server v2.0.0 running via stdio");
+  console.error(`AppDynamics MCP Server v${SERVER_VERSION} running via stdio`);
 }
 
 main().catch((error) => {
@@ -0,0 +1,137 @@
+/**
+ * Custom prompt templates loaded from APPD_PROMPTS_DIR.
+ *
+ * One JSON file per prompt:
+ *
+ *   {
+ *     "name": "release_check",
+ *     "title": "Release Check",
+ *     "description": "Compare an application before and after a deploy.",
+ *     "arguments": [
+ *       { "name": "application", "description": "App name or ID", "required": true },
+ *       { "name": "durationInMins", "default": "30" }
+ *     ],
+ *     "template": "Check {{application}} over the last {{durationInMins}} minutes: ..."
+ *   }
+ *
+ * "template" may also be an array of lines. {{arg}} placeholders are replaced
+ * with the argument value, its default, or "". Arguments named "application"
+ * and "controller" get the same completions as the built-in prompts. A file
+ * whose name matches a built-in prompt replaces it. Files are read once;
+ * invalid files stop the server at startup.
+ */
+
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { z, type ZodTypeAny } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getPromptsConfig } from "../config.js";
+import { applicationArg, controllerArg, promptResult } from "./workflows.js";
+
+const ArgumentSchema = z.object({
+  name: z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, "must be a letter followed by letters, digits or _"),
+  description: z.string().optional(),
+  required: z.boolean().default(false),
+  default: z.string().optional(),
+});
+
+const TemplateFileSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_-]*$/, "must be lower-case letters, digits, _ or -"),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  arguments: z.array(ArgumentSchema).default([]),
+  template: z.union([z.string(), z.array(z.string())]),
+});
+
+export type CustomPrompt = z.infer<typeof TemplateFileSchema> & { file: string; text: string };
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+let loaded: CustomPrompt[] | null = null;
+
+function parseFile(file: string): CustomPrompt {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Custom prompt ${file}: ${reason}`);
+  }
+
+  const result = TemplateFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".") || "(root)"} ${i.message}`).join("; ");
+    throw new Error(`Custom prompt ${file}: ${issues}`);
+  }
+
+  const prompt = result.data;
+  const text = Array.isArray(prompt.template) ? prompt.template.join("\n") : prompt.template;
+  const declared = new Set(prompt.arguments.map((a) => a.name));
+  for (const [, name] of text.matchAll(PLACEHOLDER)) {
+    if (!declared.has(name!)) {
+      throw new Error(`Custom prompt ${file}: template uses {{${name}}} but no argument "${name}" is declared.`);
+    }
+  }
+  return { ...prompt, file, text };
+}
+
+/**
+ * Custom prompts from the configured directory (read once). A missing
+ * directory yields none.
+ */
+export function loadCustomPrompts(): CustomPrompt[] {
+  if (loaded) return loaded;
+  const { dir } = getPromptsConfig();
+  if (!dir) return (loaded = []);
+
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter((f) => f.endsWith(".json")).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return (loaded = []);
+    throw error;
+  }
+
+  const prompts = files.map((f) => parseFile(join(dir, f)));
+  const seen = new Map<string, string>();
+  for (const prompt of prompts) {
+    const other = seen.get(prompt.name);
+    if (other) throw new Error(`Custom prompt "${prompt.name}" is defined twice (${other}, ${prompt.file}).`);
+    seen.set(prompt.name, prompt.file);
+  }
+  loaded = prompts;
+  return loaded;
+}
+
+function argumentSchema(arg: CustomPrompt["arguments"][number]): ZodTypeAny {
+  if (arg.name === "controller") return controllerArg;
+  const description = arg.description ?? arg.name;
+  if (arg.name === "application" && arg.required) return applicationArg(description);
+  const base = z.string().describe(arg.default !== undefined ? `${description} (default ${arg.default})` : description);
+  return arg.required ? base : base.optional();
+}
+
+/**
+ * Register custom prompts. Returns their names so built-ins with the same
+ * name can be skipped.
+ */
+export function registerCustomPrompts(server: McpServer): Set<string> {
+  const names = new Set<string>();
+  for (const prompt of loadCustomPrompts()) {
+    const argsSchema = Object.fromEntries(prompt.arguments.map((a) => [a.name, argumentSchema(a)]));
+    server.registerPrompt(
+      prompt.name,
+      { title: prompt.title, description: prompt.description, argsSchema },
+      (args: Record<string, string | undefined>) => {
+        const text = prompt.text.replace(PLACEHOLDER, (_match, name: string) => {
+          const value = args[name];
+          if (value !== undefined && value !== "") return value;
+          return prompt.arguments.find((a) => a.name === name)?.default ?? "";
+        });
+        return promptResult(prompt.title ?? prompt.name, text);
+      }
+    );
+    names.add(prompt.name);
+  }
+  return names;
+}
@@ -0,0 +1,249 @@
+/**
+ * Built-in prompts for common SRE workflows. Each expands into step-by-step
+ * instructions that name the appd_* tools to call, in order.
+ *
+ * Prompts: triage_application, weekly_health_review, build_service_dashboard,
+ * tune_noisy_health_rule, postmortem_draft.
+ */
+
+import { z, type ZodRawShape } from "zod";
+import type { McpServer, PromptCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { getDefaultControllerName, listControllerNames } from "../services/auth.js";
+import { getApplicationsList } from "../utils/app-resolver.js";
+import { runWithContext } from "../utils/request-context.js";
+
+// ── Shared arguments ──────────────────────────────────────────────────────────
+
+/** Application names on the selected controller that contain `value`. */
+async function completeApplication(
+  value: string | undefined,
+  context?: { arguments?: Record<string, string> }
+): Promise<string[]> {
+  const controller = context?.arguments?.["controller"] || getDefaultControllerName();
+  try {
+    const apps = await runWithContext({ controller }, () => getApplicationsList());
+    const search = (value ?? "").toLowerCase();
+    return apps.map((a) => a.name).filter((name) => name.toLowerCase().includes(search));
+  } catch {
+    return [];
+  }
+}
+
+export const applicationArg = (description = "Application name or numeric ID.") =>
+  completable(z.string().describe(description), completeApplication);
+
+const optionalApplicationArg = (description: string) =>
+  completable(z.string().optional().describe(description), completeApplication);
+
+export const controllerArg = completable(
+  z.string().optional().describe("Controller name, when more than one is configured."),
+  (value) => listControllerNames().filter((name) => name.startsWith(value ?? ""))
+);
+
+const minutesArg = (fallback: number) =>
+  z
+    .string()
+    .regex(/^\d+$/, "Must be a whole number of minutes")
+    .optional()
+    .describe(`Time window in minutes (default ${fallback}).`);
+
+/** Wrap instructions in a single user message. */
+export function promptResult(description: string, text: string): GetPromptResult {
+  return { description, messages: [{ role: "user", content: { type: "text", text } }] };
+}
+
+/** Line telling the model which controller to pass, when one was chosen. */
+export function controllerLine(controller: string | undefined): string {
+  return controller ? `\nPass controller: "${controller}" to every appd_* tool call.\n` : "";
+}
+
+// ── Prompts ───────────────────────────────────────────────────────────────────
+
+/**
+ * Register the built-in prompts, except those named in `skip` (replaced by
+ * custom templates of the same name).
+ */
+export function registerWorkflowPrompts(server: McpServer, skip: ReadonlySet<string> = new Set()): void {
+  function register<Args extends ZodRawShape>(
+    name: string,
+    config: { title: string; description: string; argsSchema: Args },
+    cb: PromptCallback<Args>
+  ): void {
+    if (!skip.has(name)) server.registerPrompt(name, config, cb);
+  }
+
+  register(
+    "triage_application",
+    {
+      title: "Triage Application",
+      description: "Work out what is wrong with an application right now: violations, diagnosis, worst BT, snapshots.",
+      argsSchema: {
+        application: applicationArg(),
+        durationInMins: minutesArg(60),
+        controller: controllerArg,
+      },
+    },
+    ({ application, durationInMins, controller }) => {
+      const minutes = durationInMins ?? "60";
+      return promptResult(
+        `Triage ${application}`,
+        `Triage the AppDynamics application "${application}" over the last ${minutes} minutes.
+${controllerLine(controller)}
+1. appd_get_health_violations (application: "${application}", durationInMins: ${minutes}) — list open and recent violations with severity and affected entity.
+2. appd_get_anomalies (same window) — note any anomalies that line up with the violations.
+3. appd_diagnose_issue (application: "${application}", durationInMins: ${minutes}) — take its ranked root-cause candidates as the working hypothesis.
+4. appd_get_business_transactions, then appd_get_bt_performance for the BTs named in steps 1–3 (or the busiest ones if none were) — pick the single worst BT by response time or error rate.
+5. appd_get_snapshots (same window) and focus on snapshots of that BT: slow or error snapshots, their tier / node, exit calls and error details.
+6. If a backend shows up in the snapshots, appd_get_backends to confirm its type and host.
+
+Then report:
+- **Status**: one line — healthy, degraded or down, and since when.
+- **Impact**: affected BTs / tiers, with numbers.
+- **Most likely cause**: the evidence for it (cite tool results), and what would rule it out.
+- **Next actions**: concrete checks or fixes, most urgent first.
+
+Keep it short. Say so plainly if the data does not point to a cause.`
+      );
+    }
+  );
+
+  register(
+    "weekly_health_review",
+    {
+      title: "Weekly Health Review",
+      description: "Review a week of violations, anomalies and health rule hygiene for one or all applications.",
+      argsSchema: {
+        application: optionalApplicationArg("Application name or ID. Omit to review every application."),
+        durationInMins: minutesArg(10080),
+        controller: controllerArg,
+      },
+    },
+    ({ application, durationInMins, controller }) => {
+      const minutes = durationInMins ?? "10080";
+      const scope = application
+        ? `the application "${application}"`
+        : "every application (start with appd_get_applications; review at most the 10 with the most violations)";
+      return promptResult(
+        `Weekly health review${application ? ` for ${application}` : ""}`,
+        `Run a health review of ${scope} over the last ${minutes} minutes.
+${controllerLine(controller)}
+For each application:
+1. appd_get_health_violations (durationInMins: ${minutes}) — count violations per health rule and severity; note the longest-running ones.
+2. appd_get_anomalies (same window) — count anomalies per BT / tier.
+3. appd_get_health_rules — find disabled rules, rules that never fired, and rules that fired many times (likely noisy).
+4. appd_get_errors (same window) — the top recurring error types.
+
+Then write the review as:
+- A table: application | violations (critical / warning) | anomalies | noisiest rule | top error.
+- **Trends**: what got better or worse, and which entities keep recurring.
+- **Health rule hygiene**: rules to tune (suggest tune_noisy_health_rule for each), disable, or add.
+- **Follow-ups**: up to five items with an owner-ready description.`
+      );
+    }
+  );
+
+  register(
+    "build_service_dashboard",
+    {
+      title: "Build Service Dashboard",
+      description: "Design and create a dashboard for a service from its tiers, BTs, backends and health rules.",
+      argsSchema: {
+        application: applicationArg(),
+        tier: z.string().optional().describe("Limit the dashboard to one tier."),
+        dashboardName: z.string().optional().describe("Dashboard name (default: \"<application> - Service Overview\")."),
+        controller: controllerArg,
+      },
+    },
+    ({ application, tier, dashboardName, controller }) => {
+      const name = dashboardName ?? `${application} - Service Overview`;
+      const tierScope = tier ? ` for the tier "${tier}"` : "";
+      return promptResult(
+        `Build a dashboard for ${application}`,
+        `Build an AppDynamics dashboard named "${name}" for the application "${application}"${tierScope}.
+${controllerLine(controller)}
+1. appd_get_dashboards (nameFilter: "${name}") — if it already exists, stop and ask whether to update it instead.
+2. appd_get_tiers_and_nodes, appd_get_business_transactions${tier ? ` (tierFilter: "${tier}")` : ""}, appd_get_backends and appd_get_health_rules — collect what the dashboard should show.
+3. Propose a layout before creating anything: a health status row (HealthListWidget per important health rule), response time / calls / errors time series for the top BTs, backend response times, and ${tier ? "the tier's" : "per-tier"} CPU and heap. Keep it to about 12 widgets.
+4. Once the layout is agreed, create it: appd_auto_build_dashboard for the standard layout, or appd_create_dashboard with explicit widgets for a custom one.
+5. appd_get_dashboard on the new ID — check every widget resolved to a real metric path, and fix any that did not with appd_update_dashboard.
+
+Report the dashboard ID and a one-line description of each section.`
+      );
+    }
+  );
+
+  register(
+    "tune_noisy_health_rule",
+    {
+      title: "Tune Noisy Health Rule",
+      description: "Analyse how often a health rule fires against the metric it watches, and propose better thresholds.",
+      argsSchema: {
+        application: applicationArg(),
+        healthRule: z.string().describe("Health rule name or numeric ID."),
+        durationInMins: minutesArg(10080),
+        controller: controllerArg,
+      },
+    },
+    ({ application, healthRule, durationInMins, controller }) => {
+      const minutes = durationInMins ?? "10080";
+      return promptResult(
+        `Tune health rule ${healthRule}`,
+        `The health rule "${healthRule}" in the application "${application}" is too noisy. Propose a better configuration.
+${controllerLine(controller)}
+1. appd_get_health_rules (application: "${application}") to find the rule's ID if a name was given, then again with healthRuleId for its full configuration: affected entities, conditions, thresholds, useDataFromLastNMinutes, waitTimeAfterViolation.
+2. appd_get_health_violations (durationInMins: ${minutes}) — how many times this rule fired, on which entities, and for how long each time. Short violations that clear on their own are the noise.
+3. appd_get_metric_data for each condition's metric over the same window with rollup: false (use appd_browse_metric_tree if the full path is unclear) — the normal range, daily pattern and spikes.
+4. Propose changes with the numbers behind them: thresholds relative to the observed distribution (e.g. above the normal peak), a longer evaluation window or wait time, a minimum-call-volume condition, or narrower entity scope. Estimate how many of the past violations each change would have removed, and confirm real incidents in the window would still have fired.
+
+Do not change anything yet. Show the proposed appd_update_health_rule arguments and wait for approval. After applying, mention that appd_undo can restore the previous version.`
+      );
+    }
+  );
+
+  register(
+    "postmortem_draft",
+    {
+      title: "Postmortem Draft",
+      description: "Gather an incident timeline from violations, events, snapshots and configuration changes, and draft a postmortem.",
+      argsSchema: {
+        application: applicationArg(),
+        durationInMins: minutesArg(240),
+        timeRange: z
+          .string()
+          .optional()
+          .describe('Incident window instead of durationInMins, e.g. "2026-10-18T14:00Z/2026-10-18T16:00Z".'),
+        incidentSummary: z.string().optional().describe("What happened, in a sentence, if known."),
+        controller: controllerArg,
+      },
+    },
+    ({ application, durationInMins, timeRange, incidentSummary, controller }) => {
+      const minutes = durationInMins ?? "240";
+      const window = timeRange ? `timeRange: "${timeRange}"` : `durationInMins: ${minutes}`;
+      const when = timeRange ? `during ${timeRange}` : `within the last ${minutes} minutes`;
+      const known = incidentSummary ? `\nWhat is known so far: ${incidentSummary}\n` : "";
+      return promptResult(
+        `Postmortem draft for ${application}`,
+        `Draft a blameless postmortem for an incident in the application "${application}" ${when}.
+${known}${controllerLine(controller)}
+Gather the evidence first:
+1. appd_get_health_violations (${window}) — when each violation opened and closed; the earliest is the detection time.
+2. appd_diagnose_issue (${window}) — ranked causes and the estimated start of the issue.
+3. appd_get_errors and appd_get_anomalies (same window) — the error types and anomalous BTs, with timestamps.
+4. appd_get_snapshots (same window) — two or three representative failing or slow requests.
+5. appd_get_audit_log (from / to covering the window) — health rule or dashboard changes made through this server around the incident.
+
+Then write the draft in Markdown:
+- **Summary** — two or three sentences.
+- **Impact** — affected BTs and tiers, duration, error / latency numbers.
+- **Timeline** — timestamps from the evidence (with their time zone), one event per line, marking detection, escalation and recovery.
+- **Root cause** and **Contributing factors** — only what the evidence supports; label hypotheses as such.
+- **Detection** — did health rules fire in time? Which should have fired earlier?
+- **Action items** — specific, each with the monitoring gap or fix it addresses.
+
+List any open questions the data could not answer.`
+      );
+    }
+  );
+}
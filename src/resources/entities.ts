@@ -0,0 +1,367 @@
+/**
+ * MCP resources: AppDynamics entities as browsable, subscribable URIs.
+ *
+ *   appd://{controller}/applications/{app}/tiers                  tiers with nested nodes
+ *   appd://{controller}/applications/{app}/business-transactions
+ *   appd://{controller}/applications/{app}/health-rules           rule IDs and names
+ *   appd://{controller}/applications/{app}/health-rules/{id}      alerting-API rule JSON
+ *   appd://dashboards/{id}                                        dashboard on the default controller
+ *   appd://{controller}/dashboards/{id}                           dashboard on another controller
+ *
+ * {app} is the application name (URI-encoded) or numeric ID. Reads go through
+ * the shared response cache. A subscribed resource gets
+ * notifications/resources/updated when a cached response it is built from is
+ * refetched with different data or invalidated by a write (see onCacheRefresh
+ * in response-cache.ts). Subscribed resources are also re-read past the cache
+ * every RESOURCE_REFRESH_INTERVAL_MS, so changes made outside this server
+ * are noticed without a tool call.
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { UriTemplate, type Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { appdGet, appdGetRaw } from "../services/api-client.js";
+import { getController, getDefaultControllerName, listControllerNames } from "../services/auth.js";
+import { onCacheRefresh } from "../services/response-cache.js";
+import { getApplicationsList, resolveAppId } from "../utils/app-resolver.js";
+import { runWithContext } from "../utils/request-context.js";
+import { handleError } from "../utils/error-handler.js";
+import { RESOURCE_LIST_MAX_APPS, RESOURCE_REFRESH_INTERVAL_MS } from "../constants.js";
+import { ALERTING_BASE } from "../tools/health-rules.js";
+import { fetchTiersWithNodes } from "../tools/tiers-nodes.js";
+import type { BusinessTransaction, DashboardSummary } from "../types.js";
+
+const APPS = "/controller/rest/applications";
+const DASHBOARD_PATH = (id: string) => `/controller/restui/dashboards/dashboardIfUpdated/${id}/-1`;
+
+interface ListedResource {
+  uri: string;
+  name: string;
+  title?: string;
+  mimeType: string;
+}
+
+/** Where a resource's data comes from: cache keys to watch for subscriptions. */
+interface ResourceSource {
+  controller: string;
+  paths: string[];
+  /** Re-read the resource past the cache; a change surfaces through onCacheRefresh. */
+  refresh(): Promise<unknown>;
+}
+
+type Vars = Record<string, string>;
+
+interface EntityResource {
+  name: string;
+  title: string;
+  description: string;
+  template: string;
+  /** Controller named by the URI variables. */
+  controller(vars: Variables): string;
+  /** GET paths the resource is built from (runs in the controller's context). */
+  paths(vars: Vars): Promise<string[]>;
+  /** Resource body (runs in the controller's context). */
+  read(vars: Vars): Promise<unknown>;
+  /** Resources on one controller (runs in that controller's context). */
+  list(controller: string): Promise<ListedResource[]>;
+  /** Controllers whose resources this template lists. */
+  listControllers(): string[];
+}
+
+function variable(vars: Variables, name: string): string {
+  const value = vars[name];
+  return decodeURIComponent(Array.isArray(value) ? (value[0] ?? "") : (value ?? ""));
+}
+
+function decode(vars: Variables): Vars {
+  return Object.fromEntries(Object.keys(vars).map((k) => [k, variable(vars, k)]));
+}
+
+function appUri(controller: string, app: string, suffix: string): string {
+  return `appd://${encodeURIComponent(controller)}/applications/${encodeURIComponent(app)}/${suffix}`;
+}
+
+/** Run `fn` per controller, skipping (and logging) controllers that fail. */
+async function listAcross(
+  controllers: string[],
+  fn: (controller: string) => Promise<ListedResource[]>
+): Promise<ListedResource[]> {
+  const results: ListedResource[] = [];
+  for (const controller of controllers) {
+    try {
+      results.push(
+        ...(await runWithContext({ controller, priority: "bulk" }, () => fn(controller)))
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`Resource listing skipped controller "${controller}": ${reason}`);
+    }
+  }
+  return results;
+}
+
+/** Build listings for each application on the controller, or only the first `maxApps`. */
+async function listPerApp(
+  build: (app: { id: number; name: string }) => Promise<ListedResource[]>,
+  maxApps = Infinity
+): Promise<ListedResource[]> {
+  const apps = (await getApplicationsList()).slice(0, maxApps);
+  const results: ListedResource[] = [];
+  for (const app of apps) results.push(...(await build(app)));
+  return results;
+}
+
+const dashboardResource = (scoped: boolean): EntityResource => ({
+  name: scoped ? "controller-dashboard" : "dashboard",
+  title: "Dashboard",
+  description: scoped
+    ? "Full definition of a custom dashboard on a named controller."
+    : "Full definition of a custom dashboard on the default controller.",
+  template: scoped ? "appd://{controller}/dashboards/{id}" : "appd://dashboards/{id}",
+  controller: (vars) => (scoped ? variable(vars, "controller") : getDefaultControllerName()),
+  paths: async ({ id }) => [DASHBOARD_PATH(id!)],
+  read: ({ id }) => appdGetRaw(DASHBOARD_PATH(id!)),
+  list: async (controller) => {
+    const dashboards = await appdGetRaw<DashboardSummary[]>(
+      "/controller/restui/dashboards/getAllDashboardsByType/false"
+    );
+    return dashboards.map((d) => ({
+      uri: scoped
+        ? `appd://${encodeURIComponent(controller)}/dashboards/${d.id}`
+        : `appd://dashboards/${d.id}`,
+      name: scoped ? `${controller}: ${d.name}` : d.name,
+      mimeType: "application/json",
+    }));
+  },
+  listControllers: () => {
+    const def = getDefaultControllerName();
+    return scoped ? listControllerNames().filter((c) => c !== def) : [def];
+  },
+});
+
+const RESOURCES: EntityResource[] = [
+  {
+    name: "application-tiers",
+    title: "Application Tiers",
+    description: "Tiers of an application with their nodes (same data as appd_get_tiers_and_nodes).",
+    template: "appd://{controller}/applications/{app}/tiers",
+    controller: (vars) => variable(vars, "controller"),
+    paths: async ({ app }) => {
+      const appId = await resolveAppId(app!);
+      return [`${APPS}/${appId}/tiers`, `${APPS}/${appId}/nodes`];
+    },
+    read: async ({ app }) => fetchTiersWithNodes(await resolveAppId(app!)),
+    list: (controller) =>
+      listPerApp(async (app) => [
+        { uri: appUri(controller, app.name, "tiers"), name: `${app.name} tiers`, mimeType: "application/json" },
+      ]),
+    listControllers: listControllerNames,
+  },
+  {
+    name: "application-business-transactions",
+    title: "Application Business Transactions",
+    description: "Business transactions registered for an application.",
+    template: "appd://{controller}/applications/{app}/business-transactions",
+    controller: (vars) => variable(vars, "controller"),
+    paths: async ({ app }) => [`${APPS}/${await resolveAppId(app!)}/business-transactions`],
+    read: async ({ app }) =>
+      appdGet<BusinessTransaction[]>(`${APPS}/${await resolveAppId(app!)}/business-transactions`),
+    list: (controller) =>
+      listPerApp(async (app) => [
+        {
+          uri: appUri(controller, app.name, "business-transactions"),
+          name: `${app.name} business transactions`,
+          mimeType: "application/json",
+        },
+      ]),
+    listControllers: listControllerNames,
+  },
+  {
+    name: "application-health-rules",
+    title: "Application Health Rules",
+    description: "IDs and names of an application's health rules; each is readable as .../health-rules/{id}.",
+    template: "appd://{controller}/applications/{app}/health-rules",
+    controller: (vars) => variable(vars, "controller"),
+    paths: async ({ app }) => [ALERTING_BASE(await resolveAppId(app!))],
+    read: async ({ app }) => appdGet(ALERTING_BASE(await resolveAppId(app!))),
+    list: (controller) =>
+      listPerApp(async (app) => [
+        {
+          uri: appUri(controller, app.name, "health-rules"),
+          name: `${app.name} health rules`,
+          mimeType: "application/json",
+        },
+      ]),
+    listControllers: listControllerNames,
+  },
+  {
+    name: "health-rule",
+    title: "Health Rule",
+    description:
+      "Full configuration of one health rule (alerting API format, as used by appd_update_health_rule). " +
+      `Listed for the first ${RESOURCE_LIST_MAX_APPS} applications per controller; ` +
+      "for the others, read the application's health-rules resource for the IDs.",
+    template: "appd://{controller}/applications/{app}/health-rules/{id}",
+    controller: (vars) => variable(vars, "controller"),
+    paths: async ({ app, id }) => [`${ALERTING_BASE(await resolveAppId(app!))}/${id}`],
+    read: async ({ app, id }) => appdGet(`${ALERTING_BASE(await resolveAppId(app!))}/${id}`),
+    list: (controller) =>
+      listPerApp(async (app) => {
+        const rules = await appdGet<Array<{ id: number; name: string }>>(ALERTING_BASE(app.id));
+        return rules.map((rule) => ({
+          uri: appUri(controller, app.name, `health-rules/${rule.id}`),
+          name: `${app.name}: ${rule.name}`,
+          mimeType: "application/json",
+        }));
+      }, RESOURCE_LIST_MAX_APPS),
+    listControllers: listControllerNames,
+  },
+  dashboardResource(false),
+  dashboardResource(true),
+];
+
+function errorMessage(error: unknown): string {
+  return (handleError(error).content[0]?.text ?? String(error)).replace(/^Error: /, "");
+}
+
+/** Find the resource definition and variables for a URI. */
+function matchUri(uri: string): { resource: EntityResource; vars: Variables } | null {
+  const normalized = new URL(uri).toString();
+  for (const resource of RESOURCES) {
+    const vars = new UriTemplate(resource.template).match(normalized);
+    if (vars) return { resource, vars };
+  }
+  return null;
+}
+
+async function resolveSource(uri: string): Promise<ResourceSource> {
+  const match = matchUri(uri);
+  if (!match) throw new Error(`Unknown AppDynamics resource URI: ${uri}`);
+  const controller = match.resource.controller(match.vars);
+  getController(controller); // throws for unknown controllers
+  const vars = decode(match.vars);
+  const paths = await runWithContext({ controller }, () => match.resource.paths(vars));
+  return {
+    controller,
+    paths,
+    refresh: () => runWithContext({ controller, priority: "bulk", fresh: true }, () => match.resource.read(vars)),
+  };
+}
+
+/**
+ * Register entity resources and resource subscriptions on a server.
+ */
+export function registerEntityResources(server: McpServer): void {
+  for (const resource of RESOURCES) {
+    server.registerResource(
+      resource.name,
+      new ResourceTemplate(resource.template, {
+        list: async () => ({
+          resources: await listAcross(resource.listControllers(), (controller) => resource.list(controller)),
+        }),
+        complete: {
+          controller: (value) => listControllerNames().filter((name) => name.startsWith(value)),
+          app: async (value, context) => {
+            const controller = context?.arguments?.["controller"] ?? getDefaultControllerName();
+            try {
+              const apps = await runWithContext({ controller }, () => getApplicationsList());
+              const search = value.toLowerCase();
+              return apps.map((a) => a.name).filter((name) => name.toLowerCase().includes(search));
+            } catch {
+              return [];
+            }
+          },
+        },
+      }),
+      { title: resource.title, description: resource.description, mimeType: "application/json" },
+      async (uri, vars): Promise<ReadResourceResult> => {
+        const controller = resource.controller(vars);
+        try {
+          getController(controller);
+          const data = await runWithContext({ controller }, () => resource.read(decode(vars)));
+          return {
+            contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) }],
+          };
+        } catch (error) {
+          throw new Error(`Failed to read ${uri.href}: ${errorMessage(error)}`);
+        }
+      }
+    );
+  }
+
+  // ── Subscriptions ─────────────────────────────────────────────────────────
+  const subscriptions = new Map<string, ResourceSource>();
+  const pending = new Set<string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  // Periodic re-read while anything is subscribed; one pass at a time
+  let refreshTimer: NodeJS.Timeout | null = null;
+  let refreshing = false;
+  const refreshSubscribed = async (): Promise<void> => {
+    if (refreshing) return;
+    refreshing = true;
+    try {
+      for (const [uri, source] of [...subscriptions]) {
+        try {
+          await source.refresh();
+        } catch (error) {
+          console.error(`Refresh of subscribed resource ${uri} failed: ${errorMessage(error)}`);
+        }
+      }
+    } finally {
+      refreshing = false;
+    }
+  };
+  const updateRefreshTimer = (): void => {
+    if (subscriptions.size > 0 && !refreshTimer) {
+      refreshTimer = setInterval(() => void refreshSubscribed(), RESOURCE_REFRESH_INTERVAL_MS);
+      refreshTimer.unref();
+    } else if (subscriptions.size === 0 && refreshTimer) {
+      clearInterval(refreshTimer);
+      refreshTimer = null;
+    }
+  };
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    try {
+      subscriptions.set(request.params.uri, await resolveSource(request.params.uri));
+    } catch (error) {
+      throw new Error(`Cannot subscribe to ${request.params.uri}: ${errorMessage(error)}`);
+    }
+    updateRefreshTimer();
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    updateRefreshTimer();
+    return {};
+  });
+
+  // Coalesce notifications (tiers + nodes refreshing together send one update)
+  const flush = (): void => {
+    for (const uri of pending) {
+      server.server.sendResourceUpdated({ uri }).catch(() => undefined);
+    }
+    pending.clear();
+  };
+  const stopListening = onCacheRefresh((controller, path) => {
+    for (const [uri, source] of subscriptions) {
+      if (source.controller !== controller || !source.paths.includes(path)) continue;
+      if (pending.size === 0) setImmediate(flush);
+      pending.add(uri);
+    }
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    stopListening();
+    subscriptions.clear();
+    updateRefreshTimer();
+    previousOnClose?.();
+  };
+}
@@ -1,43 +1,253 @@
 /**
  * Shared HTTP client for AppDynamics REST API.
  * All API calls go through this module to ensure consistent auth, timeouts, and error handling.
+ * Requests target the controller selected for the current tool call (see request-context.ts).
+ *
+ * Every helper funnels into sendRequest(), which:
+ *  - retries idempotent GETs on 429 / 502 / 503 / 504 and timeouts with
+ *    jittered exponential backoff, honoring Retry-After on 429
+ *  - clears the cached token and replays the request once after a 401
+ *  - passes each attempt through the shared RequestLimiter (in-flight cap,
+ *    per-second rate, interactive-before-bulk ordering); backoff waits do not
+ *    hold a slot
+ *
+ * With APPD_FIXTURE_MODE=record final responses are also saved to disk; with
+ * APPD_FIXTURE_MODE=replay they are served from disk instead (fixtures.ts).
+ *
+ * GETs are served through the shared response cache (response-cache.ts);
+ * any POST / PUT / DELETE invalidates the keys it may have changed and is
+ * recorded in the audit log (audit-log.ts).
  */
 
-import axios from "axios";
-import { getAccessToken, getBaseUrl } from "./auth.js";
-import { API_TIMEOUT_MS } from "../constants.js";
+import axios, { type Method } from "axios";
+import { getAccessToken, getBaseUrl, clearAccessToken, getDefaultControllerName } from "./auth.js";
+import { RequestLimiter } from "./request-limiter.js";
+import { cachedGet, invalidateForMutation } from "./response-cache.js";
+import { beginAudit } from "./audit-log.js";
+import { recordFixture, replayFixture } from "./fixtures.js";
+import { getCurrentController, getRequestContext } from "../utils/request-context.js";
+import { getRetryConfig, getRequestLimitConfig, getFixtureConfig } from "../config.js";
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+export interface GetOptions {
+  /**
+   * Skip the cached copy (the response still refreshes the cache).
+   * Use for read-modify-write so an update never starts from stale data.
+   */
+  fresh?: boolean;
+  /**
+   * Bypass the response cache entirely (neither read nor stored). Use for
+   * crawls whose many one-off responses would evict everything else.
+   */
+  noCache?: boolean;
+}
+
+interface RequestOptions {
+  method: Method;
+  path: string;
+  params?: Record<string, string | number | boolean>;
+  data?: unknown;
+  /** Extra headers (Authorization is always added). */
+  headers?: Record<string, string>;
+}
+
+interface AxiosLikeError extends Error {
+  isAxiosError: boolean;
+  code?: string;
+  response?: { status: number; data?: unknown; headers?: Record<string, unknown> };
+}
+
+const limits = getRequestLimitConfig();
+const limiter = new RequestLimiter(limits.maxConcurrent, limits.maxPerSecond);
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const RETRYABLE_CODES = new Set(["ECONNABORTED", "ETIMEDOUT", "ECONNRESET", "EAI_AGAIN"]);
+
+function isAxiosLikeError(error: unknown): error is AxiosLikeError {
+  return (
+    error instanceof Error &&
+    "isAxiosError" in error &&
+    (error as AxiosLikeError).isAxiosError === true
+  );
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!isAxiosLikeError(error)) return false;
+  if (error.response) return RETRYABLE_STATUSES.has(error.response.status);
+  return error.code !== undefined && RETRYABLE_CODES.has(error.code);
+}
 
 /**
- * Make an authenticated GET request to the AppDynamics REST API.
- * Automatically appends output=JSON query parameter.
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds.
  */
-export async function appdGet<T = unknown>(
-  path: string,
-  params?: Record<string, string | number | boolean | undefined>
-): Promise<T> {
-  const token = await getAccessToken();
-  const baseUrl = getBaseUrl();
+function retryAfterMs(error: unknown): number | null {
+  if (!isAxiosLikeError(error) || error.response?.status !== 429) return null;
+  const header = error.response.headers?.["retry-after"];
+  if (header === undefined || header === null) return null;
+  const value = String(header).trim();
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Full-jitter exponential backoff: random in [0, base * 2^retry], capped.
+ */
+function backoffMs(retry: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** retry);
+  return Math.floor(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
-  const cleanParams: Record<string, string | number | boolean> = {
-    output: "JSON",
-  };
+function cleanParams(
+  params: QueryParams | undefined,
+  initial: Record<string, string | number | boolean> = {}
+): Record<string, string | number | boolean> {
+  const clean = { ...initial };
   if (params) {
     for (const [key, value] of Object.entries(params)) {
       if (value !== undefined) {
-        cleanParams[key] = value;
+        clean[key] = value;
       }
     }
   }
+  return clean;
+}
 
-  const response = await axios({
-    method: "GET",
-    url: `${baseUrl}${path}`,
-    params: cleanParams,
-    headers: { Authorization: `Bearer ${token}` },
-    timeout: API_TIMEOUT_MS,
-  });
+/**
+ * The shared request pipeline used by every exported helper.
+ */
+async function sendRequest<T>(options: RequestOptions): Promise<T> {
+  return (await sendRequestWithStatus<T>(options)).data;
+}
+
+async function sendRequestWithStatus<T>(options: RequestOptions): Promise<{ data: T; status: number }> {
+  const controller = getCurrentController();
+  const fixtureMode = getFixtureConfig().mode;
+  const fixtureController = controller ?? getDefaultControllerName();
+  if (fixtureMode === "replay") {
+    return replayFixture<T>(fixtureController, options);
+  }
+
+  const priority = getRequestContext().priority ?? "interactive";
+  const retry = getRetryConfig();
+  const maxAttempts = options.method === "GET" ? retry.maxAttempts : 1;
+  let tokenRefreshed = false;
+
+  for (let attempt = 1; ; attempt++) {
+    const token = await getAccessToken(controller);
+    const baseUrl = getBaseUrl(controller);
+
+    try {
+      const response = await limiter.run(priority, () =>
+        axios({
+          method: options.method,
+          url: `${baseUrl}${options.path}`,
+          params: options.params,
+          data: options.data,
+          headers: { Authorization: `Bearer ${token}`, ...options.headers },
+          timeout: retry.timeoutMs,
+        })
+      );
+      if (fixtureMode === "record") {
+        await recordFixture(fixtureController, options, { status: response.status, data: response.data });
+      }
+      return { data: response.data as T, status: response.status };
+    } catch (error) {
+      // 401: the cached token was revoked or expired early — refresh and replay once.
+      // Does not consume a retry attempt.
+      if (
+        !tokenRefreshed &&
+        isAxiosLikeError(error) &&
+        error.response?.status === 401
+      ) {
+        tokenRefreshed = true;
+        clearAccessToken(controller);
+        attempt--;
+        continue;
+      }
+
+      if (attempt >= maxAttempts || !isRetryable(error)) {
+        if (fixtureMode === "record" && isAxiosLikeError(error) && error.response) {
+          await recordFixture(fixtureController, options, {
+            status: error.response.status,
+            data: error.response.data,
+          });
+        }
+        throw error;
+      }
+
+      const serverDelay = retryAfterMs(error);
+      const delay = Math.min(
+        retry.maxDelayMs,
+        serverDelay ?? backoffMs(attempt - 1, retry.baseDelayMs, retry.maxDelayMs)
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * GET through the response cache; concurrent identical requests share one call.
+ */
+function cachedRequest<T>(options: RequestOptions, getOptions: GetOptions | undefined): Promise<T> {
+  if (getOptions?.noCache) return sendRequest<T>(options);
+  const controller = getCurrentController() ?? getDefaultControllerName();
+  const fresh = getOptions?.fresh ?? getRequestContext().fresh ?? false;
+  return cachedGet(controller, options.path, options.params, fresh, () =>
+    sendRequest<T>(options)
+  );
+}
+
+/**
+ * Run a mutation with an audit record, then invalidate cached GETs it may
+ * have changed — also on failure, since the controller may have applied part of it.
+ */
+async function mutate<T>(options: RequestOptions): Promise<T> {
+  const controller = getCurrentController() ?? getDefaultControllerName();
+  const audit = await beginAudit(
+    options,
+    { tool: getRequestContext().tool, controller },
+    (path) => sendRequest({ method: "GET", path })
+  );
+
+  try {
+    const { data, status } = await sendRequestWithStatus<T>(options);
+    await audit?.finish({ result: data, httpStatus: status });
+    return data;
+  } catch (error) {
+    await audit?.finish({
+      httpStatus: isAxiosLikeError(error) ? error.response?.status ?? null : null,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  } finally {
+    invalidateForMutation(controller, options.path);
+  }
+}
 
-  return response.data as T;
+/**
+ * Make an authenticated GET request to the AppDynamics REST API.
+ * Automatically appends output=JSON query parameter.
+ */
+export async function appdGet<T = unknown>(
+  path: string,
+  params?: QueryParams,
+  options?: GetOptions
+): Promise<T> {
+  return cachedRequest<T>(
+    {
+      method: "GET",
+      path,
+      params: cleanParams(params, { output: "JSON" }),
+    },
+    options
+  );
 }
 
 /**
@@ -46,33 +256,15 @@ export async function appdGet<T = unknown>(
 export async function appdPost<T = unknown>(
   path: string,
   data?: unknown,
-  params?: Record<string, string | number | boolean | undefined>
+  params?: QueryParams
 ): Promise<T> {
-  const token = await getAccessToken();
-  const baseUrl = getBaseUrl();
-
-  const cleanParams: Record<string, string | number | boolean> = {};
-  if (params) {
-    for (const [key, value] of Object.entries(params)) {
-      if (value !== undefined) {
-        cleanParams[key] = value;
-      }
-    }
-  }
-
-  const response = await axios({
+  return mutate<T>({
     method: "POST",
-    url: `${baseUrl}${path}`,
+    path,
     data,
-    params: cleanParams,
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-    },
-    timeout: API_TIMEOUT_MS,
+    params: cleanParams(params),
+    headers: { "Content-Type": "application/json" },
   });
-
-  return response.data as T;
 }
 
 /**
@@ -84,18 +276,11 @@ export async function appdPostFormData<T = unknown>(
   path: string,
   formData: FormData
 ): Promise<T> {
-  const token = await getAccessToken();
-  const baseUrl = getBaseUrl();
-
-  const response = await axios({
+  return mutate<T>({
     method: "POST",
-    url: `${baseUrl}${path}`,
+    path,
     data: formData,
-    headers: { Authorization: `Bearer ${token}` },
-    timeout: API_TIMEOUT_MS,
   });
-
-  return response.data as T;
 }
 
 /**
@@ -104,50 +289,25 @@ export async function appdPostFormData<T = unknown>(
 export async function appdPut<T = unknown>(
   path: string,
   data?: unknown,
-  params?: Record<string, string | number | boolean | undefined>
+  params?: QueryParams
 ): Promise<T> {
-  const token = await getAccessToken();
-  const baseUrl = getBaseUrl();
-
-  const cleanParams: Record<string, string | number | boolean> = {};
-  if (params) {
-    for (const [key, value] of Object.entries(params)) {
-      if (value !== undefined) {
-        cleanParams[key] = value;
-      }
-    }
-  }
-
-  const response = await axios({
+  return mutate<T>({
     method: "PUT",
-    url: `${baseUrl}${path}`,
+    path,
     data,
-    params: cleanParams,
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-    },
-    timeout: API_TIMEOUT_MS,
+    params: cleanParams(params),
+    headers: { "Content-Type": "application/json" },
   });
-
-  return response.data as T;
 }
 
 /**
  * Make an authenticated DELETE request to the AppDynamics REST API.
  */
 export async function appdDelete<T = unknown>(path: string): Promise<T> {
-  const token = await getAccessToken();
-  const baseUrl = getBaseUrl();
-
-  const response = await axios({
+  return mutate<T>({
     method: "DELETE",
-    url: `${baseUrl}${path}`,
-    headers: { Authorization: `Bearer ${token}` },
-    timeout: API_TIMEOUT_MS,
+    path,
   });
-
-  return response.data as T;
 }
 
 /**
@@ -156,27 +316,15 @@ export async function appdDelete<T = unknown>(path: string): Promise<T> {
  */
 export async function appdGetRaw<T = unknown>(
   path: string,
-  params?: Record<string, string | number | boolean | undefined>
+  params?: QueryParams,
+  options?: GetOptions
 ): Promise<T> {
-  const token = await getAccessToken();
-  const baseUrl = getBaseUrl();
-
-  const cleanParams: Record<string, string | number | boolean> = {};
-  if (params) {
-    for (const [key, value] of Object.entries(params)) {
-      if (value !== undefined) {
-        cleanParams[key] = value;
-      }
-    }
-  }
-
-  const response = await axios({
-    method: "GET",
-    url: `${baseUrl}${path}`,
-    params: cleanParams,
-    headers: { Authorization: `Bearer ${token}` },
-    timeout: API_TIMEOUT_MS,
-  });
-
-  return response.data as T;
+  return cachedRequest<T>(
+    {
+      method: "GET",
+      path,
+      params: cleanParams(params),
+    },
+    options
+  );
 }
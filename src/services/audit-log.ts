@@ -0,0 +1,226 @@
+/**
+ * Append-only JSONL audit trail of every mutating controller request.
+ *
+ * api-client.ts opens a record before each POST / PUT / DELETE (capturing a
+ * "before" snapshot via GET where the target can be identified), then
+ * completes it with the result. One line per request; the file is never
+ * rewritten. Write failures are reported on stderr and never fail the call.
+ */
+
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { dirname } from "path";
+import { getAuditConfig } from "../config.js";
+import { redactSecrets } from "../utils/redact.js";
+
+export interface AuditEntry {
+  /** ISO-8601 time the request was sent. */
+  timestamp: string;
+  /** MCP tool that issued the request, or null outside a tool call. */
+  tool: string | null;
+  controller: string;
+  method: string;
+  path: string;
+  /** Affected entity, e.g. "health-rule:12/345" (app/rule) or "dashboard:678". */
+  entity: string | null;
+  /** Request body with secrets redacted. */
+  request: unknown;
+  /** State before the change, keyed by the GET path used; null when not capturable. */
+  before: Record<string, unknown> | null;
+  status: "success" | "error";
+  httpStatus: number | null;
+  error?: string;
+}
+
+export interface AuditQuery {
+  /** Epoch ms, inclusive. */
+  from?: number;
+  /** Epoch ms, inclusive. */
+  to?: number;
+  tool?: string;
+  /** Case-insensitive substring of the entity or path. */
+  entity?: string;
+  controller?: string;
+  limit: number;
+}
+
+const MAX_FILE_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Summarize a multipart body: string fields as-is, uploaded files as parsed
+ * JSON when small enough (dashboard imports), otherwise name and size.
+ */
+async function describeFormData(form: FormData): Promise<Record<string, unknown>> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of form.entries()) {
+    if (typeof value === "string") {
+      fields[key] = value;
+      continue;
+    }
+    if (value.size > MAX_FILE_BODY_BYTES) {
+      fields[key] = `<file ${value.name}, ${value.size} bytes>`;
+      continue;
+    }
+    const text = await value.text();
+    try {
+      fields[key] = JSON.parse(text);
+    } catch {
+      fields[key] = `<file ${value.name}, ${value.size} bytes>`;
+    }
+  }
+  return { formData: redactSecrets(fields) };
+}
+
+function entityFor(path: string, data: unknown): string | null {
+  const rule = path.match(/\/applications\/(\d+)\/health-rules(?:\/(\d+))?/);
+  if (rule) return `health-rule:${rule[1]}${rule[2] ? `/${rule[2]}` : ""}`;
+
+  if (path.endsWith("/restui/dashboards/updateDashboard")) {
+    const id = (data as { id?: unknown } | null)?.id;
+    return id !== undefined ? `dashboard:${String(id)}` : "dashboard";
+  }
+  if (path.endsWith("/restui/dashboards/deleteDashboards") && Array.isArray(data)) {
+    return `dashboard:${data.join(",")}`;
+  }
+  if (path.includes("/restui/dashboards/") || path.includes("CustomDashboardImportExportServlet")) {
+    return "dashboard";
+  }
+  return null;
+}
+
+/**
+ * GET paths that show the target's current state, when it can be identified.
+ */
+function snapshotPaths(method: string, path: string, data: unknown): string[] {
+  if ((method === "PUT" || method === "DELETE") && /\/\d+$/.test(path)) {
+    return [path];
+  }
+  if (path.endsWith("/restui/dashboards/updateDashboard")) {
+    const id = (data as { id?: unknown } | null)?.id;
+    return id !== undefined ? [`/controller/restui/dashboards/dashboardIfUpdated/${String(id)}/-1`] : [];
+  }
+  if (path.endsWith("/restui/dashboards/deleteDashboards") && Array.isArray(data)) {
+    return data.map((id) => `/controller/restui/dashboards/dashboardIfUpdated/${String(id)}/-1`);
+  }
+  return [];
+}
+
+/** ID of a newly created entity in a create response, if any. */
+function createdId(result: unknown): string | null {
+  if (result === null || typeof result !== "object") return null;
+  const record = result as { id?: unknown; dashboard?: { id?: unknown } };
+  const id = record.id ?? record.dashboard?.id;
+  return typeof id === "number" || typeof id === "string" ? String(id) : null;
+}
+
+async function append(entry: AuditEntry): Promise<void> {
+  const path = getAuditConfig().path;
+  if (!path) return;
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await appendFile(path, `${JSON.stringify(entry)}\n`, "utf8");
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Audit log write failed (${path}): ${reason}`);
+  }
+}
+
+export interface PendingAudit {
+  /** Complete the record with the outcome and append it. */
+  finish(outcome: { result?: unknown; httpStatus: number | null; error?: string }): Promise<void>;
+}
+
+/**
+ * Start an audit record for a mutating request. Returns null when auditing is off.
+ * `fetchSnapshot` performs an uncached GET for the before-image.
+ */
+export async function beginAudit(
+  request: { method: string; path: string; data?: unknown },
+  context: { tool: string | undefined; controller: string },
+  fetchSnapshot: (path: string) => Promise<unknown>
+): Promise<PendingAudit | null> {
+  if (!getAuditConfig().path) return null;
+
+  const timestamp = new Date().toISOString();
+  const body =
+    request.data instanceof FormData ? await describeFormData(request.data) : redactSecrets(request.data ?? null);
+
+  let before: Record<string, unknown> | null = null;
+  const paths = snapshotPaths(request.method, request.path, request.data);
+  if (paths.length > 0) {
+    before = {};
+    for (const path of paths) {
+      try {
+        before[path] = await fetchSnapshot(path);
+      } catch (error) {
+        before[path] = { snapshotError: error instanceof Error ? error.message : String(error) };
+      }
+    }
+  }
+
+  return {
+    async finish({ result, httpStatus, error }) {
+      let entity = entityFor(request.path, request.data);
+      const newId = error === undefined && request.method === "POST" ? createdId(result) : null;
+      if (newId && (entity === "dashboard" || entity?.match(/^health-rule:\d+$/))) {
+        entity = entity === "dashboard" ? `dashboard:${newId}` : `${entity}/${newId}`;
+      }
+      await append({
+        timestamp,
+        tool: context.tool ?? null,
+        controller: context.controller,
+        method: request.method,
+        path: request.path,
+        entity,
+        request: body,
+        before,
+        status: error === undefined ? "success" : "error",
+        httpStatus,
+        ...(error !== undefined ? { error } : {}),
+      });
+    },
+  };
+}
+
+/**
+ * Read matching entries, newest first. Returns the total match count and up to `limit` entries.
+ */
+export async function queryAuditLog(query: AuditQuery): Promise<{ entries: AuditEntry[]; total: number }> {
+  const path = getAuditConfig().path;
+  if (!path) return { entries: [], total: 0 };
+
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return { entries: [], total: 0 };
+    throw error;
+  }
+
+  const entity = query.entity?.toLowerCase();
+  const matches: AuditEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (line.trim() === "") continue;
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line) as AuditEntry;
+    } catch {
+      continue; // tolerate a torn final line
+    }
+    const time = Date.parse(entry.timestamp);
+    if (query.from !== undefined && time < query.from) continue;
+    if (query.to !== undefined && time > query.to) continue;
+    if (query.tool && entry.tool !== query.tool) continue;
+    if (query.controller && entry.controller !== query.controller) continue;
+    if (
+      entity &&
+      !(entry.entity ?? "").toLowerCase().includes(entity) &&
+      !entry.path.toLowerCase().includes(entity)
+    ) {
+      continue;
+    }
+    matches.push(entry);
+  }
+
+  matches.reverse();
+  return { entries: matches.slice(0, query.limit), total: matches.length };
+}
@@ -1,53 +1,159 @@
 /**
  * OAuth2 authentication service for AppDynamics API.
- * Handles token acquisition, caching, and refresh.
+ * Handles the named-controller registry plus token acquisition, caching, and
+ * refresh — one token cache per controller.
+ *
+ * Controllers are configured from environment variables:
+ *   - Single controller: APPD_URL, APPD_CLIENT_NAME, APPD_CLIENT_SECRET, APPD_ACCOUNT_NAME
+ *     (registered under the name "default")
+ *   - Several controllers: APPD_CONTROLLERS=prod,preprod,eu then
+ *     APPD_PROD_URL, APPD_PROD_CLIENT_NAME, APPD_PROD_CLIENT_SECRET, APPD_PROD_ACCOUNT_NAME, ...
+ *   - APPD_DEFAULT_CONTROLLER picks the controller used when a tool call omits `controller`.
  */
 
 import axios from "axios";
 import { TOKEN_EXPIRY_SAFETY_MARGIN_SECS } from "../constants.js";
 
-const APPD_URL = process.env.APPD_URL;
-const CLIENT_NAME = process.env.APPD_CLIENT_NAME || process.env.APPD_API_KEY;
-const CLIENT_SECRET = process.env.APPD_CLIENT_SECRET;
-const ACCOUNT_NAME = process.env.APPD_ACCOUNT_NAME;
+export const DEFAULT_CONTROLLER_NAME = "default";
+
+export interface ControllerConfig {
+  name: string;
+  url: string | undefined;
+  clientName: string | undefined;
+  clientSecret: string | undefined;
+  accountName: string | undefined;
+}
 
 interface OAuthResponse {
   access_token: string;
   expires_in: number;
 }
 
-let accessToken: string | null = null;
-let tokenExpiry: number = 0;
+interface CachedToken {
+  accessToken: string;
+  tokenExpiry: number;
+}
+
+let registry: Map<string, ControllerConfig> | null = null;
+let defaultControllerName: string = DEFAULT_CONTROLLER_NAME;
+const tokenCache = new Map<string, CachedToken>();
+
+/** Env-var prefix for a named controller: "eu-saas" → "APPD_EU_SAAS_". */
+function envPrefix(name: string): string {
+  return `APPD_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_`;
+}
+
+/**
+ * Build the controller registry from the environment (once).
+ */
+function getRegistry(): Map<string, ControllerConfig> {
+  if (registry) return registry;
+  registry = new Map();
+
+  // Legacy single-controller variables
+  if (process.env.APPD_URL || process.env.APPD_CLIENT_NAME || process.env.APPD_API_KEY) {
+    registry.set(DEFAULT_CONTROLLER_NAME, {
+      name: DEFAULT_CONTROLLER_NAME,
+      url: process.env.APPD_URL,
+      clientName: process.env.APPD_CLIENT_NAME || process.env.APPD_API_KEY,
+      clientSecret: process.env.APPD_CLIENT_SECRET,
+      accountName: process.env.APPD_ACCOUNT_NAME,
+    });
+  }
+
+  // Named controllers
+  const names = (process.env.APPD_CONTROLLERS ?? "")
+    .split(",")
+    .map((n) => n.trim())
+    .filter((n) => n.length > 0);
+  for (const name of names) {
+    const prefix = envPrefix(name);
+    registry.set(name, {
+      name,
+      url: process.env[`${prefix}URL`],
+      clientName: process.env[`${prefix}CLIENT_NAME`] || process.env[`${prefix}API_KEY`],
+      clientSecret: process.env[`${prefix}CLIENT_SECRET`],
+      accountName: process.env[`${prefix}ACCOUNT_NAME`],
+    });
+  }
+
+  const configuredDefault = process.env.APPD_DEFAULT_CONTROLLER?.trim();
+  if (configuredDefault) {
+    defaultControllerName = configuredDefault;
+  } else if (!registry.has(DEFAULT_CONTROLLER_NAME) && names.length > 0) {
+    defaultControllerName = names[0]!;
+  }
+
+  return registry;
+}
+
+/**
+ * Names of all configured controllers, default first.
+ */
+export function listControllerNames(): string[] {
+  const names = [...getRegistry().keys()];
+  const def = getDefaultControllerName();
+  return names.includes(def) ? [def, ...names.filter((n) => n !== def)] : names;
+}
+
+/**
+ * Name of the controller used when a tool call does not specify one.
+ */
+export function getDefaultControllerName(): string {
+  getRegistry();
+  return defaultControllerName;
+}
 
 /**
- * Get a valid OAuth access token, using cache when possible.
- * Falls back to API key if only CLIENT_NAME is set (no secret).
+ * Look up a controller by name (or the default when omitted).
+ * Throws if the name is not configured.
  */
-export async function getAccessToken(): Promise<string> {
-  if (!CLIENT_NAME) {
+export function getController(name?: string): ControllerConfig {
+  const reg = getRegistry();
+  const key = name ?? defaultControllerName;
+  const controller = reg.get(key);
+  if (controller) return controller;
+
+  if (name === undefined && reg.size === 0) {
     throw new Error(
       "AppDynamics authentication not configured. Set APPD_CLIENT_NAME and APPD_CLIENT_SECRET, or APPD_API_KEY."
     );
   }
+  const known = [...reg.keys()].join(", ") || "(none)";
+  throw new Error(`Unknown controller "${key}". Configured controllers: ${known}.`);
+}
+
+/**
+ * Get a valid OAuth access token for a controller, using cache when possible.
+ * Falls back to API key if only the client name is set (no secret).
+ */
+export async function getAccessToken(controllerName?: string): Promise<string> {
+  const controller = getController(controllerName);
+  const { clientName, clientSecret, accountName, url } = controller;
+
+  if (!clientName) {
+    throw new Error(
+      `AppDynamics authentication not configured for controller "${controller.name}". Set APPD_CLIENT_NAME and APPD_CLIENT_SECRET, or APPD_API_KEY.`
+    );
+  }
 
   // Return cached token if still valid
-  if (accessToken && Date.now() < tokenExpiry) {
-    return accessToken;
+  const cached = tokenCache.get(controller.name);
+  if (cached && Date.now() < cached.tokenExpiry) {
+    return cached.accessToken;
   }
 
   // Try OAuth2 client credentials flow
-  if (CLIENT_SECRET) {
-    const clientId = ACCOUNT_NAME
-      ? `${CLIENT_NAME}@${ACCOUNT_NAME}`
-      : CLIENT_NAME;
+  if (clientSecret) {
+    const clientId = accountName ? `${clientName}@${accountName}` : clientName;
 
     try {
       const response = await axios.post<OAuthResponse>(
-        `${APPD_URL}/controller/api/oauth/access_token`,
+        `${url}/controller/api/oauth/access_token`,
         new URLSearchParams({
           grant_type: "client_credentials",
           client_id: clientId,
-          client_secret: CLIENT_SECRET,
+          client_secret: clientSecret,
         }),
         {
           headers: { "Content-Type": "application/x-www-form-urlencoded" },
@@ -59,10 +165,12 @@ export async function getAccessToken(): Promise<string> {
         throw new Error("No access_token in OAuth response");
       }
 
-      accessToken = token;
-      tokenExpiry =
-        Date.now() +
-        (response.data.expires_in - TOKEN_EXPIRY_SAFETY_MARGIN_SECS) * 1000;
+      tokenCache.set(controller.name, {
+        accessToken: token,
+        tokenExpiry:
+          Date.now() +
+          (response.data.expires_in - TOKEN_EXPIRY_SAFETY_MARGIN_SECS) * 1000,
+      });
       return token;
     } catch (error: unknown) {
       if (
@@ -76,24 +184,37 @@ export async function getAccessToken(): Promise<string> {
         const details = axErr.response
           ? `HTTP ${axErr.response.status}`
           : "network error";
-        console.error(`OAuth authentication failed: ${details}`);
+        console.error(`OAuth authentication failed for controller "${controller.name}": ${details}`);
       }
       throw new Error(
-        "OAuth authentication failed. Check APPD_CLIENT_NAME, APPD_CLIENT_SECRET, and APPD_ACCOUNT_NAME."
+        `OAuth authentication failed for controller "${controller.name}". Check the client name, client secret, and account name.`
       );
     }
   }
 
   // Fallback: use client name as direct API key
-  return CLIENT_NAME;
+  return clientName;
+}
+
+/**
+ * Drop the cached token for a controller so the next call re-authenticates.
+ * Used by the API client after a 401 (token revoked or expired early).
+ */
+export function clearAccessToken(controllerName?: string): void {
+  tokenCache.delete(getController(controllerName).name);
 }
 
 /**
- * Get the configured AppDynamics controller base URL.
+ * Get the base URL of a controller (or the default controller).
  */
-export function getBaseUrl(): string {
-  if (!APPD_URL) {
-    throw new Error("APPD_URL environment variable is not set.");
+export function getBaseUrl(controllerName?: string): string {
+  const controller = getController(controllerName);
+  if (!controller.url) {
+    throw new Error(
+      controller.name === DEFAULT_CONTROLLER_NAME
+        ? "APPD_URL environment variable is not set."
+        : `${envPrefix(controller.name)}URL environment variable is not set.`
+    );
   }
-  return APPD_URL;
+  return controller.url;
 }
@@ -0,0 +1,156 @@
+/**
+ * Record / replay of controller traffic for offline runs.
+ *
+ * In record mode api-client.ts saves every final response (success or HTTP
+ * error) with its request, secrets redacted. In replay mode the same requests
+ * are answered from disk without credentials or network.
+ *
+ * One file per request key (method + path + query), holding the responses in
+ * the order they were recorded. Replay walks through them and then keeps
+ * returning the last one, so a GET before and after an update can differ.
+ * Absolute `start-time` / `end-time` parameters are left out of the key so a
+ * recording stays usable as the clock moves on.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { getFixtureConfig } from "../config.js";
+import { redactSecrets } from "../utils/redact.js";
+
+export interface FixtureRequest {
+  method: string;
+  path: string;
+  params?: Record<string, string | number | boolean>;
+  data?: unknown;
+}
+
+interface RecordedResponse {
+  status: number;
+  data: unknown;
+}
+
+interface FixtureFile {
+  request: { method: string; path: string; params: Record<string, string | number | boolean> };
+  /** Request bodies, parallel to `responses` (mutations only). */
+  bodies?: unknown[];
+  responses: RecordedResponse[];
+}
+
+const VOLATILE_PARAMS = new Set(["start-time", "end-time"]);
+
+/** Keys written during this process — the first write replaces an older recording. */
+const recordedThisRun = new Set<string>();
+/** Per-file write queue so concurrent recordings of one key do not interleave. */
+const writeQueue = new Map<string, Promise<void>>();
+/** Per-file replay position. */
+const replayPosition = new Map<string, number>();
+
+function stableParams(
+  params: Record<string, string | number | boolean> | undefined
+): Record<string, string | number | boolean> {
+  return Object.fromEntries(
+    Object.entries(params ?? {})
+      .filter(([k]) => !VOLATILE_PARAMS.has(k))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+function fixturePath(controller: string, request: FixtureRequest): string {
+  const params = stableParams(request.params);
+  const key = `${request.method} ${request.path} ${JSON.stringify(params)}`;
+  const hash = createHash("sha1").update(key).digest("hex").slice(0, 12);
+  const slug = `${request.method}${request.path}`
+    .replace(/^\/controller/, "")
+    .replace(/[^A-Za-z0-9]+/g, "-")
+    .slice(0, 80);
+  const safeController = controller.replace(/[^A-Za-z0-9_-]/g, "_");
+  return join(getFixtureConfig().dir, safeController, `${slug}-${hash}.json`);
+}
+
+async function readFixture(file: string): Promise<FixtureFile | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as FixtureFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+async function bodyForFixture(data: unknown): Promise<unknown> {
+  if (data instanceof FormData) {
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of data.entries()) {
+      fields[key] = typeof value === "string" ? value : `<file ${value.name}, ${value.size} bytes>`;
+    }
+    return { formData: fields };
+  }
+  return redactSecrets(data ?? null);
+}
+
+/**
+ * Save a final response (2xx data, or an HTTP error status and body).
+ */
+export async function recordFixture(
+  controller: string,
+  request: FixtureRequest,
+  response: RecordedResponse
+): Promise<void> {
+  const file = fixturePath(controller, request);
+  const body = request.method === "GET" ? undefined : await bodyForFixture(request.data);
+
+  const previous = writeQueue.get(file) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    const existing = recordedThisRun.has(file) ? await readFixture(file) : null;
+    recordedThisRun.add(file);
+    const params = redactSecrets(stableParams(request.params)) as FixtureFile["request"]["params"];
+    const fixture: FixtureFile = existing ?? {
+      request: { method: request.method, path: request.path, params },
+      responses: [],
+    };
+    fixture.responses.push({ status: response.status, data: redactSecrets(response.data) });
+    if (body !== undefined) fixture.bodies = [...(fixture.bodies ?? []), body];
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(fixture, null, 2), "utf8");
+  });
+  writeQueue.set(file, next.catch(() => undefined));
+  try {
+    await next;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Fixture write failed (${file}): ${reason}`);
+  }
+}
+
+/**
+ * Serve a recorded response. Resolves with 2xx data, rejects with an
+ * axios-shaped error for recorded HTTP errors (so isAxios404 / handleError
+ * behave as they would live), and rejects plainly when nothing was recorded.
+ */
+export async function replayFixture<T>(
+  controller: string,
+  request: FixtureRequest
+): Promise<{ data: T; status: number }> {
+  const file = fixturePath(controller, request);
+  const fixture = await readFixture(file);
+  if (!fixture || fixture.responses.length === 0) {
+    throw new Error(
+      `No fixture recorded for ${request.method} ${request.path} on controller "${controller}" ` +
+        `(expected ${file}). Record it with APPD_FIXTURE_MODE=record.`
+    );
+  }
+
+  const position = replayPosition.get(file) ?? 0;
+  replayPosition.set(file, position + 1);
+  const response = fixture.responses[Math.min(position, fixture.responses.length - 1)]!;
+
+  if (response.status >= 400) {
+    const error = new Error(`Request failed with status code ${response.status}`);
+    Object.assign(error, {
+      isAxiosError: true,
+      response: { status: response.status, data: response.data, headers: {} },
+    });
+    throw error;
+  }
+  return { data: response.data as T, status: response.status };
+}
@@ -0,0 +1,277 @@
+/**
+ * Crawled index of an application's metric tree, for appd_search_metrics.
+ *
+ * The tree is walked breadth-first through the metric-browse endpoint, within
+ * a depth and folder-count limit, and the leaf paths found are kept in memory
+ * and saved to APPD_METRIC_INDEX_DIR (one JSON file per controller,
+ * application and crawl root). An index older than APPD_METRIC_INDEX_TTL_HOURS,
+ * or one cut short by smaller limits than requested, is crawled again.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { getMetricIndexConfig } from "../config.js";
+import { appdGet } from "./api-client.js";
+import { getDefaultControllerName } from "./auth.js";
+import { getCurrentController, runAsBulk } from "../utils/request-context.js";
+
+export interface CrawlLimits {
+  /** Levels below the crawl root to descend. */
+  maxDepth: number;
+  /** Folders to list at most. */
+  maxFolders: number;
+}
+
+export interface MetricIndex {
+  controller: string;
+  applicationId: number;
+  /** Folder the crawl started from; null = the whole tree. */
+  root: string | null;
+  /** ISO-8601 time of the crawl. */
+  crawledAt: string;
+  limits: CrawlLimits;
+  foldersVisited: number;
+  /** True when a limit stopped the crawl before the whole tree was seen. */
+  truncated: boolean;
+  leaves: string[];
+  /** Folders that could not be listed, with the reason. */
+  errors: string[];
+}
+
+export type IndexSource = "crawled" | "memory" | "disk";
+
+interface MetricTreeNode {
+  name: string;
+  type: "folder" | "leaf";
+}
+
+/** Folder listings in flight at once (each still goes through the request limiter). */
+const CRAWL_BATCH = 8;
+
+const memory = new Map<string, MetricIndex>();
+const inFlight = new Map<string, Promise<MetricIndex>>();
+
+function indexKey(controller: string, appId: number, root: string | null): string {
+  return `${controller}\u0000${appId}\u0000${root ?? ""}`;
+}
+
+function indexFile(dir: string, index: Pick<MetricIndex, "controller" | "applicationId" | "root">): string {
+  const suffix = index.root ? `-${createHash("sha1").update(index.root).digest("hex").slice(0, 10)}` : "";
+  return join(dir, encodeURIComponent(index.controller), `${index.applicationId}${suffix}.json`);
+}
+
+/** Usable for a request: fresh enough, and not cut short by smaller limits. */
+function satisfies(index: MetricIndex, limits: CrawlLimits, ttlMs: number): boolean {
+  if (Date.now() - Date.parse(index.crawledAt) > ttlMs) return false;
+  if (!index.truncated) return true;
+  return index.limits.maxDepth >= limits.maxDepth && index.limits.maxFolders >= limits.maxFolders;
+}
+
+async function readIndexFile(path: string): Promise<MetricIndex | null> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as MetricIndex;
+  } catch {
+    return null;
+  }
+}
+
+async function crawl(controller: string, appId: number, root: string | null, limits: CrawlLimits): Promise<MetricIndex> {
+  const leaves: string[] = [];
+  const errors: string[] = [];
+  let level: string[] = [root ?? ""];
+  let depth = 0;
+  let visited = 0;
+  let truncated = false;
+
+  while (level.length > 0 && !truncated) {
+    if (depth >= limits.maxDepth) {
+      truncated = true;
+      break;
+    }
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += CRAWL_BATCH) {
+      const budget = limits.maxFolders - visited;
+      if (budget <= 0) {
+        truncated = true;
+        break;
+      }
+      const batch = level.slice(i, i + Math.min(CRAWL_BATCH, budget));
+      visited += batch.length;
+      const listings = await Promise.all(
+        batch.map(async (folder) => {
+          try {
+            const children = await appdGet<MetricTreeNode[]>(
+              `/controller/rest/applications/${appId}/metrics`,
+              folder ? { "metric-path": folder } : {},
+              { noCache: true }
+            );
+            return { folder, children: Array.isArray(children) ? children : [] };
+          } catch (error) {
+            errors.push(`${folder || "(top level)"}: ${error instanceof Error ? error.message : String(error)}`);
+            return { folder, children: [] };
+          }
+        })
+      );
+      for (const { folder, children } of listings) {
+        for (const child of children) {
+          const path = folder ? `${folder}|${child.name}` : child.name;
+          if (child.type === "leaf") leaves.push(path);
+          else next.push(path);
+        }
+      }
+    }
+    level = next;
+    depth++;
+  }
+
+  return {
+    controller,
+    applicationId: appId,
+    root,
+    crawledAt: new Date().toISOString(),
+    limits,
+    foldersVisited: visited,
+    truncated,
+    leaves: leaves.sort(),
+    errors,
+  };
+}
+
+/**
+ * Leaf-path index for an application on the current controller: from memory,
+ * then disk, else crawled (at bulk priority) and saved. `refresh` forces a crawl.
+ */
+export async function getMetricIndex(
+  appId: number,
+  root: string | null,
+  limits: CrawlLimits,
+  refresh = false
+): Promise<{ index: MetricIndex; source: IndexSource }> {
+  const controller = getCurrentController() ?? getDefaultControllerName();
+  const { dir, ttlMs } = getMetricIndexConfig();
+  const key = indexKey(controller, appId, root);
+
+  if (!refresh) {
+    const cached = memory.get(key);
+    if (cached && satisfies(cached, limits, ttlMs)) return { index: cached, source: "memory" };
+    if (dir) {
+      const stored = await readIndexFile(indexFile(dir, { controller, applicationId: appId, root }));
+      if (stored && satisfies(stored, limits, ttlMs)) {
+        memory.set(key, stored);
+        return { index: stored, source: "disk" };
+      }
+    }
+  }
+
+  // A crawl already running is joined, but its result is used only if its
+  // limits cover this request's; otherwise crawl again with ours
+  const joined = inFlight.get(key);
+  let index = joined ? await joined : undefined;
+  if (!index || !satisfies(index, limits, ttlMs)) {
+    const pending: Promise<MetricIndex> = runAsBulk(() => crawl(controller, appId, root, limits)).finally(() => {
+      if (inFlight.get(key) === pending) inFlight.delete(key);
+    });
+    inFlight.set(key, pending);
+    index = await pending;
+  }
+  memory.set(key, index);
+  if (dir) {
+    const file = indexFile(dir, index);
+    try {
+      await mkdir(dirname(file), { recursive: true });
+      await writeFile(file, JSON.stringify(index));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`Metric index not saved to ${file}: ${reason}`);
+    }
+  }
+  return { index, source: "crawled" };
+}
+
+// ── Search ────────────────────────────────────────────────────────────────────
+
+export type MetricSearchMode = "substring" | "glob" | "regex";
+
+export interface MetricMatch {
+  path: string;
+  /** Whether appd_get_metric_data should be called with rollup (false for node-level and custom metrics). */
+  rollup: boolean;
+  score: number;
+}
+
+/**
+ * rollup hint for a metric path: per-node and custom metrics return empty
+ * data when rolled up.
+ */
+export function rollupHint(path: string): boolean {
+  return !/\|Individual Nodes\||\|Custom Metrics(\||$)/.test(path);
+}
+
+/** Glob over a full path: "*" stays within one segment, "**" crosses segments, "?" is one character. */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!;
+    if (ch === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (ch === "*") {
+      source += "[^|]*";
+    } else if (ch === "?") {
+      source += "[^|]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+/** Build a predicate for the query; throws on an invalid regex. */
+function matcher(query: string, mode: MetricSearchMode): (path: string) => boolean {
+  if (mode === "glob") {
+    const pattern = globToRegExp(query);
+    return (path) => pattern.test(path);
+  }
+  if (mode === "regex") {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(query, "i");
+    } catch (error) {
+      throw new Error(`Invalid regex "${query}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return (path) => pattern.test(path);
+  }
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return (path) => {
+    const lower = path.toLowerCase();
+    return terms.every((t) => lower.includes(t));
+  };
+}
+
+/**
+ * Rank: leaf name equal to the query, then leaf names containing it, then
+ * matches elsewhere in the path; shallower and shorter paths first.
+ */
+function score(path: string, query: string): number {
+  const leaf = path.slice(path.lastIndexOf("|") + 1).toLowerCase();
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  let value = 0;
+  if (leaf === query.toLowerCase()) value += 100;
+  else if (terms.length > 0 && terms.every((t) => leaf.includes(t))) value += 50;
+  else if (terms.some((t) => leaf.includes(t))) value += 20;
+  value -= path.split("|").length * 2;
+  value -= path.length / 100;
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Matching leaf paths, best first.
+ */
+export function searchMetricIndex(index: MetricIndex, query: string, mode: MetricSearchMode): MetricMatch[] {
+  const matches = matcher(query, mode);
+  return index.leaves
+    .filter(matches)
+    .map((path) => ({ path, rollup: rollupHint(path), score: score(path, query) }))
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+}
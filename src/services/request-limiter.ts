@@ -0,0 +1,101 @@
+/**
+ * Concurrency and rate limiter for controller requests.
+ *
+ * Caps the number of in-flight requests and the number of requests started per
+ * second. Waiting requests are released in priority order — interactive
+ * (single-entity) calls before bulk sweeps — and FIFO within a priority, so a
+ * 400-application fan-out cannot starve a user's one-off lookup.
+ */
+
+export type RequestPriority = "interactive" | "bulk";
+
+const PRIORITY_ORDER: RequestPriority[] = ["interactive", "bulk"];
+
+export class RequestLimiter {
+  private inFlight = 0;
+  private readonly queues: Record<RequestPriority, Array<() => void>> = {
+    interactive: [],
+    bulk: [],
+  };
+  private tokens: number;
+  private lastRefill = Date.now();
+  private refillTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param maxInFlight    maximum concurrent requests (0 = unlimited)
+   * @param perSecond      maximum request starts per second (0 = unlimited)
+   */
+  constructor(
+    private readonly maxInFlight: number,
+    private readonly perSecond: number
+  ) {
+    this.tokens = perSecond;
+  }
+
+  /**
+   * Run `fn` once a slot is available. The slot is released when `fn` settles.
+   */
+  async run<T>(priority: RequestPriority, fn: () => Promise<T>): Promise<T> {
+    await new Promise<void>((resolve) => {
+      this.queues[priority].push(resolve);
+      this.drain();
+    });
+    try {
+      return await fn();
+    } finally {
+      this.inFlight--;
+      this.drain();
+    }
+  }
+
+  /** Current in-flight and queued counts (for diagnostics). */
+  stats(): { inFlight: number; queued: Record<RequestPriority, number> } {
+    return {
+      inFlight: this.inFlight,
+      queued: {
+        interactive: this.queues.interactive.length,
+        bulk: this.queues.bulk.length,
+      },
+    };
+  }
+
+  private refill(): void {
+    if (this.perSecond <= 0) return;
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.perSecond, this.tokens + elapsed * this.perSecond);
+    this.lastRefill = now;
+  }
+
+  private nextQueue(): Array<() => void> | undefined {
+    return PRIORITY_ORDER.map((p) => this.queues[p]).find((q) => q.length > 0);
+  }
+
+  private drain(): void {
+    while (this.maxInFlight <= 0 || this.inFlight < this.maxInFlight) {
+      const queue = this.nextQueue();
+      if (!queue) return;
+
+      if (this.perSecond > 0) {
+        this.refill();
+        if (this.tokens < 1) {
+          this.scheduleRefill();
+          return;
+        }
+        this.tokens -= 1;
+      }
+
+      this.inFlight++;
+      queue.shift()!();
+    }
+  }
+
+  private scheduleRefill(): void {
+    if (this.refillTimer) return;
+    const waitMs = Math.ceil(((1 - this.tokens) / this.perSecond) * 1000);
+    this.refillTimer = setTimeout(() => {
+      this.refillTimer = null;
+      this.drain();
+    }, waitMs);
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Shared cache for controller GET responses.
+ *
+ * Entries are keyed by controller, path and query parameters. Two TTL tiers:
+ *  - "topology": applications, tiers, nodes, BTs, backends, health rules,
+ *    dashboards, the metric tree — changes rarely
+ *  - "data": time-windowed results (metric data, events, snapshots,
+ *    violations) — short TTL so "last N minutes" stays current
+ *
+ * Concurrent identical requests share one in-flight fetch. Every caller gets
+ * its own deep copy, so tools may mutate what they receive. Mutations are
+ * invalidated from api-client.ts (see invalidateForMutation).
+ *
+ * Refresh listeners (onCacheRefresh) hear about an entry that was refetched
+ * with different data or dropped by invalidation — MCP resource
+ * subscriptions are built on this.
+ */
+
+import { getCacheConfig } from "../config.js";
+
+export type CacheTier = "topology" | "data";
+
+export type CacheRefreshListener = (controller: string, path: string) => void;
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+const DATA_PATH = /\/(metric-data|events|request-snapshots|problems)(\/|$)/;
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+/** Bumped on invalidation so a fetch that started earlier does not store a stale result. */
+let generation = 0;
+const refreshListeners = new Set<CacheRefreshListener>();
+
+/** TTL tier for a GET path. */
+export function cacheTier(path: string): CacheTier {
+  return DATA_PATH.test(path) ? "data" : "topology";
+}
+
+function cacheKey(
+  controller: string,
+  path: string,
+  params: Record<string, string | number | boolean> | undefined
+): string {
+  const query = Object.entries(params ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${k}=${String(v)}`)
+    .join("&");
+  return `${controller}|${path}?${query}`;
+}
+
+/**
+ * Be told when a cached response changes: refetched with different data, or
+ * invalidated. Returns a function that removes the listener.
+ */
+export function onCacheRefresh(listener: CacheRefreshListener): () => void {
+  refreshListeners.add(listener);
+  return () => {
+    refreshListeners.delete(listener);
+  };
+}
+
+function notifyRefresh(controller: string, path: string): void {
+  for (const listener of refreshListeners) {
+    try {
+      listener(controller, path);
+    } catch (error) {
+      console.error("Cache refresh listener failed:", error);
+    }
+  }
+}
+
+function store(key: string, value: unknown, ttlMs: number, maxEntries: number): void {
+  entries.delete(key);
+  entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  // Map iteration order is insertion order: evict the oldest first
+  while (entries.size > maxEntries) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+}
+
+/**
+ * Return a cached response or run `fetch`, sharing the fetch with concurrent
+ * identical calls. `fresh` skips the cached copy but still stores the result.
+ */
+export async function cachedGet<T>(
+  controller: string,
+  path: string,
+  params: Record<string, string | number | boolean> | undefined,
+  fresh: boolean,
+  fetch: () => Promise<T>
+): Promise<T> {
+  const config = getCacheConfig();
+  const ttlMs = cacheTier(path) === "data" ? config.dataTtlMs : config.topologyTtlMs;
+  if (ttlMs <= 0) return fetch();
+
+  const key = cacheKey(controller, path, params);
+  if (!fresh) {
+    const hit = entries.get(key);
+    if (hit && hit.expiresAt > Date.now()) return structuredClone(hit.value) as T;
+
+    const pending = inFlight.get(key);
+    if (pending) return structuredClone(await pending) as T;
+  }
+
+  const startedAt = generation;
+  const request = fetch();
+  inFlight.set(key, request);
+  try {
+    const value = await request;
+    if (generation === startedAt) {
+      const previous = entries.get(key);
+      store(key, value, ttlMs, config.maxEntries);
+      if (previous && refreshListeners.size > 0 && JSON.stringify(previous.value) !== JSON.stringify(value)) {
+        notifyRefresh(controller, path);
+      }
+    }
+    return structuredClone(value);
+  } finally {
+    if (inFlight.get(key) === request) inFlight.delete(key);
+  }
+}
+
+/**
+ * Drop cached entries for a controller whose path matches `pattern`
+ * (all entries for the controller when omitted).
+ */
+export function invalidateCache(controller: string, pattern?: RegExp): void {
+  generation++;
+  const prefix = `${controller}|`;
+  for (const key of entries.keys()) {
+    if (!key.startsWith(prefix)) continue;
+    const path = key.slice(prefix.length, key.indexOf("?"));
+    if (!pattern || pattern.test(path)) {
+      entries.delete(key);
+      notifyRefresh(controller, path);
+    }
+  }
+}
+
+/**
+ * Invalidate what a POST / PUT / DELETE to `path` may have changed.
+ * Health-rule and dashboard writes drop only their own family of keys;
+ * anything else clears the controller's cache.
+ */
+export function invalidateForMutation(controller: string, path: string): void {
+  const healthRule = path.match(/\/applications\/(\d+)\/health-rules/);
+  if (healthRule) {
+    invalidateCache(controller, new RegExp(`/applications/${healthRule[1]}/(policy/)?health-rules`));
+    return;
+  }
+  if (path.startsWith("/controller/restui/dashboards") || path.includes("CustomDashboardImportExportServlet")) {
+    invalidateCache(controller, /\/controller\/(restui\/dashboards|CustomDashboardImportExportServlet)/);
+    return;
+  }
+  invalidateCache(controller);
+}
+
+/** Entry counts for diagnostics. */
+export function cacheStats(): { entries: number; inFlight: number } {
+  return { entries: entries.size, inFlight: inFlight.size };
+}
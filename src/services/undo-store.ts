@@ -0,0 +1,131 @@
+/**
+ * Local before-images for reversible health rule and dashboard mutations.
+ *
+ * Each mutating tool saves the entity as it was before the change — the
+ * alerting-API health rule JSON, the RESTUI dashboard for an update, or the
+ * dashboard export for a delete — as one JSON file per operation.
+ * appd_list_undo lists these and appd_undo restores one. Only the newest
+ * APPD_UNDO_MAX_ENTRIES files are kept.
+ */
+
+import { mkdir, readdir, readFile, unlink, writeFile } from "fs/promises";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import { getUndoConfig } from "../config.js";
+import { getDefaultControllerName } from "./auth.js";
+import { getCurrentController, getRequestContext } from "../utils/request-context.js";
+
+export type UndoKind = "health-rule" | "dashboard";
+
+export interface UndoRecord {
+  /** Short ID passed to appd_undo. */
+  id: string;
+  /** ISO-8601 time of the original mutation. */
+  timestamp: string;
+  tool: string | null;
+  controller: string;
+  kind: UndoKind;
+  /** What the original call did: "update", "enable", "disable", "delete", "add-widget". */
+  operation: string;
+  /** Owning application (health rules only). */
+  applicationId?: number;
+  entityId: number;
+  entityName: string;
+  /** Health rule JSON from the alerting API; RESTUI dashboard (update) or export JSON (delete). */
+  before: Record<string, unknown>;
+  /** Set once the operation has been undone. */
+  undone?: { timestamp: string; result: string };
+}
+
+export type NewUndoRecord = Omit<UndoRecord, "id" | "timestamp" | "undone">;
+
+function fileName(record: Pick<UndoRecord, "timestamp" | "id">): string {
+  return `${record.timestamp.replace(/[:.]/g, "-")}_${record.id}.json`;
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  try {
+    return (await readdir(dir)).filter((f) => f.endsWith(".json")).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function prune(dir: string, maxEntries: number): Promise<void> {
+  const files = await listFiles(dir);
+  for (const file of files.slice(0, Math.max(0, files.length - maxEntries))) {
+    await unlink(join(dir, file)).catch(() => undefined);
+  }
+}
+
+/**
+ * Save a before-image. Returns the record, or null when undo is disabled.
+ */
+export async function saveUndoRecord(input: NewUndoRecord): Promise<UndoRecord | null> {
+  const { dir, maxEntries } = getUndoConfig();
+  if (!dir) return null;
+
+  const record: UndoRecord = {
+    id: randomBytes(4).toString("hex"),
+    timestamp: new Date().toISOString(),
+    ...input,
+  };
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, fileName(record)), JSON.stringify(record, null, 2), "utf8");
+  await prune(dir, maxEntries);
+  return record;
+}
+
+/**
+ * Saved operations, newest first.
+ */
+export async function listUndoRecords(): Promise<UndoRecord[]> {
+  const { dir } = getUndoConfig();
+  if (!dir) return [];
+
+  const records: UndoRecord[] = [];
+  for (const file of (await listFiles(dir)).reverse()) {
+    try {
+      records.push(JSON.parse(await readFile(join(dir, file), "utf8")) as UndoRecord);
+    } catch {
+      // skip unreadable files
+    }
+  }
+  return records;
+}
+
+export async function getUndoRecord(id: string): Promise<UndoRecord | undefined> {
+  return (await listUndoRecords()).find((r) => r.id === id);
+}
+
+/**
+ * Mark an operation as undone so it is not restored twice.
+ */
+export async function markUndone(record: UndoRecord, result: string): Promise<void> {
+  const { dir } = getUndoConfig();
+  if (!dir) return;
+  const updated: UndoRecord = { ...record, undone: { timestamp: new Date().toISOString(), result } };
+  await writeFile(join(dir, fileName(record)), JSON.stringify(updated, null, 2), "utf8");
+}
+
+/**
+ * Save a before-image for the current tool call and return the line to append
+ * to its response: how to undo it, a warning if saving failed, or nothing when
+ * undo is disabled. Never throws — the mutation has already happened.
+ */
+export async function recordUndo(
+  input: Omit<NewUndoRecord, "tool" | "controller">
+): Promise<string> {
+  try {
+    const record = await saveUndoRecord({
+      ...input,
+      tool: getRequestContext().tool ?? null,
+      controller: getCurrentController() ?? getDefaultControllerName(),
+    });
+    return record ? `\n\nUndo: appd_undo with operationId "${record.id}".` : "";
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return `\n\nWarning: the before-image could not be saved, so this change cannot be undone (${reason}).`;
+  }
+}
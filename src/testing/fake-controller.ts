@@ -0,0 +1,806 @@
+/**
+ * In-process fake AppDynamics controller for offline runs and CI.
+ *
+ * Serves the endpoints the tools call, backed by a small seeded model
+ * (two applications, tiers, nodes, BTs, backends, service endpoints, health
+ * rules, dashboards) with deterministic metric series:
+ *   - OAuth:     POST /controller/api/oauth/access_token
+ *   - REST:      /controller/rest/applications/... (topology, metric tree,
+ *                metric-data, events, snapshots, violations, legacy health rules)
+ *   - Alerting:  /controller/alerting/rest/v1/applications/{id}/health-rules[/{id}]
+ *                and .../schedules[/{id}]
+ *   - RESTUI:    /controller/restui/dashboards/... (list, get, create, update, delete)
+ *   - Servlet:   /controller/CustomDashboardImportExportServlet (export GET, import POST)
+ *
+ * Health rules, schedules and dashboards are stateful, so create / update / delete
+ * flows behave like a real controller. The "payment-service" tier and the
+ * "payments-gateway" backend degrade over the last 30 minutes, giving
+ * appd_diagnose_issue something to find.
+ *
+ * Programmatic use:  const fake = await startFakeController();  APPD_URL = fake.url
+ * Standalone:        npm run fake-controller   (port from APPD_FAKE_PORT, default 8090)
+ */
+
+import http from "http";
+import { randomUUID } from "crypto";
+import { pathToFileURL } from "url";
+import type { AddressInfo } from "net";
+
+// ── Model ─────────────────────────────────────────────────────────────────────
+
+interface FakeApp {
+  id: number;
+  name: string;
+  description: string;
+  tiers: Array<{ id: number; name: string; agentType: string }>;
+  bts: Array<{ id: number; name: string; tierName: string; entryPointType: string }>;
+  backends: Array<{ id: number; name: string; exitPointType: string }>;
+}
+
+export interface FakeControllerState {
+  apps: FakeApp[];
+  /** Alerting-API health rules by ID. */
+  healthRules: Map<number, Record<string, unknown> & { applicationId: number }>;
+  /** Alerting-API health rule schedules by ID. */
+  schedules: Map<number, Record<string, unknown> & { applicationId: number }>;
+  /** RESTUI dashboards by ID. */
+  dashboards: Map<number, Record<string, unknown>>;
+  /** Every request served, as "METHOD /path". */
+  requests: string[];
+}
+
+export interface FakeController {
+  /** Base URL to use as APPD_URL. */
+  url: string;
+  state: FakeControllerState;
+  /** Stop listening; calling it again is a no-op. */
+  close(): Promise<void>;
+}
+
+export interface FakeControllerOptions {
+  /** 0 (default) picks a free port. */
+  port?: number;
+  host?: string;
+  /** Clock used for generated data (defaults to Date.now). */
+  now?: () => number;
+}
+
+const INCIDENT_TIER = "payment-service";
+const INCIDENT_BACKEND = "payments-gateway";
+const INCIDENT_WINDOW_MS = 30 * 60 * 1000;
+
+const TIER_METRICS = ["Average Response Time (ms)", "Calls per Minute", "Errors per Minute"];
+
+function seed(): FakeControllerState {
+  const apps: FakeApp[] = [
+    {
+      id: 1,
+      name: "Checkout",
+      description: "Web checkout and payments",
+      tiers: [
+        { id: 10, name: "web-frontend", agentType: "NODEJS_APP_AGENT" },
+        { id: 11, name: INCIDENT_TIER, agentType: "APP_AGENT" },
+      ],
+      bts: [
+        { id: 100, name: "/checkout", tierName: "web-frontend", entryPointType: "NODEJS_WEB" },
+        { id: 101, name: "/cart", tierName: "web-frontend", entryPointType: "NODEJS_WEB" },
+        { id: 102, name: "/pay", tierName: INCIDENT_TIER, entryPointType: "SERVLET" },
+      ],
+      backends: [
+        { id: 200, name: "orders-db", exitPointType: "JDBC" },
+        { id: 201, name: INCIDENT_BACKEND, exitPointType: "HTTP" },
+      ],
+    },
+    {
+      id: 2,
+      name: "Inventory",
+      description: "Stock and warehouse service",
+      tiers: [{ id: 20, name: "inventory-api", agentType: "APP_AGENT" }],
+      bts: [{ id: 110, name: "/stock", tierName: "inventory-api", entryPointType: "SERVLET" }],
+      backends: [{ id: 210, name: "inventory-db", exitPointType: "JDBC" }],
+    },
+  ];
+
+  const healthRules = new Map<number, Record<string, unknown> & { applicationId: number }>();
+  const rule = (id: number, applicationId: number, name: string, metricPath: string, threshold: number) =>
+    healthRules.set(id, {
+      id,
+      applicationId,
+      name,
+      enabled: true,
+      useDataFromLastNMinutes: 30,
+      waitTimeAfterViolation: 30,
+      affects: {
+        affectedEntityType: "APPLICATION_PERFORMANCE",
+        affectedApplicationPerformance: { applicationPerformanceScope: "ALL_TIERS" },
+      },
+      evalCriterias: {
+        criticalCriteria: {
+          conditionAggregationType: "ALL",
+          shortcutAlertEnabled: false,
+          conditions: [
+            {
+              name: "Condition 1",
+              shortcutAlerted: false,
+              evalDetail: {
+                evalDetailType: "SINGLE_METRIC",
+                metricAggregateFunction: "VALUE",
+                metricPath,
+                metricEvalDetail: {
+                  metricEvalDetailType: "SPECIFIC_TYPE",
+                  compareCondition: "GREATER_THAN_SPECIFIC_VALUE",
+                  compareValue: threshold,
+                },
+              },
+            },
+          ],
+        },
+        warningCriteria: null,
+      },
+    });
+  rule(500, 1, "Payment response time", "Average Response Time (ms)", 800);
+  rule(501, 1, "Checkout error rate", "Errors per Minute", 20);
+  rule(510, 2, "Inventory response time", "Average Response Time (ms)", 1000);
+
+  const schedules = new Map<number, Record<string, unknown> & { applicationId: number }>();
+  let scheduleId = 700;
+  for (const app of apps) {
+    const schedule = (name: string, scheduleConfiguration: Record<string, unknown>) => {
+      const id = scheduleId++;
+      schedules.set(id, { id, applicationId: app.id, name, description: name, timezone: "UTC", scheduleConfiguration });
+    };
+    schedule("Always", { scheduleFrequency: "DAILY", startTime: "00:00", endTime: "23:59" });
+    schedule("Weekdays: 8am-5pm, Mon-Fri", {
+      scheduleFrequency: "WEEKLY",
+      days: ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"],
+      startTime: "08:00",
+      endTime: "17:00",
+    });
+  }
+
+  const dashboards = new Map<number, Record<string, unknown>>();
+  dashboards.set(900, {
+    id: 900,
+    version: 1,
+    name: "Checkout Overview",
+    description: "Seeded dashboard",
+    height: 768,
+    width: 1024,
+    canvasType: "CANVAS_TYPE_GRID",
+    widgets: [
+      { id: 9001, guid: randomUUID(), version: 1, type: "TEXT", title: "Checkout", text: "Checkout", x: 0, y: 0, width: 4, height: 1, dashboardId: 900 },
+    ],
+  });
+
+  return { apps, healthRules, schedules, dashboards, requests: [] };
+}
+
+function nodesOf(app: FakeApp): Array<Record<string, unknown>> {
+  return app.tiers.flatMap((tier, t) =>
+    [1, 2].map((n) => ({
+      id: tier.id * 10 + n,
+      name: `${tier.name}-node-${n}`,
+      tierId: tier.id,
+      tierName: tier.name,
+      machineId: tier.id * 100 + n,
+      machineName: `host-${tier.name}-${n}`,
+      machineOSType: "Linux",
+      appAgentVersion: "Server Agent v24.10.0",
+      agentType: tier.agentType,
+      ipAddresses: { ipAddresses: [`10.0.${t}.${n}`] },
+    }))
+  );
+}
+
+function sepsOf(app: FakeApp, tierId: number): Array<Record<string, unknown>> {
+  return app.bts
+    .filter((bt) => app.tiers.find((t) => t.id === tierId)?.name === bt.tierName)
+    .map((bt) => ({ id: bt.id + 1000, name: `${bt.name} endpoint`, tierId, sepType: "SERVLET" }));
+}
+
+/** Every leaf metric path the fake exposes for an application. */
+function metricLeaves(app: FakeApp): string[] {
+  const leaves: string[] = [];
+  for (const tier of app.tiers) {
+    for (const m of TIER_METRICS) leaves.push(`Overall Application Performance|${tier.name}|${m}`);
+  }
+  for (const bt of app.bts) {
+    for (const m of TIER_METRICS) {
+      leaves.push(`Business Transaction Performance|Business Transactions|${bt.tierName}|${bt.name}|${m}`);
+    }
+  }
+  for (const backend of app.backends) {
+    for (const m of TIER_METRICS) leaves.push(`Backends|${backend.name}|${m}`);
+  }
+  for (const node of nodesOf(app)) {
+    const base = `Application Infrastructure Performance|${String(node.tierName)}|Individual Nodes|${String(node.name)}`;
+    leaves.push(
+      `${base}|Hardware Resources|CPU|%Busy`,
+      `${base}|JVM|Memory:Heap used (MB)`,
+      `${base}|JVM|Garbage Collection|GC Time Spent Per Min (ms)`
+    );
+  }
+  for (const tier of app.tiers) {
+    for (const sep of sepsOf(app, tier.id)) {
+      for (const m of TIER_METRICS) leaves.push(`Service Endpoints|${String(sep.id)}|${m}`);
+    }
+  }
+  return leaves;
+}
+
+// ── Metric generation ─────────────────────────────────────────────────────────
+
+function hash(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+/** Deterministic value for a metric at a minute: base level, daily wave, incident bump. */
+function metricValue(path: string, time: number, now: number): number {
+  const h = hash(path);
+  const base = path.includes("%Busy")
+    ? 20 + (h % 30)
+    : path.includes("Errors")
+      ? 1 + (h % 5)
+      : path.includes("Calls")
+        ? 100 + (h % 400)
+        : 50 + (h % 250);
+  const daily = 1 + 0.25 * Math.sin(((time % 86_400_000) / 86_400_000) * 2 * Math.PI + (h % 7));
+  const noise = 1 + ((hash(`${path}|${Math.floor(time / 60_000)}`) % 1000) / 1000 - 0.5) * 0.1;
+  const incident =
+    (path.includes(INCIDENT_TIER) || path.includes(INCIDENT_BACKEND)) && time > now - INCIDENT_WINDOW_MS
+      ? path.includes("Calls") ? 0.7 : 3
+      : 1;
+  return Math.max(0, Math.round(base * daily * noise * incident));
+}
+
+/** Resolve AppDynamics time-range parameters to [start, end) in ms. */
+function timeWindow(query: URLSearchParams, now: number): [number, number] {
+  const type = query.get("time-range-type") ?? "BEFORE_NOW";
+  const duration = Number(query.get("duration-in-mins") ?? 60) * 60_000;
+  const start = Number(query.get("start-time"));
+  const end = Number(query.get("end-time"));
+  switch (type) {
+    case "BETWEEN_TIMES":
+      return [start, end];
+    case "AFTER_TIME":
+      return [start, Math.min(now, start + duration)];
+    case "BEFORE_TIME":
+      return [end - duration, end];
+    default:
+      return [now - duration, now];
+  }
+}
+
+function metricData(path: string, known: boolean, query: URLSearchParams, now: number): unknown[] {
+  if (!known) {
+    return [{ metricId: 0, metricName: "METRIC DATA NOT FOUND", metricPath: path, frequency: "ONE_MIN", metricValues: [] }];
+  }
+  const [start, end] = timeWindow(query, now);
+  const span = end - start;
+  const [frequency, step] =
+    span <= 4 * 3_600_000 ? ["ONE_MIN", 60_000] : span <= 2 * 86_400_000 ? ["TEN_MIN", 600_000] : ["ONE_HOUR", 3_600_000];
+  const points: Array<Record<string, number>> = [];
+  for (let t = Math.ceil(start / step) * step; t < end; t += step) {
+    const v = metricValue(path, t, now);
+    points.push({ startTimeInMillis: t, occurrences: 1, current: v, min: v, max: v, count: 1, sum: v, value: v, standardDeviation: 0 });
+  }
+
+  let metricValues = points;
+  if (query.get("rollup") !== "false" && points.length > 0) {
+    const values = points.map((p) => p.value!);
+    const sum = values.reduce((a, b) => a + b, 0);
+    metricValues = [
+      {
+        startTimeInMillis: points[0]!.startTimeInMillis!,
+        occurrences: 1,
+        current: values[values.length - 1]!,
+        min: Math.min(...values),
+        max: Math.max(...values),
+        count: values.length,
+        sum,
+        value: Math.round(sum / values.length),
+        standardDeviation: 0,
+      },
+    ];
+  }
+  return [{ metricId: hash(path) % 100000, metricName: path, metricPath: path, frequency, metricValues }];
+}
+
+// ── Events, violations, snapshots ─────────────────────────────────────────────
+
+function eventsFor(app: FakeApp, now: number): Array<Record<string, unknown>> {
+  if (!app.tiers.some((t) => t.name === INCIDENT_TIER)) return [];
+  const tier = app.tiers.find((t) => t.name === INCIDENT_TIER)!;
+  const events: Array<Record<string, unknown>> = [];
+  for (let i = 0; i < 6; i++) {
+    events.push({
+      id: 7000 + i,
+      type: "APPLICATION_ERROR",
+      severity: "ERROR",
+      summary: `java.net.SocketTimeoutException: Read timed out calling ${INCIDENT_BACKEND}`,
+      eventTime: now - (5 + i * 4) * 60_000,
+      applicationId: app.id,
+      affectedEntityType: "APPLICATION_COMPONENT",
+      affectedEntityId: tier.id,
+      affectedEntityName: tier.name,
+    });
+  }
+  events.push({
+    id: 7100,
+    type: "ANOMALY_OPEN_CRITICAL",
+    severity: "ERROR",
+    summary: `Anomaly detected: /pay average response time is far above its baseline`,
+    eventTime: now - 25 * 60_000,
+    applicationId: app.id,
+    affectedEntityType: "BUSINESS_TRANSACTION",
+    affectedEntityId: 102,
+    affectedEntityName: "/pay",
+  });
+  return events;
+}
+
+function violationsFor(app: FakeApp, state: FakeControllerState, now: number): Array<Record<string, unknown>> {
+  const rule = [...state.healthRules.values()].find(
+    (r) => r.applicationId === app.id && r.name === "Payment response time"
+  );
+  if (!rule) return [];
+  return [
+    {
+      id: 8000,
+      name: rule.name,
+      severity: "CRITICAL",
+      status: "OPEN",
+      incidentStatus: "OPEN",
+      affectedEntityType: "APPLICATION_COMPONENT",
+      affectedEntityName: INCIDENT_TIER,
+      affectedEntityId: 11,
+      startTimeInMillis: now - 25 * 60_000,
+      detectedTimeInMillis: now - 25 * 60_000,
+      description: `${INCIDENT_TIER} Average Response Time (ms) is above 800`,
+      triggeredEntityDefinition: { entityType: "POLICY", entityId: rule.id, name: rule.name },
+    },
+  ];
+}
+
+function snapshotsFor(app: FakeApp, now: number): Array<Record<string, unknown>> {
+  return app.bts.slice(0, 3).flatMap((bt, b) =>
+    [0, 1].map((i) => {
+      const slow = bt.tierName === INCIDENT_TIER;
+      return {
+        id: 9500 + b * 10 + i,
+        requestGUID: randomUUID(),
+        businessTransactionId: bt.id,
+        applicationComponentName: bt.tierName,
+        applicationComponentNodeName: `${bt.tierName}-node-${i + 1}`,
+        timeTakenInMilliSecs: slow ? 4200 + i * 300 : 120 + i * 15,
+        userExperience: slow ? "STALL" : "NORMAL",
+        errorOccurred: slow,
+        errorDetails: slow ? `SocketTimeoutException calling ${INCIDENT_BACKEND}` : undefined,
+        url: bt.name,
+        serverStartTime: now - (3 + b * 5 + i) * 60_000,
+        exitCalls: slow
+          ? [{ exitPointName: INCIDENT_BACKEND, timeTakenInMilliSecs: 4000, type: "HTTP" }]
+          : [{ exitPointName: "orders-db", timeTakenInMilliSecs: 12, type: "JDBC", detailString: "SELECT * FROM orders WHERE id = ?" }],
+      };
+    })
+  );
+}
+
+// ── Dashboards ────────────────────────────────────────────────────────────────
+
+const EXPORT_TYPES: Record<string, string> = {
+  TIMESERIES_GRAPH: "GraphWidget",
+  METRIC_VALUE: "MetricLabelWidget",
+  HEALTH_LIST: "HealthListWidget",
+  TEXT: "TextWidget",
+  PIE: "PieWidget",
+  GAUGE: "GaugeWidget",
+};
+const RESTUI_TYPES = Object.fromEntries(Object.entries(EXPORT_TYPES).map(([k, v]) => [v, k]));
+
+function assignWidgetIds(dashboard: Record<string, unknown>, nextId: () => number): void {
+  const widgets = (dashboard["widgets"] as Array<Record<string, unknown>> | undefined) ?? [];
+  dashboard["widgets"] = widgets.map((w) => ({
+    ...w,
+    id: typeof w["id"] === "number" && w["id"] > 0 ? w["id"] : nextId(),
+    guid: typeof w["guid"] === "string" ? w["guid"] : randomUUID(),
+    version: typeof w["version"] === "number" ? w["version"] + 1 : 1,
+    dashboardId: dashboard["id"],
+  }));
+}
+
+function toExport(dashboard: Record<string, unknown>): Record<string, unknown> {
+  const widgets = (dashboard["widgets"] as Array<Record<string, unknown>> | undefined) ?? [];
+  return {
+    schemaVersion: null,
+    dashboardFormatVersion: "4.0",
+    name: dashboard["name"],
+    description: dashboard["description"] ?? null,
+    height: dashboard["height"],
+    width: dashboard["width"],
+    canvasType: dashboard["canvasType"],
+    widgetTemplates: widgets.map((w) => {
+      const { id: _id, guid: _guid, version: _version, dashboardId: _dashboardId, type, ...rest } = w;
+      return { ...rest, widgetType: EXPORT_TYPES[String(type)] ?? type };
+    }),
+  };
+}
+
+function fromExport(exported: Record<string, unknown>): Record<string, unknown> {
+  const templates = (exported["widgetTemplates"] as Array<Record<string, unknown>> | undefined) ?? [];
+  return {
+    name: exported["name"],
+    description: exported["description"] ?? "",
+    height: exported["height"] ?? 768,
+    width: exported["width"] ?? 1024,
+    canvasType: exported["canvasType"] ?? "CANVAS_TYPE_GRID",
+    widgets: templates.map(({ widgetType, ...rest }) => ({
+      ...rest,
+      type: RESTUI_TYPES[String(widgetType)] ?? widgetType,
+    })),
+  };
+}
+
+/** Pull the uploaded file out of a multipart/form-data body. */
+function multipartFile(body: string, contentType: string | undefined): string | null {
+  const boundary = contentType?.match(/boundary=(?:"([^"]+)"|([^;]+))/);
+  if (!boundary) return null;
+  const marker = `--${boundary[1] ?? boundary[2]}`;
+  for (const part of body.split(marker)) {
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd === -1 || !/filename=/.test(part.slice(0, headerEnd))) continue;
+    return part.slice(headerEnd + 4).replace(/\r\n$/, "");
+  }
+  return null;
+}
+
+// ── HTTP ──────────────────────────────────────────────────────────────────────
+
+interface Reply {
+  status: number;
+  body: unknown;
+}
+
+const ok = (body: unknown): Reply => ({ status: 200, body });
+const notFound = (what: string): Reply => ({ status: 404, body: { message: `${what} not found` } });
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => chunks.push(c));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function parseJson(body: string): unknown {
+  return body.trim() === "" ? null : JSON.parse(body);
+}
+
+/**
+ * Start the fake controller. Resolves once it is listening.
+ */
+export async function startFakeController(options: FakeControllerOptions = {}): Promise<FakeController> {
+  const state = seed();
+  const now = options.now ?? (() => Date.now());
+  let nextId = 10_000;
+  const newId = (): number => nextId++;
+
+  const findApp = (ref: string): FakeApp | undefined => {
+    const decoded = decodeURIComponent(ref);
+    return state.apps.find((a) => String(a.id) === decoded || a.name === decoded);
+  };
+
+  const ruleSummary = (r: Record<string, unknown>) => ({
+    id: r["id"],
+    name: r["name"],
+    type: "HEALTH_RULE",
+    enabled: r["enabled"],
+    isDefault: false,
+    affectedEntityType: (r["affects"] as { affectedEntityType?: string } | undefined)?.affectedEntityType,
+  });
+
+  async function route(req: http.IncomingMessage, url: URL): Promise<Reply> {
+    const method = req.method ?? "GET";
+    const path = url.pathname;
+    const query = url.searchParams;
+    let m: RegExpMatchArray | null;
+
+    if (method === "POST" && path === "/controller/api/oauth/access_token") {
+      await readBody(req);
+      return ok({ access_token: `fake-token-${randomUUID()}`, expires_in: 3600 });
+    }
+    if (!req.headers.authorization?.startsWith("Bearer ")) {
+      return { status: 401, body: { message: "Missing bearer token" } };
+    }
+
+    // ── Alerting API health rules
+    if ((m = path.match(/^\/controller\/alerting\/rest\/v1\/applications\/([^/]+)\/health-rules(?:\/(\d+))?$/))) {
+      const app = findApp(m[1]!);
+      if (!app) return notFound("Application");
+      const ruleId = m[2] ? Number(m[2]) : undefined;
+      const rule = ruleId !== undefined ? state.healthRules.get(ruleId) : undefined;
+      if (ruleId !== undefined && (!rule || rule.applicationId !== app.id)) return notFound("Health rule");
+      const publicRule = (r: Record<string, unknown>) => {
+        const { applicationId: _app, ...rest } = r;
+        return rest;
+      };
+
+      if (method === "GET" && rule) return ok(publicRule(rule));
+      if (method === "GET") {
+        return ok([...state.healthRules.values()].filter((r) => r.applicationId === app.id).map(ruleSummary));
+      }
+      if (method === "POST" && ruleId === undefined) {
+        const body = parseJson(await readBody(req)) as Record<string, unknown>;
+        const duplicate = [...state.healthRules.values()].some(
+          (r) => r.applicationId === app.id && r.name === body["name"]
+        );
+        if (duplicate) return { status: 409, body: { message: `Health rule "${String(body["name"])}" already exists` } };
+        const created = { ...body, id: newId(), applicationId: app.id };
+        state.healthRules.set(created.id, created);
+        return { status: 201, body: publicRule(created) };
+      }
+      if (method === "PUT" && rule) {
+        const body = parseJson(await readBody(req)) as Record<string, unknown>;
+        const updated = { ...body, id: rule["id"], applicationId: app.id };
+        state.healthRules.set(ruleId!, updated);
+        return ok(publicRule(updated));
+      }
+      if (method === "DELETE" && rule) {
+        state.healthRules.delete(ruleId!);
+        return { status: 204, body: null };
+      }
+      return { status: 405, body: { message: `${method} not supported` } };
+    }
+
+    // ── Alerting API schedules
+    if ((m = path.match(/^\/controller\/alerting\/rest\/v1\/applications\/([^/]+)\/schedules(?:\/(\d+))?$/))) {
+      const app = findApp(m[1]!);
+      if (!app) return notFound("Application");
+      const scheduleId = m[2] ? Number(m[2]) : undefined;
+      const schedule = scheduleId !== undefined ? state.schedules.get(scheduleId) : undefined;
+      if (scheduleId !== undefined && (!schedule || schedule.applicationId !== app.id)) return notFound("Schedule");
+      const publicSchedule = (s: Record<string, unknown>) => {
+        const { applicationId: _app, ...rest } = s;
+        return rest;
+      };
+
+      if (method === "GET" && schedule) return ok(publicSchedule(schedule));
+      if (method === "GET") {
+        return ok(
+          [...state.schedules.values()]
+            .filter((s) => s.applicationId === app.id)
+            .map((s) => ({ id: s["id"], name: s["name"], description: s["description"] }))
+        );
+      }
+      if (method === "POST" && scheduleId === undefined) {
+        const body = parseJson(await readBody(req)) as Record<string, unknown>;
+        const duplicate = [...state.schedules.values()].some(
+          (s) => s.applicationId === app.id && s["name"] === body["name"]
+        );
+        if (duplicate) return { status: 409, body: { message: `Schedule "${String(body["name"])}" already exists` } };
+        const created = { ...body, id: newId(), applicationId: app.id };
+        state.schedules.set(created.id, created);
+        return { status: 201, body: publicSchedule(created) };
+      }
+      return { status: 405, body: { message: `${method} not supported` } };
+    }
+
+    // ── RESTUI dashboards
+    if (path === "/controller/restui/dashboards/getAllDashboardsByType/false" && method === "GET") {
+      return ok(
+        [...state.dashboards.values()].map((d) => ({
+          id: d["id"],
+          name: d["name"],
+          description: d["description"],
+          createdBy: "fake",
+          modifiedOn: now(),
+        }))
+      );
+    }
+    if ((m = path.match(/^\/controller\/restui\/dashboards\/dashboardIfUpdated\/(\d+)\/-1$/)) && method === "GET") {
+      const dash = state.dashboards.get(Number(m[1]));
+      return dash ? ok(dash) : notFound("Dashboard");
+    }
+    if (path === "/controller/restui/dashboards/createDashboard" && method === "POST") {
+      const body = parseJson(await readBody(req)) as Record<string, unknown>;
+      const dash: Record<string, unknown> = { ...body, id: newId(), version: 1 };
+      assignWidgetIds(dash, newId);
+      state.dashboards.set(dash["id"] as number, dash);
+      return ok(dash);
+    }
+    if (path === "/controller/restui/dashboards/updateDashboard" && method === "POST") {
+      const body = parseJson(await readBody(req)) as Record<string, unknown>;
+      const existing = state.dashboards.get(Number(body["id"]));
+      if (!existing) return notFound("Dashboard");
+      const dash: Record<string, unknown> = { ...body, version: Number(existing["version"] ?? 1) + 1 };
+      assignWidgetIds(dash, newId);
+      state.dashboards.set(dash["id"] as number, dash);
+      return ok(dash);
+    }
+    if (path === "/controller/restui/dashboards/deleteDashboards" && method === "POST") {
+      const ids = parseJson(await readBody(req)) as number[];
+      for (const id of ids) state.dashboards.delete(Number(id));
+      return { status: 204, body: null };
+    }
+
+    // ── Dashboard import / export servlet
+    if (path === "/controller/CustomDashboardImportExportServlet") {
+      if (method === "GET") {
+        const dash = state.dashboards.get(Number(query.get("dashboardId")));
+        return dash ? ok(toExport(dash)) : notFound("Dashboard");
+      }
+      if (method === "POST") {
+        const file = multipartFile(await readBody(req), req.headers["content-type"]);
+        if (!file) return { status: 500, body: { message: "Expected a multipart file upload" } };
+        const dash: Record<string, unknown> = { ...fromExport(JSON.parse(file) as Record<string, unknown>), id: newId(), version: 1 };
+        assignWidgetIds(dash, newId);
+        state.dashboards.set(dash["id"] as number, dash);
+        return ok({ success: true, dashboard: dash });
+      }
+    }
+
+    // ── REST API
+    if (method !== "GET") return { status: 405, body: { message: `${method} not supported` } };
+    if (path === "/controller/rest/applications") {
+      return ok(state.apps.map((a) => ({ id: a.id, name: a.name, description: a.description })));
+    }
+    if (!(m = path.match(/^\/controller\/rest\/applications\/([^/]+)(\/.*)?$/))) {
+      return notFound("Resource");
+    }
+    const app = findApp(m[1]!);
+    if (!app) return notFound("Application");
+    const rest = m[2] ?? "";
+    const nodes = nodesOf(app);
+
+    if (rest === "") return ok([{ id: app.id, name: app.name, description: app.description }]);
+    if (rest === "/tiers") {
+      return ok(app.tiers.map((t) => ({ ...t, type: "Application Server", numberOfNodes: 2 })));
+    }
+    if ((m = rest.match(/^\/tiers\/([^/]+)\/nodes$/))) {
+      const tierRef = decodeURIComponent(m[1]!);
+      return ok(nodes.filter((n) => String(n.tierId) === tierRef || n.tierName === tierRef));
+    }
+    if ((m = rest.match(/^\/tiers\/(\d+)\/service-endpoints$/))) return ok(sepsOf(app, Number(m[1])));
+    if (rest === "/nodes") return ok(nodes);
+    if (rest === "/business-transactions") {
+      return ok(
+        app.bts.map((bt) => ({
+          ...bt,
+          tierId: app.tiers.find((t) => t.name === bt.tierName)?.id,
+          internalName: bt.name,
+          background: false,
+        }))
+      );
+    }
+    if (rest === "/backends") {
+      return ok(
+        app.backends.map((b) => ({
+          ...b,
+          applicationComponentId: 0,
+          properties: [{ name: "HOST", value: `${b.name}.internal` }],
+        }))
+      );
+    }
+    if (rest === "/health-rules" || rest === "/policy/health-rules") {
+      return ok([...state.healthRules.values()].filter((r) => r.applicationId === app.id).map(ruleSummary));
+    }
+    if ((m = rest.match(/^\/health-rules\/(\d+)$/))) {
+      const rule = state.healthRules.get(Number(m[1]));
+      return rule && rule.applicationId === app.id ? ok({ ...ruleSummary(rule), ...rule }) : notFound("Health rule");
+    }
+    if (rest === "/metrics") {
+      const prefix = query.get("metric-path");
+      const depth = prefix ? prefix.split("|").length : 0;
+      const children = new Map<string, "folder" | "leaf">();
+      for (const leaf of metricLeaves(app)) {
+        const parts = leaf.split("|");
+        if (prefix && !leaf.startsWith(`${prefix}|`)) continue;
+        const name = parts[depth];
+        if (name === undefined) continue;
+        children.set(name, parts.length === depth + 1 ? "leaf" : "folder");
+      }
+      return ok([...children].map(([name, type]) => ({ name, type })));
+    }
+    if (rest === "/metric-data") {
+      const metricPath = query.get("metric-path") ?? "";
+      if (!metricPath.includes("*")) {
+        return ok(metricData(metricPath, metricLeaves(app).includes(metricPath), query, now()));
+      }
+      // "*" matches one path segment; one entry per matching leaf
+      const pattern = new RegExp(
+        `^${metricPath.split("*").map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join("[^|]+")}$`
+      );
+      const matches = metricLeaves(app).filter((leaf) => pattern.test(leaf));
+      return ok(
+        matches.length > 0
+          ? matches.flatMap((leaf) => metricData(leaf, true, query, now()))
+          : metricData(metricPath, false, query, now())
+      );
+    }
+    if (rest === "/events") {
+      const [start, end] = timeWindow(query, now());
+      const types = new Set((query.get("event-types") ?? "").split(",").filter(Boolean));
+      const severities = new Set((query.get("severities") ?? "INFO,WARN,ERROR").split(","));
+      return ok(
+        eventsFor(app, now()).filter(
+          (e) =>
+            (types.size === 0 || types.has(String(e.type))) &&
+            severities.has(String(e.severity)) &&
+            Number(e.eventTime) >= start &&
+            Number(e.eventTime) <= end
+        )
+      );
+    }
+    if (rest === "/problems/healthrule-violations" || rest === "/problems") {
+      const [start] = timeWindow(query, now());
+      return ok(violationsFor(app, state, now()).filter((v) => Number(v.startTimeInMillis) >= start));
+    }
+    if (rest === "/request-snapshots") {
+      const [start, end] = timeWindow(query, now());
+      const max = Number(query.get("maximum-results") ?? 100);
+      return ok(
+        snapshotsFor(app, now())
+          .filter((s) => Number(s.serverStartTime) >= start && Number(s.serverStartTime) <= end)
+          .slice(0, max)
+      );
+    }
+    return notFound("Resource");
+  }
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://fake-controller");
+    state.requests.push(`${req.method ?? "GET"} ${url.pathname}`);
+    route(req, url)
+      .then((reply) => {
+        res.statusCode = reply.status;
+        if (reply.body === null) {
+          res.end();
+          return;
+        }
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(reply.body));
+      })
+      .catch((error: unknown) => {
+        res.statusCode = 500;
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ message: error instanceof Error ? error.message : String(error) }));
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, options.host ?? "127.0.0.1", () => resolve());
+  });
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://${options.host ?? "127.0.0.1"}:${address.port}`,
+    state,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        if (!server.listening) return resolve();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
+
+// ── Standalone ────────────────────────────────────────────────────────────────
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.APPD_FAKE_PORT ?? 8090);
+  startFakeController({ port })
+    .then((fake) => {
+      console.error(`Fake AppDynamics controller listening on ${fake.url}`);
+      console.error(`Point the server at it with: APPD_URL=${fake.url} APPD_CLIENT_NAME=fake APPD_CLIENT_SECRET=fake`);
+    })
+    .catch((error) => {
+      console.error("Fatal error:", error);
+      process.exit(1);
+    });
+}
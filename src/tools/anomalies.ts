@@ -7,8 +7,10 @@ import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { appdGet } from "../services/api-client.js";
 import { resolveAppId } from "../utils/app-resolver.js";
+import { runAsBulk } from "../utils/request-context.js";
 import { handleError, textResponse } from "../utils/error-handler.js";
 import { truncateIfNeeded } from "../utils/formatting.js";
+import { TimeRangeSchema, TIME_RANGE_ARG_DOC, resolveTimeRange } from "../utils/time-range.js";
 import {
   DEFAULT_ANOMALY_DURATION_MINS,
   DEFAULT_ANOMALY_SEVERITIES,
@@ -31,6 +33,7 @@ const InputSchema = {
     .describe(
       "Time range in minutes to look back. Defaults to 1440 (24 hours)."
     ),
+  timeRange: TimeRangeSchema.optional(),
   severities: z
     .string()
     .optional()
@@ -50,15 +53,14 @@ const InputSchema = {
  */
 async function fetchAnomalies(
   appId: number,
-  duration: number,
+  timeParams: Record<string, string | number>,
   severities: string,
   includeAll: boolean
 ): Promise<AppDEvent[]> {
   const rawEvents = await appdGet<AppDEvent[]>(
     `/controller/rest/applications/${appId}/events`,
     {
-      "time-range-type": "BEFORE_NOW",
-      "duration-in-mins": duration,
+      ...timeParams,
       "event-types": ANOMALY_EVENT_TYPES,
       severities,
     }
@@ -105,6 +107,7 @@ Set includeAll to true to see all events including closed ones.
 Args:
   - application (string|number, optional): App name or ID. Omit for all apps.
   - durationInMins (number, optional): Lookback in minutes (default: 1440 = 24h)
+${TIME_RANGE_ARG_DOC}
   - severities (string, optional): Comma-separated severity levels (default: 'INFO,WARN,ERROR')
   - includeAll (boolean, optional): If true, includes all events including closed anomalies
 
@@ -117,15 +120,15 @@ Returns: Array of anomaly events. When querying all apps, results are grouped by
         openWorldHint: true,
       },
     },
-    async ({ application, durationInMins, severities, includeAll }) => {
+    async ({ application, durationInMins, timeRange, severities, includeAll }) => {
       try {
-        const duration = durationInMins ?? DEFAULT_ANOMALY_DURATION_MINS;
+        const { params } = resolveTimeRange(timeRange, durationInMins, DEFAULT_ANOMALY_DURATION_MINS);
         const sevs = severities ?? DEFAULT_ANOMALY_SEVERITIES;
         const showAll = includeAll ?? false;
 
         if (application !== undefined) {
           const appId = await resolveAppId(application);
-          const events = await fetchAnomalies(appId, duration, sevs, showAll);
+          const events = await fetchAnomalies(appId, params, sevs, showAll);
           return textResponse(truncateIfNeeded(events));
         }
 
@@ -134,10 +137,11 @@ Returns: Array of anomaly events. When querying all apps, results are grouped by
           "/controller/rest/applications"
         );
 
-        const results = await Promise.all(
+        // Bulk priority so single-app calls from other sessions are not starved
+        const results = await runAsBulk(() => Promise.all(
           apps.map(async (app) => {
             try {
-              const events = await fetchAnomalies(app.id, duration, sevs, showAll);
+              const events = await fetchAnomalies(app.id, params, sevs, showAll);
               if (events.length > 0) {
                 return {
                   applicationId: app.id,
@@ -150,7 +154,7 @@ Returns: Array of anomaly events. When querying all apps, results are grouped by
             }
             return null;
           })
-        );
+        ));
 
         const allAnomalies = results.filter(
           (r): r is NonNullable<typeof r> => r !== null
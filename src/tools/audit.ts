@@ -0,0 +1,134 @@
+/**
+ * Tool: appd_get_audit_log
+ * Query the audit trail of mutating requests this server has sent.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { queryAuditLog } from "../services/audit-log.js";
+import { getAuditConfig } from "../config.js";
+import { handleError, textResponse } from "../utils/error-handler.js";
+import { formatTimestamp, markdownTable, truncateIfNeeded } from "../utils/formatting.js";
+
+const InputSchema = {
+  from: z
+    .string()
+    .optional()
+    .describe("Optional: start of the time range, ISO-8601 (e.g. 2026-10-18T14:00:00Z)."),
+  to: z
+    .string()
+    .optional()
+    .describe("Optional: end of the time range, ISO-8601. Defaults to now."),
+  tool: z
+    .string()
+    .optional()
+    .describe("Optional: only entries issued by this tool (e.g. appd_delete_dashboard)."),
+  entity: z
+    .string()
+    .optional()
+    .describe(
+      'Optional: entity or path substring, e.g. "dashboard:678", "health-rule:12/345", "health-rule:12" (all rules of app 12).'
+    ),
+  auditController: z
+    .string()
+    .optional()
+    .describe("Optional: only entries for this controller name."),
+  includeDetails: z
+    .boolean()
+    .default(false)
+    .describe("Include the redacted request body and before-snapshot of each entry (default false)."),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .default(50)
+    .describe("Maximum entries to return, newest first (default 50)."),
+};
+
+function parseTime(value: string | undefined, field: string): number | undefined {
+  if (value === undefined) return undefined;
+  const ms = Date.parse(value);
+  if (isNaN(ms)) {
+    throw new Error(`${field} must be an ISO-8601 timestamp (got "${value}").`);
+  }
+  return ms;
+}
+
+export function registerAuditTools(server: McpServer): void {
+  server.registerTool(
+    "appd_get_audit_log",
+    {
+      title: "Get Audit Log",
+      description: `Query the audit trail of every create / update / delete request this server has sent to AppDynamics.
+
+Each entry records the time, the tool that issued it, controller, HTTP method, path, affected entity, result status, and (with includeDetails) the redacted request body and a before-snapshot of the entity fetched just before the change.
+
+Args:
+  - from / to (string, optional): ISO-8601 time range
+  - tool (string, optional): Filter by tool name
+  - entity (string, optional): Filter by entity or path substring ("dashboard:678", "health-rule:12/345")
+  - auditController (string, optional): Filter by controller name
+  - includeDetails (boolean): Include request bodies and before-snapshots (default false)
+  - limit (number): Max entries, newest first (default 50)
+
+Returns: Table of matching entries, plus JSON details when requested.`,
+      inputSchema: InputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ from, to, tool, entity, auditController, includeDetails, limit }) => {
+      try {
+        const path = getAuditConfig().path;
+        if (!path) {
+          return textResponse("Audit logging is disabled (APPD_AUDIT_LOG=off).");
+        }
+
+        const { entries, total } = await queryAuditLog({
+          from: parseTime(from, "from"),
+          to: parseTime(to, "to"),
+          tool,
+          entity,
+          controller: auditController,
+          limit,
+        });
+
+        if (entries.length === 0) {
+          return textResponse(`No audit entries match. (Log file: ${path})`);
+        }
+
+        const table = markdownTable(
+          ["Time", "Tool", "Controller", "Request", "Entity", "Result"],
+          entries.map((e) => [
+            formatTimestamp(Date.parse(e.timestamp)),
+            e.tool ?? "-",
+            e.controller,
+            `${e.method} ${e.path}`,
+            e.entity ?? "-",
+            e.status === "success"
+              ? `ok${e.httpStatus ? ` (${e.httpStatus})` : ""}`
+              : `error${e.httpStatus ? ` (${e.httpStatus})` : ""}: ${e.error ?? ""}`,
+          ])
+        );
+
+        let text = `## Audit log — ${entries.length} of ${total} matching entries (newest first)\n\n${table}`;
+        if (includeDetails) {
+          const details = entries.map((e) => ({
+            timestamp: e.timestamp,
+            entity: e.entity,
+            request: e.request,
+            before: e.before,
+          }));
+          text += `\n\n## Details\n\n${truncateIfNeeded(details)}`;
+        }
+        return textResponse(text);
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+}
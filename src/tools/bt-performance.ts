@@ -8,6 +8,8 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { appdGet } from "../services/api-client.js";
 import { resolveAppId } from "../utils/app-resolver.js";
 import { handleError, textResponse } from "../utils/error-handler.js";
+import { renderMetricBlock } from "../utils/formatting.js";
+import { TimeRangeSchema, TIME_RANGE_ARG_DOC, resolveTimeRange } from "../utils/time-range.js";
 import { DEFAULT_DURATION_MINS, BT_METRICS } from "../constants.js";
 import type { BusinessTransaction, MetricData } from "../types.js";
 
@@ -22,6 +24,14 @@ const InputSchema = {
     .min(1)
     .optional()
     .describe("Time range in minutes to look back. Defaults to 60."),
+  timeRange: TimeRangeSchema.optional(),
+  render: z
+    .enum(["sparkline", "chart"])
+    .optional()
+    .describe(
+      "Draw each metric as text instead of returning JSON: 'sparkline' (one line) or 'chart' " +
+        "(multi-row line chart with axis labels), both annotated with min / max / latest."
+    ),
 };
 
 export function registerBtPerformanceTools(server: McpServer): void {
@@ -39,8 +49,10 @@ Args:
   - application (string|number): App name or ID
   - btId (number): Business transaction ID
   - durationInMins (number, optional): Lookback in minutes (default: 60)
+${TIME_RANGE_ARG_DOC}
+  - render ('sparkline'|'chart', optional): Draw each metric over time as text instead of JSON
 
-Returns: BT details plus metric data for each performance metric.`,
+Returns: BT details plus metric data for each performance metric, or with render a text drawing per metric.`,
       inputSchema: InputSchema,
       annotations: {
         readOnlyHint: true,
@@ -49,10 +61,10 @@ Returns: BT details plus metric data for each performance metric.`,
         openWorldHint: true,
       },
     },
-    async ({ application, btId, durationInMins }) => {
+    async ({ application, btId, durationInMins, timeRange, render }) => {
       try {
         const appId = await resolveAppId(application);
-        const duration = durationInMins ?? DEFAULT_DURATION_MINS;
+        const range = resolveTimeRange(timeRange, durationInMins, DEFAULT_DURATION_MINS);
 
         // Get BT details to build metric paths
         const bts = await appdGet<BusinessTransaction[]>(
@@ -78,8 +90,9 @@ Returns: BT details plus metric data for each performance metric.`,
             `/controller/rest/applications/${appId}/metric-data`,
             {
               "metric-path": `Business Transaction Performance|Business Transactions|${bt.tierName}|${bt.name}|${metric}`,
-              "time-range-type": "BEFORE_NOW",
-              "duration-in-mins": duration,
+              ...range.params,
+              // Drawing needs the per-interval values
+              ...(render && { rollup: false }),
             }
           )
             .then((data) => ({ metric, data: data[0] ?? null }))
@@ -88,6 +101,13 @@ Returns: BT details plus metric data for each performance metric.`,
 
         const metricResults = await Promise.all(metricPromises);
 
+        if (render) {
+          const series = metricResults.flatMap((r) => (r.data ? [r.data] : []));
+          return textResponse(
+            `## ${bt.name} (${bt.tierName}) — ${range.label}\n\n${renderMetricBlock(series, render)}`
+          );
+        }
+
         const results: Record<string, unknown> = {
           businessTransaction: {
             id: bt.id,
@@ -95,7 +115,7 @@ Returns: BT details plus metric data for each performance metric.`,
             tierName: bt.tierName,
             entryPointType: bt.entryPointType,
           },
-          timeRange: `Last ${duration} minutes`,
+          timeRange: range.label,
         };
 
         for (const result of metricResults) {
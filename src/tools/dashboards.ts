@@ -20,6 +20,7 @@ import { randomUUID } from "crypto";
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { appdGet, appdGetRaw, appdPost, appdPostFormData } from "../services/api-client.js";
+import { recordUndo } from "../services/undo-store.js";
 import { handleError, textResponse } from "../utils/error-handler.js";
 import { truncateIfNeeded } from "../utils/formatting.js";
 import type { BusinessTransaction, Dashboard, DashboardSummary, HealthRule, Tier } from "../types.js";
@@ -370,7 +371,7 @@ Returns: The updated dashboard object.`,
       inputSchema: UpdateSchema,
       annotations: {
         readOnlyHint: false,
-        destructiveHint: false,
+        destructiveHint: true,
         idempotentHint: true,
         openWorldHint: true,
       },
@@ -378,7 +379,9 @@ Returns: The updated dashboard object.`,
     async ({ dashboardId, name, description, height, width, widgets }) => {
       try {
         const existing = await appdGetRaw<Record<string, unknown>>(
-          `/controller/restui/dashboards/dashboardIfUpdated/${dashboardId}/-1`
+          `/controller/restui/dashboards/dashboardIfUpdated/${dashboardId}/-1`,
+          undefined,
+          { fresh: true }
         );
 
         // Resolve app names for widgets that need them
@@ -444,7 +447,8 @@ Returns: The updated dashboard object.`,
         const result = await appdGetRaw<Dashboard>(
           `/controller/restui/dashboards/dashboardIfUpdated/${dashboardId}/-1`
         );
-        return textResponse(JSON.stringify(result, null, 2));
+        const undo = await recordDashboardUndo("update", dashboardId, existing);
+        return textResponse(JSON.stringify(result, null, 2) + undo);
       } catch (error) {
         return handleError(error);
       }
@@ -483,7 +487,9 @@ Returns: The updated dashboard with the new widget added.`,
     async ({ dashboardId, widget }) => {
       try {
         const existing = await appdGetRaw<Dashboard>(
-          `/controller/restui/dashboards/dashboardIfUpdated/${dashboardId}/-1`
+          `/controller/restui/dashboards/dashboardIfUpdated/${dashboardId}/-1`,
+          undefined,
+          { fresh: true }
         );
 
         const existingWidgets = existing.widgets ?? [];
@@ -506,6 +512,7 @@ Returns: The updated dashboard with the new widget added.`,
           "/controller/restui/dashboards/updateDashboard",
           { ...existing, widgets: [...existingWidgets, basePayload] }
         );
+        const undo = await recordDashboardUndo("add-widget", dashboardId, existing as Record<string, unknown>);
 
         // Step 2: If metric widget, bind criteria using the server-assigned id/guid.
         if (widget.metricPath && widget.applicationId) {
@@ -533,12 +540,12 @@ Returns: The updated dashboard with the new widget added.`,
                 "/controller/restui/dashboards/updateDashboard",
                 { ...step2Dash, widgets: step2Widgets }
               );
-              return textResponse(JSON.stringify(step2, null, 2));
+              return textResponse(JSON.stringify(step2, null, 2) + undo);
             }
           }
         }
 
-        return textResponse(JSON.stringify(step1, null, 2));
+        return textResponse(JSON.stringify(step1, null, 2) + undo);
       } catch (error) {
         return handleError(error);
       }
@@ -614,9 +621,9 @@ Returns: The newly created dashboard with its new ID.`,
     "appd_delete_dashboard",
     {
       title: "Delete Dashboard",
-      description: `Delete a custom dashboard. This action is PERMANENT and cannot be undone.
+      description: `Delete a custom dashboard. The dashboard is permanently removed from AppDynamics.
 
-Consider using appd_export_dashboard first to create a backup.
+Its export is saved locally first, so appd_undo can re-import it (with a new ID).
 
 Args:
   - dashboardId (number): Dashboard ID to delete
@@ -632,12 +639,14 @@ Returns: Confirmation of deletion.`,
     },
     async ({ dashboardId }) => {
       try {
+        const before = await exportDashboard(dashboardId);
         await appdPost(
           `/controller/restui/dashboards/deleteDashboards`,
           [dashboardId]
         );
+        const undo = await recordDashboardUndo("delete", dashboardId, before);
         return textResponse(
-          `Dashboard ${dashboardId} deleted successfully.`
+          `Dashboard ${dashboardId} deleted successfully.${undo}`
         );
       } catch (error) {
         return handleError(error);
@@ -1555,6 +1564,34 @@ function buildExportDashboardEnvelope(
   };
 }
 
+// ── Undo Helpers ──────────────────────────────────────────────────────────────
+
+/**
+ * Fetch the portable export of a dashboard (uncached) — the before-image for
+ * undoing a delete. Updates save the RESTUI dashboard instead, to restore in place.
+ */
+export async function exportDashboard(dashboardId: number): Promise<Record<string, unknown>> {
+  return appdGetRaw<Record<string, unknown>>(
+    "/controller/CustomDashboardImportExportServlet",
+    { dashboardId },
+    { fresh: true }
+  );
+}
+
+async function recordDashboardUndo(
+  operation: string,
+  dashboardId: number,
+  before: Record<string, unknown>
+): Promise<string> {
+  return recordUndo({
+    kind: "dashboard",
+    operation,
+    entityId: dashboardId,
+    entityName: typeof before["name"] === "string" ? before["name"] : String(dashboardId),
+    before,
+  });
+}
+
 // ── Import Servlet Helper ─────────────────────────────────────────────────────
 
 /**
@@ -1562,7 +1599,7 @@ function buildExportDashboardEnvelope(
  * Returns the new dashboard ID (or null if it cannot be determined).
  * Three-tier fallback: direct id field → array response → name-based list lookup.
  */
-async function importViaServlet(
+export async function importViaServlet(
   exportJson: Record<string, unknown>,
   dashName: string
 ): Promise<number | null> {
@@ -1912,6 +1949,8 @@ async function bindMetricWidgets(
 
   const dash = await appdGetRaw<Record<string, unknown>>(
     `/controller/restui/dashboards/dashboardIfUpdated/${dashId}/-1`,
+    undefined,
+    { fresh: true },
   );
   const dashWidgets = (dash["widgets"] as Array<Record<string, unknown>>) ?? [];
 
@@ -1945,12 +1984,14 @@ async function bindMetricWidgets(
  *   entityIds: [ruleId]
  *   properties: []  (selectedEntityIds property not needed when SPECIFIED+entityIds is set)
  */
-async function bindHealthListWidgets(
+export async function bindHealthListWidgets(
   dashId: number,
   sourceWidgets?: WidgetInput[],
 ): Promise<void> {
   const dash = await appdGetRaw<Record<string, unknown>>(
     `/controller/restui/dashboards/dashboardIfUpdated/${dashId}/-1`,
+    undefined,
+    { fresh: true },
   );
   const dashWidgets = (dash["widgets"] as Array<Record<string, unknown>>) ?? [];
 
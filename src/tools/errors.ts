@@ -9,6 +9,7 @@ import { appdGet } from "../services/api-client.js";
 import { resolveAppId } from "../utils/app-resolver.js";
 import { handleError, textResponse } from "../utils/error-handler.js";
 import { truncateIfNeeded } from "../utils/formatting.js";
+import { TimeRangeSchema, TIME_RANGE_ARG_DOC, resolveTimeRange } from "../utils/time-range.js";
 import {
   DEFAULT_DURATION_MINS,
   ERROR_EVENT_TYPES,
@@ -25,6 +26,7 @@ const InputSchema = {
     .min(1)
     .optional()
     .describe("Time range in minutes to look back. Defaults to 60."),
+  timeRange: TimeRangeSchema.optional(),
 };
 
 export function registerErrorTools(server: McpServer): void {
@@ -39,6 +41,7 @@ Returns ERROR, APPLICATION_ERROR, and APPLICATION_CRASH events from the AppDynam
 Args:
   - application (string|number): App name or ID
   - durationInMins (number, optional): Lookback in minutes (default: 60)
+${TIME_RANGE_ARG_DOC}
 
 Returns: Array of error events with severity, summary, timestamp, and affected entity details.`,
       inputSchema: InputSchema,
@@ -49,16 +52,15 @@ Returns: Array of error events with severity, summary, timestamp, and affected e
         openWorldHint: true,
       },
     },
-    async ({ application, durationInMins }) => {
+    async ({ application, durationInMins, timeRange }) => {
       try {
         const appId = await resolveAppId(application);
-        const duration = durationInMins ?? DEFAULT_DURATION_MINS;
+        const range = resolveTimeRange(timeRange, durationInMins, DEFAULT_DURATION_MINS);
 
         const data = await appdGet(
           `/controller/rest/applications/${appId}/events`,
           {
-            "time-range-type": "BEFORE_NOW",
-            "duration-in-mins": duration,
+            ...range.params,
             "event-types": ERROR_EVENT_TYPES,
             severities: ERROR_SEVERITIES,
           }
@@ -0,0 +1,324 @@
+/**
+ * Tools: appd_export_health_rules, appd_prune_health_rule_files,
+ *        appd_plan_health_rule_sync, appd_sync_health_rules
+ */
+
+import { z } from "zod";
+import { isAbsolute, relative, resolve } from "path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { appdGet, appdPost, appdPut, appdDelete } from "../services/api-client.js";
+import { recordUndo } from "../services/undo-store.js";
+import { resolveAppId } from "../utils/app-resolver.js";
+import { handleError, textResponse } from "../utils/error-handler.js";
+import { runAsBulk } from "../utils/request-context.js";
+import {
+  normalizeRule,
+  writeRuleFiles,
+  pruneRuleFiles,
+  readRuleFiles,
+  planSync,
+  formatPlan,
+  type ControllerRule,
+  type PlanStep,
+} from "../utils/health-rule-files.js";
+import { ALERTING_BASE } from "./health-rules.js";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Absolute rule directory; defaults to ./health-rules/<application>. Must lie inside the working directory. */
+function resolveRuleDir(directory: string | undefined, application: string | number): string {
+  if (directory === undefined) {
+    const slug = String(application).toLowerCase().replace(/[^a-z0-9_-]+/g, "-");
+    return resolve(`./health-rules/${slug}`);
+  }
+  const dir = resolve(directory);
+  const inside = relative(process.cwd(), dir);
+  if (inside === "" || inside.split(/[\\/]/)[0] === ".." || isAbsolute(inside)) {
+    throw new Error(`directory must be a subdirectory of the working directory (${process.cwd()}).`);
+  }
+  return dir;
+}
+
+/** Every alerting-API rule of the application, in full, read past the cache. */
+async function fetchRules(appId: number): Promise<Array<ControllerRule & { raw: Record<string, unknown> }>> {
+  const summaries = await appdGet<Array<{ id: number; name: string }>>(ALERTING_BASE(appId), undefined, {
+    fresh: true,
+  });
+  // Bulk priority: one request per rule
+  return runAsBulk(() =>
+    Promise.all(
+      summaries.map(async ({ id }) => {
+        const raw = await appdGet<Record<string, unknown>>(`${ALERTING_BASE(appId)}/${id}`, undefined, {
+          fresh: true,
+        });
+        return { id, raw, rule: normalizeRule(raw) };
+      })
+    )
+  );
+}
+
+function countSteps(steps: PlanStep[]): string {
+  const n = (action: PlanStep["action"]) => steps.filter((s) => s.action === action).length;
+  return `${n("create")} to create, ${n("update")} to update, ${n("delete")} to delete, ${n("unchanged")} unchanged`;
+}
+
+/** Read the files and the application's rules, and work out the steps between them. */
+async function buildPlan(application: string | number, directory: string | undefined, deleteMissing: boolean) {
+  const appId = await resolveAppId(application);
+  const dir = resolveRuleDir(directory, application);
+  const files = await readRuleFiles(dir);
+  const current = await fetchRules(appId);
+  const steps = planSync(files, current, deleteMissing);
+  const pending = steps.filter((s): s is Exclude<PlanStep, { action: "unchanged" }> => s.action !== "unchanged");
+  return { appId, dir, current, steps, pending };
+}
+
+const DirectorySchema = z
+  .string()
+  .optional()
+  .describe("Directory of rule files, inside the working directory. Default: ./health-rules/<application>.");
+
+// ── Tool registration ─────────────────────────────────────────────────────────
+
+export function registerHealthRuleFileTools(server: McpServer): void {
+  // ── appd_export_health_rules ──────────────────────────────────────────────
+  server.registerTool(
+    "appd_export_health_rules",
+    {
+      title: "Export Health Rules to Files",
+      description: `Write every health rule of an application to a directory, one file per rule, for version control.
+
+Files are normalized so they diff cleanly: no rule IDs, no null fields, keys in a fixed order, named after the rule (e.g. payment-response-time.yaml). Re-exporting an unchanged application rewrites identical files. Edit them, preview with appd_plan_health_rule_sync and apply with appd_sync_health_rules — to this application or another one.
+
+Nothing is deleted. Rule files of rules that no longer exist are listed as stale; remove them with appd_prune_health_rule_files. A .health-rules-manifest.json in the directory records what each export wrote.
+
+Args:
+  - application (string|number): App name or ID
+  - directory (string, optional): Target directory inside the working directory, created if missing. Default: ./health-rules/<application>
+  - format (yaml|json, default yaml)
+
+Returns: The directory, the files written, and any stale rule files.`,
+      inputSchema: {
+        application: z.union([z.string(), z.number()]).describe("Application name or numeric ID."),
+        directory: DirectorySchema,
+        format: z.enum(["yaml", "json"]).default("yaml").describe("File format. Default yaml."),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ application, directory, format }) => {
+      try {
+        const appId = await resolveAppId(application);
+        const dir = resolveRuleDir(directory, application);
+        const rules = await fetchRules(appId);
+        const { written, stale } = await writeRuleFiles(
+          dir,
+          rules.map((r) => r.rule),
+          format
+        );
+
+        const lines = [
+          `Exported ${written.length} health rule(s) of application ${appId} to:`,
+          dir,
+          "",
+          ...written.map((w) => `  ${w.file}  ← "${w.rule.name}"`),
+        ];
+        if (stale.length > 0) {
+          lines.push(
+            "",
+            `${stale.length} stale rule file(s) left in place (appd_sync_health_rules would apply them): ${stale.join(", ")}. ` +
+              `Delete them with appd_prune_health_rule_files.`
+          );
+        }
+        return textResponse(lines.join("\n"));
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+
+  // ── appd_prune_health_rule_files ──────────────────────────────────────────
+  server.registerTool(
+    "appd_prune_health_rule_files",
+    {
+      title: "Prune Stale Health Rule Files",
+      description: `Delete the stale rule files of a directory written by appd_export_health_rules — files of rules that no longer existed at the last export.
+
+Only files an earlier export wrote (per .health-rules-manifest.json) and files that parse as complete health rules are deleted. Other files in the directory (package.json, config.yaml, ...) are never touched. A directory that was never exported to is refused. Export first, so the manifest reflects the current rules.
+
+Args:
+  - application (string|number): App name or ID — names the default directory
+  - directory (string, optional): Rule directory inside the working directory. Default: ./health-rules/<application>
+
+Returns: The files deleted and the other files left in place.`,
+      inputSchema: {
+        application: z.union([z.string(), z.number()]).describe("Application name or numeric ID."),
+        directory: DirectorySchema,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ application, directory }) => {
+      try {
+        const dir = resolveRuleDir(directory, application);
+        const { deleted, kept } = await pruneRuleFiles(dir);
+        const lines = [
+          deleted.length > 0
+            ? `Deleted ${deleted.length} stale rule file(s) from ${dir}: ${deleted.join(", ")}`
+            : `No stale rule files in ${dir}.`,
+        ];
+        if (kept.length > 0) {
+          lines.push(`Left in place (not written by an export, not a complete health rule): ${kept.join(", ")}`);
+        }
+        return textResponse(lines.join("\n"));
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+
+  const syncInputSchema = {
+    application: z.union([z.string(), z.number()]).describe("Application name or numeric ID."),
+    directory: DirectorySchema,
+    deleteMissing: z
+      .boolean()
+      .default(false)
+      .describe("Also delete controller rules that have no file. Default false."),
+  };
+
+  // ── appd_plan_health_rule_sync ────────────────────────────────────────────
+  server.registerTool(
+    "appd_plan_health_rule_sync",
+    {
+      title: "Plan Health Rule Sync",
+      description: `Show what appd_sync_health_rules would change to make an application's health rules match a directory of rule files (as written by appd_export_health_rules). Changes nothing.
+
+Rules are matched by name. The plan:
+  + create: a file whose rule doesn't exist
+  ~ update: a file whose fields differ from the rule (each changed field is listed)
+  - delete: a rule with no file (only with deleteMissing)
+A file only sets the top-level fields it contains; other fields of an existing rule are kept. A file with just name and enabled can enable or disable a rule; a file for a new rule needs affects and evalCriterias.
+
+Every file is validated — one invalid file or a duplicate rule name fails the call.
+
+Args:
+  - application (string|number): App name or ID
+  - directory (string, optional): Directory of .yaml / .yml / .json rule files. Default: ./health-rules/<application>
+  - deleteMissing (boolean, default false): Plan deletes for rules that have no file
+
+Returns: The plan, step by step.`,
+      inputSchema: syncInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ application, directory, deleteMissing }) => {
+      try {
+        const { appId, dir, steps, pending } = await buildPlan(application, directory, deleteMissing);
+        const header = `Health rule sync plan for application ${appId} from ${dir}\nPlan: ${countSteps(steps)}`;
+        if (pending.length === 0) return textResponse(`${header}\n\nNothing to do — the application matches the files.`);
+        return textResponse(
+          `${header}\n\n${formatPlan(steps)}\n\nNothing was changed. Apply this plan with appd_sync_health_rules (same arguments).`
+        );
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+
+  // ── appd_sync_health_rules ────────────────────────────────────────────────
+  server.registerTool(
+    "appd_sync_health_rules",
+    {
+      title: "Sync Health Rules from Files",
+      description: `Apply the plan of appd_plan_health_rule_sync: create, update (and with deleteMissing, delete) an application's health rules so they match a directory of rule files. Review the plan with appd_plan_health_rule_sync first.
+
+The plan is worked out again from the files and the controller at call time. Every file is validated before anything changes — one invalid file or a duplicate rule name fails the whole call. Updated and deleted rules can be restored with appd_undo.
+
+Args:
+  - application (string|number): App name or ID
+  - directory (string, optional): Directory of .yaml / .yml / .json rule files. Default: ./health-rules/<application>
+  - deleteMissing (boolean, default false): Delete rules that have no file
+
+Returns: The result of each step and its undo operation ID.`,
+      inputSchema: syncInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ application, directory, deleteMissing }) => {
+      try {
+        const { appId, dir, current, steps, pending } = await buildPlan(application, directory, deleteMissing);
+        const header = `Health rule sync for application ${appId} from ${dir}\nPlan: ${countSteps(steps)}`;
+        if (pending.length === 0) return textResponse(`${header}\n\nNothing to do — the application matches the files.`);
+
+        const before = new Map(current.map((c) => [c.id, c.raw]));
+        const results: string[] = [];
+        let failed = 0;
+        for (const step of pending) {
+          try {
+            switch (step.action) {
+              case "create": {
+                const created = await appdPost<{ id?: number }>(ALERTING_BASE(appId), step.rule);
+                results.push(`+ created "${step.rule.name}"${created?.id !== undefined ? ` #${created.id}` : ""}`);
+                break;
+              }
+              case "update": {
+                await appdPut(`${ALERTING_BASE(appId)}/${step.id}`, { ...step.rule, id: step.id });
+                const undo = await recordUndo({
+                  kind: "health-rule",
+                  operation: "update",
+                  applicationId: appId,
+                  entityId: step.id,
+                  entityName: step.rule.name,
+                  before: before.get(step.id)!,
+                });
+                results.push(`~ updated "${step.rule.name}" #${step.id}`, ...(undo ? [`    ${undo.trim()}`] : []));
+                break;
+              }
+              case "delete": {
+                await appdDelete(`${ALERTING_BASE(appId)}/${step.id}`);
+                const undo = await recordUndo({
+                  kind: "health-rule",
+                  operation: "delete",
+                  applicationId: appId,
+                  entityId: step.id,
+                  entityName: step.name,
+                  before: before.get(step.id)!,
+                });
+                results.push(`- deleted "${step.name}" #${step.id}`, ...(undo ? [`    ${undo.trim()}`] : []));
+                break;
+              }
+            }
+          } catch (error) {
+            failed++;
+            const name = step.action === "delete" ? step.name : step.rule.name;
+            results.push(`! failed to ${step.action} "${name}": ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+
+        const summary =
+          failed === 0
+            ? `Applied ${pending.length} change(s).`
+            : `Applied ${pending.length - failed} of ${pending.length} change(s); ${failed} failed. Run again to see what remains.`;
+        return textResponse(`${header}\n\n${results.join("\n")}\n\n${summary}`);
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * Tools: appd_get_health_rule_schedules, appd_create_health_rule_schedule
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { appdGet, appdPost } from "../services/api-client.js";
+import { resolveAppId } from "../utils/app-resolver.js";
+import { handleError, textResponse } from "../utils/error-handler.js";
+import { truncateIfNeeded } from "../utils/formatting.js";
+import {
+  SCHEDULES_BASE,
+  ScheduleInputSchema,
+  buildSchedulePayload,
+  describeSchedule,
+} from "../utils/health-rule-schedules.js";
+import type { HealthRuleSchedule, HealthRuleScheduleSummary } from "../types.js";
+
+// ── Tool registration ─────────────────────────────────────────────────────────
+
+export function registerHealthRuleScheduleTools(server: McpServer): void {
+  // ── appd_get_health_rule_schedules ────────────────────────────────────────
+  server.registerTool(
+    "appd_get_health_rule_schedules",
+    {
+      title: "List Health Rule Schedules",
+      description: `List the schedules of an application, or get one schedule's time window.
+
+A schedule limits when health rules are evaluated (e.g. "Weekdays: 8am-5pm, Mon-Fri"). Rules refer to it by name with the schedule argument of appd_create_health_rule / appd_update_health_rule.
+
+Args:
+  - application (string|number): App name or ID
+  - scheduleId (number, optional): Specific schedule for its full configuration
+
+Returns: Array of schedules (id, name, description), or one schedule with its configuration and a one-line summary of the window.`,
+      inputSchema: {
+        application: z.union([z.string(), z.number()]).describe("Application name or numeric ID."),
+        scheduleId: z.number().int().optional().describe("Optional: schedule ID to get its configuration."),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ application, scheduleId }) => {
+      try {
+        const appId = await resolveAppId(application);
+        if (scheduleId !== undefined) {
+          const schedule = await appdGet<HealthRuleSchedule>(`${SCHEDULES_BASE(appId)}/${scheduleId}`);
+          return textResponse(
+            `Window: ${describeSchedule(schedule)}\n\n${JSON.stringify(schedule, null, 2)}`
+          );
+        }
+        const schedules = await appdGet<HealthRuleScheduleSummary[]>(SCHEDULES_BASE(appId));
+        return textResponse(truncateIfNeeded(schedules));
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+
+  // ── appd_create_health_rule_schedule ──────────────────────────────────────
+  server.registerTool(
+    "appd_create_health_rule_schedule",
+    {
+      title: "Create Health Rule Schedule",
+      description: `Create a schedule: a recurring time window during which health rules are evaluated.
+
+Attach it to rules with the schedule argument of appd_create_health_rule / appd_update_health_rule. Outside the window the rule does not evaluate, so it cannot open violations.
+
+Args:
+  - application (string|number): App name or ID
+  - name (string): Schedule name (unique within the application)
+  - description (string, optional)
+  - timezone (string, default UTC): IANA timezone of the times, e.g. "Europe/Berlin"
+  - frequency: DAILY | WEEKLY | CUSTOM
+  - days (array, WEEKLY): MONDAY … SUNDAY
+  - startTime / endTime (HH:mm, DAILY and WEEKLY): window; endTime before startTime runs past midnight
+  - startCron / endCron (CUSTOM): Quartz cron expressions for the window's start and end
+
+Examples:
+  - Business hours: { frequency: "WEEKLY", days: ["MONDAY", …, "FRIDAY"], startTime: "08:00", endTime: "18:00", timezone: "America/New_York" }
+  - Nightly batch window: { frequency: "DAILY", startTime: "23:00", endTime: "04:00" }
+  - Weekends off: { frequency: "CUSTOM", startCron: "0 0 0 ? * MON", endCron: "0 0 0 ? * SAT" }
+
+Returns: The window summary and the created schedule with its ID.`,
+      inputSchema: {
+        application: z.union([z.string(), z.number()]).describe("Application name or numeric ID."),
+        ...ScheduleInputSchema,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ application, ...input }) => {
+      try {
+        const appId = await resolveAppId(application);
+        const payload = buildSchedulePayload(input);
+        const created = await appdPost<HealthRuleSchedule>(SCHEDULES_BASE(appId), payload);
+        return textResponse(
+          `Schedule created successfully.\nWindow: ${describeSchedule(payload)}\n\n${JSON.stringify(created, null, 2)}`
+        );
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,302 @@
+/**
+ * Tools: appd_get_health_rule_templates, appd_apply_health_rule_template
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { appdGet, appdPost, appdPut } from "../services/api-client.js";
+import { recordUndo } from "../services/undo-store.js";
+import { getApplicationsList, resolveAppId, resolveAppName } from "../utils/app-resolver.js";
+import { handleError, textResponse } from "../utils/error-handler.js";
+import { resolveScope } from "../utils/health-rule-scope.js";
+import { resolveScheduleName } from "../utils/health-rule-schedules.js";
+import { normalizeRule } from "../utils/health-rule-files.js";
+import {
+  loadHealthRuleTemplates,
+  findHealthRuleTemplate,
+  resolveParameters,
+  renderTemplate,
+  type HealthRuleTemplate,
+  type ParameterValue,
+  type RuleTemplate,
+} from "../utils/health-rule-templates.js";
+import { MAX_TEMPLATE_APPLICATIONS } from "../constants.js";
+import { ALERTING_BASE, buildPayload } from "./health-rules.js";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+interface TargetApp {
+  id: number;
+  name: string;
+}
+
+type CellResult = "created" | "updated" | "unchanged" | "skipped" | "failed" | "would create" | "would update";
+
+/** Applications named in the list plus those whose name matches the pattern, deduplicated. */
+async function resolveTargets(applications: Array<string | number> | undefined, pattern: string | undefined): Promise<TargetApp[]> {
+  const targets = new Map<number, TargetApp>();
+  for (const ref of applications ?? []) {
+    const id = await resolveAppId(ref);
+    targets.set(id, { id, name: await resolveAppName(id) });
+  }
+  if (pattern !== undefined) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, "i");
+    } catch (error) {
+      throw new Error(`Invalid applicationPattern: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const matched = (await getApplicationsList()).filter((a) => regex.test(a.name));
+    if (matched.length === 0) throw new Error(`No application name matches /${pattern}/i.`);
+    for (const app of matched) targets.set(app.id, { id: app.id, name: app.name });
+  }
+  if (targets.size === 0) throw new Error("Give applications, applicationPattern, or both.");
+  if (targets.size > MAX_TEMPLATE_APPLICATIONS) {
+    throw new Error(
+      `${targets.size} applications selected; apply a template to at most ${MAX_TEMPLATE_APPLICATIONS} per call. Narrow applicationPattern.`
+    );
+  }
+  return [...targets.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Per-application parameter overrides for this app, matched by name (case-insensitive) or ID. */
+function overridesFor(
+  app: TargetApp,
+  appParameters: Record<string, Record<string, ParameterValue>> | undefined
+): Record<string, ParameterValue> {
+  const key = Object.keys(appParameters ?? {}).find(
+    (k) => k.toLowerCase() === app.name.toLowerCase() || k === String(app.id)
+  );
+  return key !== undefined ? appParameters![key]! : {};
+}
+
+async function applyRule(
+  app: TargetApp,
+  rule: RuleTemplate,
+  existingId: number | undefined,
+  onExisting: "skip" | "update",
+  dryRun: boolean
+): Promise<{ result: CellResult; note?: string }> {
+  if (existingId !== undefined && onExisting === "skip") return { result: "skipped" };
+
+  const {
+    name,
+    enabled,
+    affectedEntityType,
+    criticalConditions,
+    warningConditions,
+    conditionAggregationType,
+    useDataFromLastNMinutes,
+    waitTimeAfterViolation,
+    schedule,
+    ...scopeArgs
+  } = rule;
+  // Resolve against this application even on a dry run, so missing tiers / schedules show up
+  const scope = await resolveScope(app.id, affectedEntityType, scopeArgs);
+  const scheduleName = schedule !== undefined ? await resolveScheduleName(app.id, schedule) : undefined;
+  const payload = buildPayload({
+    name,
+    enabled,
+    affectedEntityType,
+    affects: scope.affects,
+    useDataFromLastNMinutes,
+    waitTimeAfterViolation,
+    scheduleName,
+    conditionAggregationType,
+    criticalConditions,
+    warningConditions,
+  });
+
+  if (existingId === undefined) {
+    if (dryRun) return { result: "would create" };
+    await appdPost(ALERTING_BASE(app.id), payload);
+    return { result: "created" };
+  }
+  const current = await appdGet<Record<string, unknown>>(`${ALERTING_BASE(app.id)}/${existingId}`, undefined, {
+    fresh: true,
+  });
+  // Fields the template doesn't set (e.g. a custom schedule) are kept, and what
+  // is compared is exactly what is written: re-applying is a no-op
+  const merged = { ...current, ...payload, id: existingId };
+  if (JSON.stringify(normalizeRule(current)) === JSON.stringify(normalizeRule(merged))) return { result: "unchanged" };
+  if (dryRun) return { result: "would update" };
+  await appdPut(`${ALERTING_BASE(app.id)}/${existingId}`, merged);
+  const undo = await recordUndo({
+    kind: "health-rule",
+    operation: "update",
+    applicationId: app.id,
+    entityId: existingId,
+    entityName: name,
+    before: current,
+  });
+  return { result: "updated", note: undo.trim() || undefined };
+}
+
+function describeTemplate(t: HealthRuleTemplate): string {
+  const params = t.parameters.map((p) =>
+    `    - ${p.name}${p.required ? " (required)" : p.default !== undefined ? ` (default ${JSON.stringify(p.default)})` : ""}${p.description ? `: ${p.description}` : ""}`
+  );
+  return [
+    `${t.name} — ${t.description ?? "(no description)"} [${t.source}]`,
+    `  Rules: ${t.rules.map((r) => JSON.stringify(r["name"] ?? "?")).join(", ")}`,
+    ...(params.length > 0 ? ["  Parameters:", ...params] : []),
+  ].join("\n");
+}
+
+// ── Tool registration ─────────────────────────────────────────────────────────
+
+export function registerHealthRuleTemplateTools(server: McpServer): void {
+  // ── appd_get_health_rule_templates ────────────────────────────────────────
+  server.registerTool(
+    "appd_get_health_rule_templates",
+    {
+      title: "List Health Rule Templates",
+      description: `List the health rule templates appd_apply_health_rule_template can apply: built-in ones and those in APPD_HEALTH_RULE_TEMPLATES_DIR.
+
+Args: none
+
+Returns: Each template's name, description, source, rule names and parameters (required / default).`,
+      inputSchema: {},
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async () => {
+      try {
+        return textResponse(loadHealthRuleTemplates().map(describeTemplate).join("\n\n"));
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+
+  // ── appd_apply_health_rule_template ───────────────────────────────────────
+  server.registerTool(
+    "appd_apply_health_rule_template",
+    {
+      title: "Apply Health Rule Template",
+      description: `Create a template's set of health rules in many applications at once.
+
+A template is a named, parameterized rule set (see appd_get_health_rule_templates) — e.g. "tier-golden-signals" with parameters tier and responseTimeMs. Placeholders such as {{tier}} are filled from the template defaults, then parameters, then appParameters for that application. {{application}} is the application name.
+
+Each rule is resolved against each application like appd_create_health_rule (tiers, nodes, BTs, schedules must exist there). A rule whose name already exists is skipped, or replaced with onExisting: "update" — unless it already matches the template, then it is reported unchanged and not written. One failing rule does not stop the others.
+
+Args:
+  - template (string): Template name
+  - applications (array of names / IDs, optional): Target applications
+  - applicationPattern (string, optional): Case-insensitive regex over application names, e.g. "^payments-"
+  - parameters (object, optional): Values for every application, e.g. { "tier": "api", "responseTimeMs": 1500 }
+  - appParameters (object, optional): Per-application overrides keyed by app name or ID, e.g. { "Orders": { "tier": "orders-api" } }
+  - onExisting (skip|update, default skip): What to do with a rule of the same name
+  - dryRun (boolean, default false): Resolve and validate everything, change nothing
+
+Returns: A result matrix (application × rule: created, updated, unchanged, skipped, failed — or would create / would update on a dry run), totals, and the reason for every failure.`,
+      inputSchema: {
+        template: z.string().describe("Template name, e.g. \"tier-golden-signals\"."),
+        applications: z
+          .array(z.union([z.string(), z.number()]))
+          .min(1)
+          .optional()
+          .describe("Target applications (names or IDs)."),
+        applicationPattern: z
+          .string()
+          .optional()
+          .describe("Case-insensitive regular expression; every application whose name matches is a target."),
+        parameters: z
+          .record(z.union([z.string(), z.number(), z.boolean()]))
+          .optional()
+          .describe("Template parameter values for every application."),
+        appParameters: z
+          .record(z.record(z.union([z.string(), z.number(), z.boolean()])))
+          .optional()
+          .describe("Per-application parameter overrides, keyed by application name or ID."),
+        onExisting: z
+          .enum(["skip", "update"])
+          .default("skip")
+          .describe("skip (default) leaves a same-named rule alone; update replaces it with the template's version."),
+        dryRun: z.boolean().default(false).describe("Validate against every application without changing anything."),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ template: templateName, applications, applicationPattern, parameters, appParameters, onExisting, dryRun }) => {
+      try {
+        const template = findHealthRuleTemplate(templateName);
+        const targets = await resolveTargets(applications, applicationPattern);
+
+        const unusedOverrides = Object.keys(appParameters ?? {}).filter(
+          (k) => !targets.some((app) => k.toLowerCase() === app.name.toLowerCase() || k === String(app.id))
+        );
+
+        const rows: Array<{ app: TargetApp; cells: CellResult[] }> = [];
+        const failures: string[] = [];
+        const notes: string[] = [];
+        for (const app of targets) {
+          const cells: CellResult[] = [];
+          rows.push({ app, cells });
+          let rules: RuleTemplate[];
+          let existing: Map<string, number>;
+          try {
+            const params = resolveParameters(template, {
+              ...parameters,
+              ...overridesFor(app, appParameters),
+              application: app.name,
+            });
+            rules = renderTemplate(template, params);
+            const current = await appdGet<Array<{ id: number; name: string }>>(ALERTING_BASE(app.id), undefined, {
+              fresh: true,
+            });
+            existing = new Map(current.map((r) => [r.name, r.id]));
+          } catch (error) {
+            cells.push(...template.rules.map((): CellResult => "failed"));
+            failures.push(`${app.name}: ${error instanceof Error ? error.message : String(error)}`);
+            continue;
+          }
+
+          for (const rule of rules) {
+            try {
+              const { result, note } = await applyRule(app, rule, existing.get(rule.name), onExisting, dryRun);
+              cells.push(result);
+              if (note) notes.push(`${app.name} / "${rule.name}": ${note}`);
+            } catch (error) {
+              cells.push("failed");
+              failures.push(`${app.name} / "${rule.name}": ${error instanceof Error ? error.message : String(error)}`);
+            }
+          }
+        }
+
+        const headers = template.rules.map((r, i) => String(r["name"] ?? `Rule ${i + 1}`));
+        const table = [
+          `| Application | ${headers.join(" | ")} |`,
+          `|---|${headers.map(() => "---").join("|")}|`,
+          ...rows.map(({ app, cells }) => `| ${app.name} (#${app.id}) | ${cells.join(" | ")} |`),
+        ];
+        const totals = new Map<CellResult, number>();
+        for (const cell of rows.flatMap((r) => r.cells)) totals.set(cell, (totals.get(cell) ?? 0) + 1);
+
+        const lines = [
+          `Template "${template.name}" → ${targets.length} application(s)${dryRun ? " — dry run, nothing was changed" : ""}`,
+          "",
+          ...table,
+          "",
+          `Totals: ${[...totals].map(([k, n]) => `${n} ${k}`).join(", ")}`,
+        ];
+        if (failures.length > 0) lines.push("", "Failures:", ...failures.map((f) => `  - ${f}`));
+        if (notes.length > 0) lines.push("", "Undo:", ...notes.map((n) => `  - ${n}`));
+        if (unusedOverrides.length > 0) {
+          lines.push("", `Warning: appParameters for ${unusedOverrides.join(", ")} matched no target application.`);
+        }
+        return textResponse(lines.join("\n"));
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+}
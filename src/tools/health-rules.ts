@@ -6,139 +6,38 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { appdGet, appdPost, appdPut, appdDelete } from "../services/api-client.js";
+import { recordUndo } from "../services/undo-store.js";
 import { resolveAppId } from "../utils/app-resolver.js";
 import { handleError, textResponse } from "../utils/error-handler.js";
 import { truncateIfNeeded } from "../utils/formatting.js";
-import type { HealthRule, HealthRulePayload, HealthRuleCondition } from "../types.js";
-
-const ALERTING_BASE = (appId: number) =>
+import {
+  AFFECTED_ENTITY_TYPES,
+  ScopeInputSchema,
+  resolveScope,
+  hasScopeInput,
+  type AffectedEntityType,
+} from "../utils/health-rule-scope.js";
+import { ConditionSchema, buildConditions, type ConditionInput } from "../utils/health-rule-conditions.js";
+import { resolveScheduleName } from "../utils/health-rule-schedules.js";
+import type { HealthRule, HealthRulePayload } from "../types.js";
+
+export const ALERTING_BASE = (appId: number) =>
   `/controller/alerting/rest/v1/applications/${appId}/health-rules`;
 
-// ── Shared schemas ────────────────────────────────────────────────────────────
-
-const ConditionSchema = z.object({
-  metricPath: z.string().describe(
-    'Metric path relative to the affected entity. ' +
-    'For TIER_NODE_HEALTH: use short paths like "Custom Metrics|MyMetric" or "Hardware Resources|CPU|%Busy". ' +
-    'Do NOT use the full absolute path (e.g. "Application Infrastructure Performance|Tier|...").'
-  ),
-  threshold: z.number().describe("Threshold value"),
-  operator: z
-    .enum(["GREATER_THAN", "LESS_THAN", "GREATER_THAN_EQUALS", "LESS_THAN_EQUALS", "EQUALS", "NOT_EQUALS"])
-    .default("GREATER_THAN")
-    .describe("Comparison operator. NOT_EQUALS is supported for CUSTOM (SIM) entity type rules."),
-  name: z.string().optional().describe("Condition name (auto-generated if omitted)"),
-});
-
-const AFFECTED_ENTITY_TYPES = [
-  "BUSINESS_TRANSACTION_PERFORMANCE",
-  "APPLICATION_PERFORMANCE",
-  "TIER_NODE_HEALTH",
-  "TIER_NODE_TRANSACTION_PERFORMANCE",
-  "BACKEND_CALL_PERFORMANCE",
-  "SERVICE_ENDPOINT_PERFORMANCE",
-  "CUSTOM",
-] as const;
-
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
-function buildAffects(
-  entityType: (typeof AFFECTED_ENTITY_TYPES)[number],
-  affectedTier?: string,
-  affectedNode?: string,
-  customEntityType?: string,
-  customEntityName?: string,
-): Record<string, unknown> {
-  const base = { affectedEntityType: entityType };
-  switch (entityType) {
-    case "BUSINESS_TRANSACTION_PERFORMANCE":
-      return { ...base, affectedBusinessTransactions: { businessTransactionScope: "ALL_BUSINESS_TRANSACTIONS" } };
-    case "APPLICATION_PERFORMANCE":
-      return { ...base, affectedApplicationPerformance: { applicationPerformanceScope: "ALL_TIERS" } };
-    case "TIER_NODE_HEALTH":
-    case "TIER_NODE_TRANSACTION_PERFORMANCE": {
-      if (affectedNode) {
-        return { ...base, affectedTierOrNode: { tierOrNodeScope: "SPECIFIC_NODES", nodes: [{ name: affectedNode }] } };
-      }
-      if (affectedTier) {
-        return { ...base, affectedTierOrNode: { tierOrNodeScope: "SPECIFIC_TIERS", tiers: [{ name: affectedTier }] } };
-      }
-      return { ...base, affectedTierOrNode: { tierOrNodeScope: "ALL_TIERS_OR_NODES" } };
-    }
-    case "BACKEND_CALL_PERFORMANCE":
-      return { ...base, affectedBackend: { backendScope: "ALL_BACKENDS" } };
-    case "SERVICE_ENDPOINT_PERFORMANCE":
-      return { ...base, affectedServiceEndpoints: { serviceEndpointScope: "ALL_SERVICE_ENDPOINTS" } };
-    case "CUSTOM":
-      return {
-        ...base,
-        affectedEntityScope: {
-          entityScope: "SPECIFIC_ENTITY_PERFORMANCE",
-          entityType: customEntityType ?? "SERVER",
-          affectedEntityName: customEntityName ?? "",
-        },
-      };
-  }
-}
-
-function buildConditions(
-  items: Array<{ metricPath: string; threshold: number; operator: string; name?: string }>,
-  simFormat = false,
-): HealthRuleCondition[] {
-  return items.map((c, i) => {
-    // SIM (CUSTOM entity type) requires extra fields and uses _SPECIFIC_VALUE suffix on operators
-    if (simFormat) {
-      return {
-        name: c.name ?? `Condition ${i + 1}`,
-        shortName: String.fromCharCode(65 + i), // A, B, C…
-        evaluateToTrueOnNoData: false,
-        violationStatusOnNoData: "UNKNOWN",
-        wildcardMetricMatchType: "DEFAULT_ALL_METRIC_PATH",
-        evalDetail: {
-          evalDetailType: "SINGLE_METRIC",
-          metricAggregateFunction: "VALUE",
-          metricPath: c.metricPath,
-          metricEvalDetail: {
-            metricEvalDetailType: "SPECIFIC_TYPE",
-            compareCondition: c.operator,
-            compareValue: c.threshold,
-          },
-          inputMetricText: false,
-        },
-        triggerEnabled: false,
-        minimumTriggers: 0,
-      } as unknown as HealthRuleCondition;
-    }
-    return {
-      name: c.name ?? `Condition ${i + 1}`,
-      shortcutAlerted: false,
-      evalDetail: {
-        evalDetailType: "SINGLE_METRIC",
-        metricAggregateFunction: "VALUE",
-        metricPath: c.metricPath,
-        metricEvalDetail: {
-          metricEvalDetailType: "SPECIFIC_TYPE",
-          compareCondition: c.operator,
-          compareValue: c.threshold,
-        },
-      },
-    };
-  });
-}
-
-function buildPayload(params: {
+/** Alerting-API body for a new rule; also used by appd_apply_health_rule_template. */
+export function buildPayload(params: {
   name: string;
   enabled: boolean;
-  affectedEntityType: (typeof AFFECTED_ENTITY_TYPES)[number];
-  affectedTier?: string;
-  affectedNode?: string;
-  customEntityType?: string;
-  customEntityName?: string;
+  affectedEntityType: AffectedEntityType;
+  affects: Record<string, unknown>;
   useDataFromLastNMinutes: number;
   waitTimeAfterViolation: number;
+  scheduleName?: string;
   conditionAggregationType: "ALL" | "ANY";
-  criticalConditions: Array<{ metricPath: string; threshold: number; operator: string; name?: string }>;
-  warningConditions?: Array<{ metricPath: string; threshold: number; operator: string; name?: string }>;
+  criticalConditions: ConditionInput[];
+  warningConditions?: ConditionInput[];
 }): HealthRulePayload {
   const simFormat = params.affectedEntityType === "CUSTOM";
   const evalMatchingCriteria = simFormat ? { matchType: "ANY", value: null } : undefined;
@@ -147,8 +46,9 @@ function buildPayload(params: {
     enabled: params.enabled,
     useDataFromLastNMinutes: params.useDataFromLastNMinutes,
     waitTimeAfterViolation: params.waitTimeAfterViolation,
-    ...(simFormat ? { splitEventsByMetrics: false, scheduleName: "Always" } : {}),
-    affects: buildAffects(params.affectedEntityType, params.affectedTier, params.affectedNode, params.customEntityType, params.customEntityName),
+    ...(simFormat ? { splitEventsByMetrics: false, scheduleName: params.scheduleName ?? "Always" } : {}),
+    ...(!simFormat && params.scheduleName !== undefined ? { scheduleName: params.scheduleName } : {}),
+    affects: params.affects,
     evalCriterias: {
       criticalCriteria: {
         conditionAggregationType: params.conditionAggregationType,
@@ -166,6 +66,13 @@ function buildPayload(params: {
   };
 }
 
+const ScheduleArgSchema = z
+  .string()
+  .optional()
+  .describe(
+    'Schedule (name or ID) during which the rule is evaluated, e.g. "Weekdays: 8am-5pm, Mon-Fri". Default "Always". Create one with appd_create_health_rule_schedule.'
+  );
+
 // ── Tool registration ─────────────────────────────────────────────────────────
 
 export function registerHealthRuleTools(server: McpServer): void {
@@ -251,13 +158,17 @@ Args:
   - affectedEntityType: BUSINESS_TRANSACTION_PERFORMANCE | APPLICATION_PERFORMANCE | TIER_NODE_HEALTH | TIER_NODE_TRANSACTION_PERFORMANCE | BACKEND_CALL_PERFORMANCE | SERVICE_ENDPOINT_PERFORMANCE | CUSTOM
   - affectedTier (string, optional): Scope to a specific tier (TIER_NODE_HEALTH / TIER_NODE_TRANSACTION_PERFORMANCE only)
   - affectedNode (string, optional): Scope to a specific node (takes precedence over affectedTier)
+  - businessTransactions / backends / serviceEndpoints / tiers / nodes (array of names or IDs, optional): Specific entities — see Scope below
+  - perNode (boolean, optional): With tiers on TIER_NODE_* rules, evaluate each node of the tiers
+  - namePattern (object, optional): { matchTo: STARTS_WITH|ENDS_WITH|CONTAINS|EQUALS|MATCH_REG_EX, value, negate? }
   - customEntityType (string, optional): Entity type for CUSTOM rules — use "SERVER" for SIM nodes
   - customEntityName (string, optional): Entity name for CUSTOM rules — use the server/node hostname
-  - criticalConditions (array): at least one condition with metricPath, threshold, operator
+  - criticalConditions (array): at least one condition — metricPath, threshold, operator (see Conditions)
   - warningConditions (array, optional): same structure
   - conditionAggregationType (ALL|ANY, default ALL)
   - useDataFromLastNMinutes (default 30)
   - waitTimeAfterViolation (default 30)
+  - schedule (string, optional): Name or ID of the schedule during which the rule is evaluated (default "Always") — see appd_get_health_rule_schedules
 
 **APM custom metrics** (machine agent on APM app): use affectedEntityType=TIER_NODE_HEALTH with affectedTier or affectedNode.
 metricPath must be RELATIVE to the entity (e.g. "Custom Metrics|MyMetric").
@@ -267,7 +178,20 @@ metricPath must be the FULL absolute path starting with "Application Infrastruct
 Operators supported: GREATER_THAN, LESS_THAN, GREATER_THAN_EQUALS, LESS_THAN_EQUALS, EQUALS, NOT_EQUALS.
 Example: { metricPath: "Application Infrastructure Performance|Root|Individual Nodes|myhost|Custom Metrics|URL Monitor|SvcA|Status", threshold: 4, operator: "NOT_EQUALS" }
 
-Returns: Created health rule object with assigned ID.`,
+**Conditions**: each compares one metric (metricPath) or a metric expression with threshold.
+  - aggregateFunction: VALUE / AVERAGE (default), SUM, MIN, MAX, COUNT, CURRENT
+  - baseline: compare with a baseline instead of a fixed value — { trend: DAILY|WEEKLY|MONTHLY|NONE or name, unit: STANDARD_DEVIATIONS|PERCENTAGE, compare: ABOVE|BELOW|WITHIN|NOT_WITHIN }.
+    Example (response time > 3 std-dev above the daily baseline): { metricPath: "Average Response Time (ms)", threshold: 3, baseline: { trend: "DAILY" } }
+  - expression + variables instead of metricPath. Example (errors > 5% of calls):
+    { expression: "{errors} / {calls} * 100", variables: [{ name: "errors", metricPath: "Errors per Minute", aggregateFunction: "SUM" }, { name: "calls", metricPath: "Calls per Minute", aggregateFunction: "SUM" }], threshold: 5 }
+
+**Scope** (default: every entity of the type). Give one of:
+  - businessTransactions / backends / serviceEndpoints / nodes: those entities (matching entity type)
+  - tiers: BTs or service endpoints in those tiers; for TIER_NODE_* rules the tiers themselves (perNode: their nodes)
+  - namePattern: entities whose name matches, e.g. { matchTo: "STARTS_WITH", value: "/api/" }
+Names and IDs are checked against the application first; unknown names fail with suggestions and nothing is created.
+
+Returns: The resolved scope (and schedule, if given) and the created health rule object with assigned ID.`,
       inputSchema: {
         application: z.union([z.string(), z.number()]).describe("Application name or numeric ID."),
         name: z.string().describe("Health rule name."),
@@ -283,6 +207,7 @@ Returns: Created health rule object with assigned ID.`,
           "Scope to a specific node (TIER_NODE_HEALTH / TIER_NODE_TRANSACTION_PERFORMANCE only). " +
           "Takes precedence over affectedTier when both are provided."
         ),
+        ...ScopeInputSchema,
         customEntityType: z.string().optional().describe(
           'Entity type for CUSTOM (SIM) rules. Use "SERVER" for Server & Infrastructure Monitoring nodes.'
         ),
@@ -311,6 +236,7 @@ Returns: Created health rule object with assigned ID.`,
           .int()
           .default(30)
           .describe("Wait time in minutes before re-alerting."),
+        schedule: ScheduleArgSchema,
       },
       annotations: {
         readOnlyHint: false,
@@ -324,35 +250,34 @@ Returns: Created health rule object with assigned ID.`,
       name,
       enabled,
       affectedEntityType,
-      affectedTier,
-      affectedNode,
-      customEntityType,
-      customEntityName,
       criticalConditions,
       warningConditions,
       conditionAggregationType,
       useDataFromLastNMinutes,
       waitTimeAfterViolation,
+      schedule,
+      ...scopeArgs
     }) => {
       try {
         const appId = await resolveAppId(application);
+        const scope = await resolveScope(appId, affectedEntityType, scopeArgs);
+        const scheduleName = schedule !== undefined ? await resolveScheduleName(appId, schedule) : undefined;
         const payload = buildPayload({
           name,
           enabled,
           affectedEntityType,
-          affectedTier,
-          affectedNode,
-          customEntityType,
-          customEntityName,
+          affects: scope.affects,
           useDataFromLastNMinutes,
           waitTimeAfterViolation,
+          scheduleName,
           conditionAggregationType,
           criticalConditions,
           warningConditions,
         });
         const created = await appdPost<HealthRule>(ALERTING_BASE(appId), payload);
+        const scheduleNote = scheduleName !== undefined ? `\nSchedule: ${scheduleName}` : "";
         return textResponse(
-          `Health rule created successfully.\n\n${JSON.stringify(created, null, 2)}`
+          `Health rule created successfully.\nScope: ${scope.summary}${scheduleNote}\n\n${JSON.stringify(created, null, 2)}`
         );
       } catch (error) {
         return handleError(error);
@@ -374,9 +299,13 @@ Args:
   - application (string|number): App name or ID
   - healthRuleId (number): ID of the health rule to update
   - name, enabled, affectedEntityType, criticalConditions, warningConditions,
-    conditionAggregationType, useDataFromLastNMinutes, waitTimeAfterViolation — all optional
+    conditionAggregationType, useDataFromLastNMinutes, waitTimeAfterViolation, schedule — all optional
+  - Scope: affectedTier, affectedNode, businessTransactions, backends, serviceEndpoints, tiers, nodes,
+    perNode, namePattern, customEntityType, customEntityName — as for appd_create_health_rule
 
-Returns: Updated health rule object.`,
+Giving any scope argument (or affectedEntityType) replaces the rule's whole scope; the entity type stays the rule's current one unless affectedEntityType is given. Names and IDs are checked against the application before the update is sent.
+
+Returns: The resolved scope (when changed) and the updated health rule object.`,
       inputSchema: {
         application: z.union([z.string(), z.number()]).describe("Application name or numeric ID."),
         healthRuleId: z.number().int().describe("ID of the health rule to update."),
@@ -391,6 +320,7 @@ Returns: Updated health rule object.`,
           "Scope to a specific node (TIER_NODE_HEALTH / TIER_NODE_TRANSACTION_PERFORMANCE only). " +
           "Takes precedence over affectedTier when both are provided."
         ),
+        ...ScopeInputSchema,
         customEntityType: z.string().optional().describe(
           'Entity type for CUSTOM (SIM) rules. Use "SERVER" for SIM nodes.'
         ),
@@ -402,10 +332,11 @@ Returns: Updated health rule object.`,
         conditionAggregationType: z.enum(["ALL", "ANY"]).optional().describe("ALL or ANY."),
         useDataFromLastNMinutes: z.number().int().optional().describe("Evaluation window in minutes."),
         waitTimeAfterViolation: z.number().int().optional().describe("Re-alert wait time in minutes."),
+        schedule: ScheduleArgSchema,
       },
       annotations: {
         readOnlyHint: false,
-        destructiveHint: false,
+        destructiveHint: true,
         idempotentHint: true,
         openWorldHint: true,
       },
@@ -416,20 +347,20 @@ Returns: Updated health rule object.`,
       name,
       enabled,
       affectedEntityType,
-      affectedTier,
-      affectedNode,
-      customEntityType,
-      customEntityName,
       criticalConditions,
       warningConditions,
       conditionAggregationType,
       useDataFromLastNMinutes,
       waitTimeAfterViolation,
+      schedule,
+      ...scopeArgs
     }) => {
       try {
         const appId = await resolveAppId(application);
         const current = await appdGet<HealthRule>(
-          `${ALERTING_BASE(appId)}/${healthRuleId}`
+          `${ALERTING_BASE(appId)}/${healthRuleId}`,
+          undefined,
+          { fresh: true }
         );
 
         // Merge user-supplied fields over the current rule
@@ -438,9 +369,20 @@ Returns: Updated health rule object.`,
         if (enabled !== undefined) merged["enabled"] = enabled;
         if (useDataFromLastNMinutes !== undefined) merged["useDataFromLastNMinutes"] = useDataFromLastNMinutes;
         if (waitTimeAfterViolation !== undefined) merged["waitTimeAfterViolation"] = waitTimeAfterViolation;
-
-        if (affectedEntityType !== undefined) {
-          merged["affects"] = buildAffects(affectedEntityType, affectedTier, affectedNode, customEntityType, customEntityName);
+        if (schedule !== undefined) merged["scheduleName"] = await resolveScheduleName(appId, schedule);
+
+        let scopeNote = "";
+        if (affectedEntityType !== undefined || hasScopeInput(scopeArgs)) {
+          const currentType = (current["affects"] as { affectedEntityType?: string } | undefined)?.affectedEntityType;
+          const entityType = affectedEntityType ?? AFFECTED_ENTITY_TYPES.find((t) => t === currentType);
+          if (!entityType) {
+            throw new Error(
+              `Rule ${healthRuleId} has entity type ${currentType ?? "(none)"}, which this tool cannot rescope. Pass affectedEntityType.`
+            );
+          }
+          const scope = await resolveScope(appId, entityType, scopeArgs);
+          merged["affects"] = scope.affects;
+          scopeNote = `\nScope: ${scope.summary}`;
         }
 
         if (criticalConditions !== undefined || warningConditions !== undefined || conditionAggregationType !== undefined) {
@@ -472,8 +414,16 @@ Returns: Updated health rule object.`,
           `${ALERTING_BASE(appId)}/${healthRuleId}`,
           merged
         );
+        const undo = await recordUndo({
+          kind: "health-rule",
+          operation: "update",
+          applicationId: appId,
+          entityId: healthRuleId,
+          entityName: current.name,
+          before: current,
+        });
         return textResponse(
-          `Health rule updated successfully.\n\n${JSON.stringify(updated, null, 2)}`
+          `Health rule updated successfully.${scopeNote}\n\n${JSON.stringify(updated, null, 2)}${undo}`
         );
       } catch (error) {
         return handleError(error);
@@ -488,7 +438,7 @@ Returns: Updated health rule object.`,
       title: "Delete Health Rule",
       description: `Permanently delete a health rule by ID.
 
-This action cannot be undone. Use appd_get_health_rules to confirm the ID before deleting.
+The rule's definition is saved locally first, so appd_undo can recreate it (with a new ID). Use appd_get_health_rules to confirm the ID before deleting.
 
 Args:
   - application (string|number): App name or ID
@@ -509,8 +459,19 @@ Returns: Confirmation message.`,
     async ({ application, healthRuleId }) => {
       try {
         const appId = await resolveAppId(application);
+        const current = await appdGet<HealthRule>(`${ALERTING_BASE(appId)}/${healthRuleId}`, undefined, {
+          fresh: true,
+        });
         await appdDelete(`${ALERTING_BASE(appId)}/${healthRuleId}`);
-        return textResponse(`Health rule ${healthRuleId} deleted successfully.`);
+        const undo = await recordUndo({
+          kind: "health-rule",
+          operation: "delete",
+          applicationId: appId,
+          entityId: healthRuleId,
+          entityName: current.name,
+          before: current,
+        });
+        return textResponse(`Health rule ${healthRuleId} ("${current.name}") deleted successfully.${undo}`);
       } catch (error) {
         return handleError(error);
       }
@@ -539,7 +500,7 @@ Returns: Updated health rule object.`,
       },
       annotations: {
         readOnlyHint: false,
-        destructiveHint: false,
+        destructiveHint: true,
         idempotentHint: true,
         openWorldHint: true,
       },
@@ -547,13 +508,23 @@ Returns: Updated health rule object.`,
     async ({ application, healthRuleId, enabled }) => {
       try {
         const appId = await resolveAppId(application);
-        const current = await appdGet<HealthRule>(`${ALERTING_BASE(appId)}/${healthRuleId}`);
+        const current = await appdGet<HealthRule>(`${ALERTING_BASE(appId)}/${healthRuleId}`, undefined, {
+          fresh: true,
+        });
         const updated = await appdPut<HealthRule>(
           `${ALERTING_BASE(appId)}/${healthRuleId}`,
           { ...current, enabled }
         );
+        const undo = await recordUndo({
+          kind: "health-rule",
+          operation: enabled ? "enable" : "disable",
+          applicationId: appId,
+          entityId: healthRuleId,
+          entityName: current.name,
+          before: current,
+        });
         return textResponse(
-          `Health rule ${healthRuleId} ${enabled ? "enabled" : "disabled"} successfully.\n\n${JSON.stringify(updated, null, 2)}`
+          `Health rule ${healthRuleId} ${enabled ? "enabled" : "disabled"} successfully.\n\n${JSON.stringify(updated, null, 2)}${undo}`
         );
       } catch (error) {
         return handleError(error);
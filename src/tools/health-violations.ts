@@ -7,8 +7,10 @@ import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { appdGet } from "../services/api-client.js";
 import { resolveAppId } from "../utils/app-resolver.js";
+import { runAsBulk } from "../utils/request-context.js";
 import { handleError, textResponse, isAxios404 } from "../utils/error-handler.js";
 import { truncateIfNeeded } from "../utils/formatting.js";
+import { TimeRangeSchema, TIME_RANGE_ARG_DOC, resolveTimeRange } from "../utils/time-range.js";
 import { DEFAULT_VIOLATIONS_DURATION_MINS } from "../constants.js";
 import type { AppDApplication, HealthRuleViolation } from "../types.js";
 
@@ -27,6 +29,7 @@ const InputSchema = {
     .describe(
       "Time range in minutes to look back. Defaults to 1440 (24 hours)."
     ),
+  timeRange: TimeRangeSchema.optional(),
 };
 
 /**
@@ -34,13 +37,8 @@ const InputSchema = {
  */
 async function fetchViolations(
   appId: number,
-  duration: number
+  params: Record<string, string | number>
 ): Promise<HealthRuleViolation[]> {
-  const params = {
-    "time-range-type": "BEFORE_NOW",
-    "duration-in-mins": duration,
-  };
-
   let data: unknown;
   try {
     data = await appdGet(
@@ -101,6 +99,7 @@ Supports application lookup by name or numeric ID.
 Args:
   - application (string|number, optional): App name or ID. Omit for all apps.
   - durationInMins (number, optional): Lookback window in minutes (default: 1440 = 24h)
+${TIME_RANGE_ARG_DOC}
 
 Returns: Array of health rule violations with severity, status, affected entity, and timestamps.`,
       inputSchema: InputSchema,
@@ -111,14 +110,13 @@ Returns: Array of health rule violations with severity, status, affected entity,
         openWorldHint: true,
       },
     },
-    async ({ application, durationInMins }) => {
+    async ({ application, durationInMins, timeRange }) => {
       try {
-        const duration =
-          durationInMins ?? DEFAULT_VIOLATIONS_DURATION_MINS;
+        const { params } = resolveTimeRange(timeRange, durationInMins, DEFAULT_VIOLATIONS_DURATION_MINS);
 
         if (application !== undefined) {
           const appId = await resolveAppId(application);
-          const violations = await fetchViolations(appId, duration);
+          const violations = await fetchViolations(appId, params);
           return textResponse(truncateIfNeeded(violations));
         }
 
@@ -127,10 +125,11 @@ Returns: Array of health rule violations with severity, status, affected entity,
           "/controller/rest/applications"
         );
 
-        const results = await Promise.all(
+        // Bulk priority so single-app calls from other sessions are not starved
+        const results = await runAsBulk(() => Promise.all(
           apps.map(async (app) => {
             try {
-              const violations = await fetchViolations(app.id, duration);
+              const violations = await fetchViolations(app.id, params);
               if (violations.length > 0) {
                 return {
                   applicationId: app.id,
@@ -148,7 +147,7 @@ Returns: Array of health rule violations with severity, status, affected entity,
             }
             return null;
           })
-        );
+        ));
 
         const allViolations = results.filter(
           (r): r is NonNullable<typeof r> => r !== null
@@ -0,0 +1,626 @@
+/**
+ * Tools: appd_detect_metric_anomalies, appd_forecast_metric, appd_correlate_metrics
+ * Local statistical analysis over any metric path, including custom and
+ * backend metrics that controller anomaly detection does not watch.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { appdGet } from "../services/api-client.js";
+import { getMetricIndex } from "../services/metric-index.js";
+import { resolveAppId } from "../utils/app-resolver.js";
+import { runAsBulk } from "../utils/request-context.js";
+import { handleError, textResponse } from "../utils/error-handler.js";
+import { truncateIfNeeded, formatTimestamp, formatDuration } from "../utils/formatting.js";
+import { TimeRangeSchema, TIME_RANGE_ARG_DOC, resolveTimeRange } from "../utils/time-range.js";
+import { metricPoints, round2 } from "../utils/metric-series.js";
+import { tierMetricPaths, backendMetricPaths, nodeMetricPaths } from "../utils/entity-metrics.js";
+import {
+  detectAnomalies,
+  regularize,
+  fitLinear,
+  fitHoltWinters,
+  holdoutError,
+  zForConfidence,
+  thresholdCrossing,
+  bestLaggedCorrelation,
+  median,
+  type SeasonalReference,
+  type ForecastModel,
+} from "../utils/series-analysis.js";
+import {
+  DEFAULT_DURATION_MINS,
+  DEFAULT_ANOMALY_THRESHOLD,
+  MAX_ANALYSIS_SERIES,
+  DEFAULT_FORECAST_HISTORY_MINS,
+  DEFAULT_FORECAST_HORIZON_MINS,
+  MAX_FORECAST_STEPS,
+  MAX_CORRELATION_CANDIDATES,
+  DEFAULT_CORRELATION_RESULTS,
+  DEFAULT_CORRELATION_MAX_LAG_MINS,
+  DEFAULT_METRIC_CRAWL_DEPTH,
+  DEFAULT_METRIC_CRAWL_FOLDERS,
+} from "../constants.js";
+import type { MetricData } from "../types.js";
+
+const DAY_MS = 86_400_000;
+
+const REFERENCE_PERIODS = {
+  yesterday: { name: "yesterday", periodMs: DAY_MS },
+  lastWeek: { name: "last week", periodMs: 7 * DAY_MS },
+} as const;
+
+/**
+ * Per-interval series for a path (rollup=false), keyed by metric path so
+ * wildcard matches line up across windows.
+ */
+async function fetchSeries(
+  appId: number,
+  metricPath: string,
+  timeParams: Record<string, string | number>
+): Promise<MetricData[]> {
+  const data = await appdGet<MetricData[]>(`/controller/rest/applications/${appId}/metric-data`, {
+    "metric-path": metricPath,
+    ...timeParams,
+    rollup: false,
+  });
+  return Array.isArray(data) ? data.filter((d) => (d.metricValues ?? []).length > 0) : [];
+}
+
+// ── Detect Anomalies ─────────────────────────────────────────────────────────
+
+const DetectAnomaliesSchema = {
+  application: z
+    .union([z.string(), z.number()])
+    .describe("Application name or numeric ID."),
+  metricPath: z
+    .string()
+    .describe(
+      "Metric path to analyse — any path, including custom metrics and backends. " +
+        `A wildcard path analyses up to ${MAX_ANALYSIS_SERIES} matching series.`
+    ),
+  durationInMins: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Time range in minutes to look back. Defaults to 60."),
+  timeRange: TimeRangeSchema.optional(),
+  references: z
+    .array(z.enum(["yesterday", "lastWeek"]))
+    .optional()
+    .describe("Prior periods used as the seasonal expectation. Defaults to both."),
+  threshold: z
+    .number()
+    .min(1)
+    .max(20)
+    .optional()
+    .describe(
+      `Robust z-score at which an interval is anomalous. Defaults to ${DEFAULT_ANOMALY_THRESHOLD}; lower is more sensitive.`
+    ),
+  includeIntervals: z
+    .boolean()
+    .optional()
+    .describe("Also return every interval with its value, expected value, band and score. Default false."),
+};
+
+// ── Forecast ─────────────────────────────────────────────────────────────────
+
+const ForecastSchema = {
+  application: z
+    .union([z.string(), z.number()])
+    .describe("Application name or numeric ID."),
+  metricPath: z
+    .string()
+    .describe(
+      "Metric path to forecast, e.g. 'Application Infrastructure Performance|<tier>|Individual Nodes|<node>|JVM|Memory:Heap used (MB)'. " +
+        `A wildcard path forecasts up to ${MAX_ANALYSIS_SERIES} matching series.`
+    ),
+  durationInMins: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("History to fit, in minutes. Defaults to 7 days."),
+  timeRange: TimeRangeSchema.optional(),
+  horizonMins: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("How far past the last data point to project, in minutes. Defaults to 1 day."),
+  threshold: z
+    .number()
+    .optional()
+    .describe("Capacity limit to estimate the crossing time for (e.g. 90 for %Busy, the heap max in MB)."),
+  model: z
+    .enum(["linear", "holtWinters"])
+    .optional()
+    .describe("Fit only this model. Default fits both and prefers the one with the lower hold-out error."),
+  seasonMins: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Holt-Winters season length in minutes; 0 = no seasonality. Defaults to 1 day when the history covers two days."),
+  confidence: z
+    .number()
+    .min(50)
+    .max(99.9)
+    .optional()
+    .describe("Confidence level of the bounds, in percent. Defaults to 95."),
+};
+
+const FORECAST_MODELS: Record<ForecastModel["name"], (values: number[], seasonLength: number) => ForecastModel> = {
+  linear: (values) => fitLinear(values),
+  holtWinters: fitHoltWinters,
+};
+
+const roundParams = (params: Record<string, number>) =>
+  Object.fromEntries(Object.entries(params).map(([k, v]) => [k, Number.isInteger(v) ? v : Number(v.toPrecision(4))]));
+
+// ── Correlate ────────────────────────────────────────────────────────────────
+
+/** Every tier, backend and node signal of appd_diagnose_issue, as wildcard paths. */
+const ENTITY_METRIC_PATTERNS = [
+  ...Object.values(tierMetricPaths("*")),
+  ...Object.values(backendMetricPaths("*")),
+  ...Object.values(nodeMetricPaths("*", "*")),
+];
+
+const CorrelateSchema = {
+  application: z
+    .union([z.string(), z.number()])
+    .describe("Application name or numeric ID."),
+  metricPath: z
+    .string()
+    .describe("Target metric — the symptom, e.g. 'Overall Application Performance|<tier>|Average Response Time (ms)'."),
+  paths: z
+    .array(z.string())
+    .max(MAX_CORRELATION_CANDIDATES)
+    .optional()
+    .describe("Candidate metric paths (wildcards allowed)."),
+  subtree: z
+    .string()
+    .optional()
+    .describe("Metric-tree folder whose leaf metrics are all candidates, e.g. 'Backends' or 'Application Infrastructure Performance|<tier>'."),
+  entityMetrics: z
+    .boolean()
+    .optional()
+    .describe(
+      "Use every tier / backend response time and errors and node CPU / heap / GC metric as candidates. " +
+        "Default when neither paths nor subtree is given."
+    ),
+  durationInMins: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Time range in minutes to look back. Defaults to 60."),
+  timeRange: TimeRangeSchema.optional(),
+  method: z
+    .enum(["pearson", "spearman"])
+    .optional()
+    .describe("Coefficient used to rank and pick the lag. Default 'spearman' (robust to spikes and non-linear relations)."),
+  maxLagMins: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(`Largest shift tried in either direction, in minutes. Defaults to ${DEFAULT_CORRELATION_MAX_LAG_MINS}.`),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe(`Correlated series to return. Defaults to ${DEFAULT_CORRELATION_RESULTS}.`),
+};
+
+export function registerMetricAnalysisTools(server: McpServer): void {
+  // ── appd_detect_metric_anomalies ─────────────────────────────────────────
+
+  server.registerTool(
+    "appd_detect_metric_anomalies",
+    {
+      title: "Detect Metric Anomalies",
+      description: `Detect anomalous intervals in any metric — custom metrics, backends, node-level infrastructure — independently of the controller's own anomaly detection (appd_get_anomalies).
+
+Fetches the window plus the same window yesterday and last week. The expected value of each interval is the median of those prior periods, aligned to the window's intervals even when they are rolled up coarser (seasonal model; a period covering under half the window is not used, and with none left the model falls back to the window's median). Residuals are scaled by a robust noise estimate (1.4826 × MAD), and intervals whose |z| reaches the threshold are grouped into spans.
+
+Args:
+  - application (string|number): App name or ID
+  - metricPath (string): Metric path (wildcards analyse up to ${MAX_ANALYSIS_SERIES} series)
+  - durationInMins (number, optional): Lookback in minutes (default: 60)
+${TIME_RANGE_ARG_DOC}
+  - references (array, optional): 'yesterday' and/or 'lastWeek' (default: both)
+  - threshold (number, optional): Robust z-score cut-off (default: ${DEFAULT_ANOMALY_THRESHOLD}); spans at 2× are critical
+  - includeIntervals (boolean, optional): Add every interval with expected value, band and score
+
+Returns: Per series — model used, each reference's coverage of the window, noise scale, a one-line summary, and anomalous spans with direction, severity, max score, peak value and the expected band at the peak.`,
+      inputSchema: DetectAnomaliesSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ application, metricPath, durationInMins, timeRange, references, threshold, includeIntervals }) => {
+      try {
+        const appId = await resolveAppId(application);
+        const range = resolveTimeRange(timeRange, durationInMins, DEFAULT_DURATION_MINS);
+        const cutoff = threshold ?? DEFAULT_ANOMALY_THRESHOLD;
+        const periods = [...new Set(references ?? (["yesterday", "lastWeek"] as const))].map(
+          (r) => REFERENCE_PERIODS[r]
+        );
+        const warnings: string[] = [];
+
+        const [current, ...prior] = await Promise.all([
+          fetchSeries(appId, metricPath, range.params),
+          ...periods.map((period) => {
+            const shifted = resolveTimeRange(
+              { type: "BETWEEN_TIMES", start: range.startMs - period.periodMs, end: range.endMs - period.periodMs },
+              undefined,
+              range.durationInMins
+            );
+            return fetchSeries(appId, metricPath, shifted.params).catch((error: unknown) => {
+              warnings.push(`No ${period.name} data: ${error instanceof Error ? error.message : String(error)}`);
+              return [] as MetricData[];
+            });
+          }),
+        ]);
+
+        if (current!.length === 0) {
+          return textResponse(
+            `No data for '${metricPath}' in ${range.label}. Check the path with appd_search_metrics or appd_browse_metric_tree.`
+          );
+        }
+        if (current!.length > MAX_ANALYSIS_SERIES) {
+          warnings.push(`Path matched ${current!.length} series; analysed the first ${MAX_ANALYSIS_SERIES}.`);
+        }
+
+        const results = current!.slice(0, MAX_ANALYSIS_SERIES).map((series) => {
+          const refs: SeasonalReference[] = periods.map((period, i) => {
+            const match = prior[i]!.find((d) => d.metricPath === series.metricPath);
+            return { ...period, points: match ? metricPoints(match) : [] };
+          });
+          const result = detectAnomalies(metricPoints(series), refs, cutoff);
+          const worst = result.spans.reduce<(typeof result.spans)[number] | null>(
+            (best, s) => (best === null || s.maxScore > best.maxScore ? s : best),
+            null
+          );
+          const critical = result.spans.filter((s) => s.severity === "critical").length;
+
+          return {
+            metricPath: series.metricPath,
+            frequency: series.frequency,
+            model: result.model,
+            referencesUsed: result.referencesUsed,
+            referenceCoverage: result.references.map((r) => ({
+              name: r.name,
+              step: formatDuration(r.stepMs),
+              coverage: round2(r.coverage),
+              used: r.used,
+            })),
+            noiseScale: round2(result.noiseScale),
+            summary: worst
+              ? `${result.spans.length} anomalous span${result.spans.length === 1 ? "" : "s"}` +
+                `${critical ? ` (${critical} critical)` : ""}; worst ${round2(worst.maxScore)}σ ${worst.direction} expected ` +
+                `at ${formatTimestamp(worst.peak.time)} (${round2(worst.peak.value)} vs ${round2(worst.peak.expected)})`
+              : `No anomalies at |z| ≥ ${cutoff} across ${result.intervals.length} intervals.`,
+            spans: result.spans.map((s) => ({
+              start: formatTimestamp(s.start),
+              end: formatTimestamp(s.end),
+              intervals: s.intervals,
+              direction: s.direction,
+              severity: s.severity,
+              maxScore: round2(s.maxScore),
+              peakTime: formatTimestamp(s.peak.time),
+              peakValue: round2(s.peak.value),
+              expected: round2(s.peak.expected),
+              expectedBand: [round2(s.peak.lower), round2(s.peak.upper)],
+            })),
+            ...(includeIntervals && {
+              intervals: result.intervals.map((iv) => ({
+                time: formatTimestamp(iv.time),
+                value: round2(iv.value),
+                expected: round2(iv.expected),
+                band: [round2(iv.lower), round2(iv.upper)],
+                score: round2(iv.score),
+              })),
+            }),
+          };
+        });
+
+        return textResponse(
+          truncateIfNeeded({
+            timeRange: range.label,
+            threshold: cutoff,
+            results,
+            ...(warnings.length > 0 && { warnings }),
+          })
+        );
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+
+  // ── appd_forecast_metric ─────────────────────────────────────────────────
+
+  server.registerTool(
+    "appd_forecast_metric",
+    {
+      title: "Forecast Metric",
+      description: `Project a metric forward for capacity planning — "when will this node's heap / disk / connection pool hit its limit?". Works on any path, including node infrastructure metrics such as '...|Individual Nodes|<node>|Hardware Resources|CPU|%Busy' and '...|JVM|Memory:Heap used (MB)'.
+
+Fits a least-squares linear trend and an additive Holt-Winters model (level, trend and a daily season when the history covers two days) to the per-interval history, then projects each to the horizon with confidence bounds. With both models, the one with the lower error on the last 20% of the history (fitted on the first 80%) is marked preferred.
+
+Args:
+  - application (string|number): App name or ID
+  - metricPath (string): Metric path (wildcards forecast up to ${MAX_ANALYSIS_SERIES} series)
+  - durationInMins (number, optional): History in minutes (default: 7 days)
+${TIME_RANGE_ARG_DOC}
+  - horizonMins (number, optional): Projection horizon in minutes (default: 1 day)
+  - threshold (number, optional): Limit to estimate the crossing time for; crossing upward when it is above the last value, downward when below
+  - model ('linear'|'holtWinters', optional): Fit one model only (default: both)
+  - seasonMins (number, optional): Holt-Winters season in minutes, 0 = none (default: 1 day)
+  - confidence (number, optional): Confidence level in percent (default: 95)
+
+Returns: Per series and model — fitted parameters, residual standard deviation, hold-out error, projected value at the horizon with lower / upper bounds, and with threshold the expected crossing time plus the earliest / latest time within the confidence bounds.`,
+      inputSchema: ForecastSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ application, metricPath, durationInMins, timeRange, horizonMins, threshold, model, seasonMins, confidence }) => {
+      try {
+        const appId = await resolveAppId(application);
+        const range = resolveTimeRange(timeRange, durationInMins, DEFAULT_FORECAST_HISTORY_MINS);
+        const horizonMs = (horizonMins ?? DEFAULT_FORECAST_HORIZON_MINS) * 60_000;
+        const level = confidence ?? 95;
+        const zScore = zForConfidence(level);
+        const models = model ? [model] : (["linear", "holtWinters"] as const);
+        const warnings: string[] = [];
+
+        const matched = await fetchSeries(appId, metricPath, range.params);
+        if (matched.length === 0) {
+          return textResponse(
+            `No data for '${metricPath}' in ${range.label}. Check the path with appd_search_metrics or appd_browse_metric_tree.`
+          );
+        }
+        if (matched.length > MAX_ANALYSIS_SERIES) {
+          warnings.push(`Path matched ${matched.length} series; forecast the first ${MAX_ANALYSIS_SERIES}.`);
+        }
+
+        const results = matched.slice(0, MAX_ANALYSIS_SERIES).map((series) => {
+          const history = regularize(metricPoints(series));
+          if (!history || history.values.length < 4) {
+            return { metricPath: series.metricPath, error: "Too few data points to fit a model (need 4)." };
+          }
+          const { start, stepMs, values } = history;
+          const n = values.length;
+          const lastTime = start + (n - 1) * stepMs;
+          const timeAt = (h: number) => formatTimestamp(lastTime + h * stepMs);
+          // A metric that has never been negative (CPU, heap, calls) is not projected below zero
+          const floor = Math.min(...values) >= 0 ? 0 : -Infinity;
+          const bounded = (v: number) => round2(Math.max(floor, v));
+          const horizonSteps = Math.max(1, Math.round(horizonMs / stepMs));
+          const searchSteps = Math.max(horizonSteps, MAX_FORECAST_STEPS);
+
+          const seasonMs = seasonMins !== undefined ? seasonMins * 60_000 : n * stepMs >= 2 * DAY_MS ? DAY_MS : 0;
+          const seasonLength = seasonMs > 0 ? Math.round(seasonMs / stepMs) : 0;
+          if (seasonLength >= 2 && n < 2 * seasonLength && models.includes("holtWinters")) {
+            warnings.push(
+              `${series.metricPath}: Holt-Winters fitted without seasonality — ${formatDuration(seasonMs)} seasons need ` +
+                `${formatDuration(2 * seasonMs)} of history.`
+            );
+          }
+
+          const forecasts = models.map((name) => {
+            const fitted = FORECAST_MODELS[name](values, seasonLength);
+            const projected = fitted.at(horizonSteps);
+            const error = models.length > 1 ? holdoutError(values, (train) => FORECAST_MODELS[name](train, seasonLength)) : null;
+            const crossing = threshold !== undefined ? thresholdCrossing(fitted, values[n - 1]!, threshold, zScore, searchSteps) : null;
+            return {
+              model: name,
+              params: roundParams(fitted.params),
+              residualStdDev: round2(fitted.sigma),
+              ...(error !== null && { holdoutMae: round2(error) }),
+              projected: {
+                time: timeAt(horizonSteps),
+                value: bounded(projected.value),
+                lower: bounded(projected.value - zScore * projected.se),
+                upper: bounded(projected.value + zScore * projected.se),
+              },
+              ...(crossing && {
+                thresholdCrossing: {
+                  direction: crossing.direction,
+                  expected: crossing.expected !== null ? timeAt(crossing.expected) : null,
+                  earliest: crossing.earliest !== null ? timeAt(crossing.earliest) : null,
+                  latest: crossing.latest !== null ? timeAt(crossing.latest) : null,
+                  ...(crossing.expected !== null && { inExpected: formatDuration(crossing.expected * stepMs) }),
+                  searchedUntil: timeAt(searchSteps),
+                },
+              }),
+            };
+          });
+          const scored = forecasts.filter((f) => f.holdoutMae !== undefined);
+          const preferred =
+            forecasts.length === 1
+              ? forecasts[0]!.model
+              : scored.length === forecasts.length
+                ? scored.reduce((best, f) => (f.holdoutMae! < best.holdoutMae! ? f : best)).model
+                : "linear";
+
+          return {
+            metricPath: series.metricPath,
+            history: {
+              from: formatTimestamp(start),
+              to: formatTimestamp(lastTime),
+              points: n,
+              step: formatDuration(stepMs),
+              last: round2(values[n - 1]!),
+            },
+            preferred,
+            forecasts,
+          };
+        });
+
+        return textResponse(
+          truncateIfNeeded({
+            timeRange: range.label,
+            horizon: formatDuration(horizonMs),
+            confidence: level,
+            ...(threshold !== undefined && { threshold }),
+            results,
+            ...(warnings.length > 0 && { warnings }),
+          })
+        );
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+
+  // ── appd_correlate_metrics ───────────────────────────────────────────────
+
+  server.registerTool(
+    "appd_correlate_metrics",
+    {
+      title: "Correlate Metrics",
+      description: `Find which metrics moved with a symptom during an incident. Correlates a target metric with a candidate set over the window, shifting each candidate up to maxLagMins either way, and ranks candidates by the strongest |correlation|.
+
+Candidates (combined when several are given):
+  - paths: explicit metric paths, wildcards allowed
+  - subtree: every leaf metric under a metric-tree folder (crawled and cached as for appd_search_metrics)
+  - entityMetrics: response time and errors of every tier and backend, CPU / heap / GC of every node — the metrics appd_diagnose_issue compares with baseline (default)
+
+At most ${MAX_CORRELATION_CANDIDATES} candidate series are analysed. Correlation is not causation: a candidate that leads the target is a lead to follow, not a verdict.
+
+Args:
+  - application (string|number): App name or ID
+  - metricPath (string): Target metric path
+  - paths (string[], optional): Candidate paths
+  - subtree (string, optional): Candidate metric-tree folder
+  - entityMetrics (boolean, optional): Tier / backend / node metrics as candidates
+  - durationInMins (number, optional): Lookback in minutes (default: 60)
+${TIME_RANGE_ARG_DOC}
+  - method ('pearson'|'spearman', optional): Ranking coefficient (default: spearman)
+  - maxLagMins (number, optional): Largest lag tried, in minutes (default: ${DEFAULT_CORRELATION_MAX_LAG_MINS})
+  - maxResults (number, optional): Results to return (default: ${DEFAULT_CORRELATION_RESULTS})
+
+Returns: The top correlated series with Pearson and Spearman coefficients at the best lag, direction (positive / negative), the lag and which side leads.`,
+      inputSchema: CorrelateSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ application, metricPath, paths, subtree, entityMetrics, durationInMins, timeRange, method, maxLagMins, maxResults }) => {
+      try {
+        const appId = await resolveAppId(application);
+        const range = resolveTimeRange(timeRange, durationInMins, DEFAULT_DURATION_MINS);
+        const ranking = method ?? "spearman";
+        const warnings: string[] = [];
+
+        const [target] = await fetchSeries(appId, metricPath, range.params);
+        if (!target) {
+          return textResponse(
+            `No data for '${metricPath}' in ${range.label}. Check the path with appd_search_metrics or appd_browse_metric_tree.`
+          );
+        }
+        if (metricPath.includes("*")) warnings.push(`Target path is a wildcard; correlated against ${target.metricPath}.`);
+        const targetPoints = metricPoints(target);
+        const gaps = targetPoints.slice(1).map((p, i) => p.time - targetPoints[i]!.time);
+        if (gaps.length < 2) {
+          return textResponse(`'${target.metricPath}' has too few data points in ${range.label} to correlate.`);
+        }
+        const stepMs = median(gaps);
+        const maxLag = Math.min(
+          Math.round(((maxLagMins ?? DEFAULT_CORRELATION_MAX_LAG_MINS) * 60_000) / stepMs),
+          Math.floor(targetPoints.length / 3)
+        );
+
+        // Candidate paths: explicit, subtree leaves, entity patterns
+        const patterns = [...(paths ?? [])];
+        if (subtree) {
+          const { index } = await getMetricIndex(appId, subtree, {
+            maxDepth: DEFAULT_METRIC_CRAWL_DEPTH,
+            maxFolders: DEFAULT_METRIC_CRAWL_FOLDERS,
+          });
+          if (index.leaves.length === 0) warnings.push(`No metrics found under '${subtree}'.`);
+          if (index.truncated) warnings.push(`'${subtree}' is larger than the crawl limits; only part of it was searched.`);
+          patterns.push(...index.leaves);
+        }
+        if (entityMetrics || (!paths?.length && !subtree)) patterns.push(...ENTITY_METRIC_PATTERNS);
+        const unique = [...new Set(patterns)];
+        if (unique.length > MAX_CORRELATION_CANDIDATES) {
+          warnings.push(`${unique.length} candidate paths; queried the first ${MAX_CORRELATION_CANDIDATES}.`);
+        }
+
+        // Bulk priority: one request per candidate path
+        const fetched = await runAsBulk(() =>
+          Promise.all(
+            unique.slice(0, MAX_CORRELATION_CANDIDATES).map((path) =>
+              fetchSeries(appId, path, range.params).catch((error: unknown) => {
+                warnings.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+                return [] as MetricData[];
+              })
+            )
+          )
+        );
+        const candidates = new Map<string, MetricData>();
+        for (const series of fetched.flat()) {
+          if (series.metricPath !== target.metricPath) candidates.set(series.metricPath, series);
+        }
+        if (candidates.size > MAX_CORRELATION_CANDIDATES) {
+          warnings.push(`${candidates.size} candidate series; analysed the first ${MAX_CORRELATION_CANDIDATES}.`);
+        }
+
+        const analysed = [...candidates.values()].slice(0, MAX_CORRELATION_CANDIDATES);
+        const correlations = analysed.flatMap((series) => {
+          const best = bestLaggedCorrelation(targetPoints, metricPoints(series), stepMs, maxLag, ranking);
+          return best ? [{ series, best }] : [];
+        });
+        const strength = (c: (typeof correlations)[number]) => Math.abs(ranking === "pearson" ? c.best.pearson : c.best.spearman);
+        correlations.sort((a, b) => strength(b) - strength(a));
+
+        const results = correlations.slice(0, maxResults ?? DEFAULT_CORRELATION_RESULTS).map(({ series, best }) => {
+          const r = ranking === "pearson" ? best.pearson : best.spearman;
+          return {
+            metricPath: series.metricPath,
+            direction: r >= 0 ? "positive" : "negative",
+            pearson: round2(best.pearson),
+            spearman: round2(best.spearman),
+            lag: best.lag === 0 ? "none" : formatDuration(Math.abs(best.lag) * stepMs),
+            leads: best.lag > 0 ? "candidate" : best.lag < 0 ? "target" : "neither",
+            points: best.pairs,
+          };
+        });
+
+        return textResponse(
+          truncateIfNeeded({
+            target: target.metricPath,
+            timeRange: range.label,
+            method: ranking,
+            maxLag: formatDuration(maxLag * stepMs),
+            candidatesAnalysed: analysed.length,
+            // Constant over the window or too little overlap with the target
+            candidatesSkipped: analysed.length - correlations.length,
+            results,
+            ...(warnings.length > 0 && { warnings }),
+          })
+        );
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+}
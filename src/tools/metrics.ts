@@ -1,15 +1,45 @@
 /**
- * Tools: appd_get_metric_data, appd_browse_metric_tree
- * Generic metric querying and metric tree browsing.
+ * Tools: appd_get_metric_data, appd_get_metrics_batch, appd_browse_metric_tree,
+ * appd_search_metrics
+ * Generic metric querying, metric tree browsing and search.
  */
 
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { appdGet } from "../services/api-client.js";
+import { getMetricIndex, searchMetricIndex } from "../services/metric-index.js";
 import { resolveAppId } from "../utils/app-resolver.js";
+import { runAsBulk } from "../utils/request-context.js";
 import { handleError, textResponse } from "../utils/error-handler.js";
-import { truncateIfNeeded } from "../utils/formatting.js";
-import { DEFAULT_DURATION_MINS } from "../constants.js";
+import {
+  truncateIfNeeded,
+  formatNumber,
+  formatTimestamp,
+  markdownTable,
+  renderMetricBlock,
+} from "../utils/formatting.js";
+import {
+  TimeRangeSchema,
+  TIME_RANGE_ARG_DOC,
+  resolveTimeRange,
+  type ResolvedTimeRange,
+} from "../utils/time-range.js";
+import {
+  metricPoints,
+  basicStats,
+  summarizeSeries,
+  lttb,
+  type MetricPoint,
+} from "../utils/metric-series.js";
+import {
+  CHARACTER_LIMIT,
+  DEFAULT_DURATION_MINS,
+  MAX_METRICS_BATCH,
+  DEFAULT_METRIC_CRAWL_DEPTH,
+  DEFAULT_METRIC_CRAWL_FOLDERS,
+  DEFAULT_METRIC_SEARCH_RESULTS,
+} from "../constants.js";
+import type { MetricData } from "../types.js";
 
 // ── Get Metric Data ────────────────────────────────────────────────────────
 
@@ -28,6 +58,7 @@ const MetricDataSchema = {
     .min(1)
     .optional()
     .describe("Time range in minutes to look back. Defaults to 60."),
+  timeRange: TimeRangeSchema.optional(),
   rollup: z
     .boolean()
     .optional()
@@ -36,8 +67,125 @@ const MetricDataSchema = {
       "Default true (aggregated). Set to false for custom metrics or per-node metrics — " +
       "custom metrics live at node level and return empty data when rolled up."
     ),
+  summarize: z
+    .boolean()
+    .optional()
+    .describe(
+      "Return statistics per metric instead of raw values: mean, p50/p90/p99, standard deviation, " +
+        "trend slope per hour and peak time, computed over the per-interval values. Default false."
+    ),
+  threshold: z
+    .number()
+    .optional()
+    .describe("With summarize: also report the percentage of intervals whose value is above this threshold."),
+  maxPoints: z
+    .number()
+    .int()
+    .min(3)
+    .max(1000)
+    .optional()
+    .describe(
+      "Downsample each series to at most this many points with LTTB, which keeps peaks and dips. " +
+        "With summarize, the downsampled series is included alongside the statistics."
+    ),
+  render: z
+    .enum(["sparkline", "chart"])
+    .optional()
+    .describe(
+      "Draw each series as text instead of returning raw values: 'sparkline' (one line) or 'chart' " +
+        "(multi-row line chart with axis labels), both annotated with min / max / latest."
+    ),
 };
 
+/** Statistics per metric (summarize mode), with an optional downsampled series. */
+function summarizeMetricData(
+  data: MetricData[],
+  range: ResolvedTimeRange,
+  threshold: number | undefined,
+  maxPoints: number | undefined
+): Array<Record<string, unknown>> {
+  return data.map((d) => {
+    const points = metricPoints(d);
+    const summary = summarizeSeries(points, threshold);
+    return {
+      metricPath: d.metricPath,
+      frequency: d.frequency,
+      timeRange: range.label,
+      ...(summary
+        ? { ...summary, peak: { value: summary.peak.value, time: formatTimestamp(summary.peak.time) } }
+        : { points: 0 }),
+      ...(summary && threshold !== undefined && { threshold }),
+      ...(maxPoints !== undefined && {
+        series: lttb(points, maxPoints, (p) => p.time, (p) => p.value).map((p) => ({
+          time: formatTimestamp(p.time),
+          value: p.value,
+        })),
+      }),
+    };
+  });
+}
+
+// ── Get Metrics Batch ──────────────────────────────────────────────────────
+
+const BatchEntrySchema = z.object({
+  application: z
+    .union([z.string(), z.number()])
+    .optional()
+    .describe("Application for this path. Defaults to the top-level application."),
+  metricPath: z.string().min(1).describe("Metric path (pipe-separated, wildcards allowed)."),
+});
+
+const MetricsBatchSchema = {
+  application: z
+    .union([z.string(), z.number()])
+    .optional()
+    .describe("Default application name or numeric ID for paths that do not name their own."),
+  metrics: z
+    .array(z.union([z.string().min(1), BatchEntrySchema]))
+    .min(1)
+    .max(MAX_METRICS_BATCH)
+    .describe(
+      `Up to ${MAX_METRICS_BATCH} metric paths. Each is a path string (uses the top-level application) ` +
+        "or {application, metricPath} to compare across applications. A wildcard path yields one row per matching entity."
+    ),
+  durationInMins: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Time range in minutes to look back. Defaults to 60."),
+  timeRange: TimeRangeSchema.optional(),
+  rollup: z
+    .boolean()
+    .optional()
+    .describe("Aggregate each path to a single value (default true). Ignored when includeSeries is true."),
+  includeSeries: z
+    .boolean()
+    .optional()
+    .describe("Also return an aligned time-series matrix (one column per row of the summary table). Default false."),
+};
+
+interface BatchRow {
+  application: string;
+  metricPath: string;
+  points: MetricPoint[];
+}
+
+/** Error text for one failed path, without the generic "Error: " prefix. */
+function batchErrorMessage(error: unknown): string {
+  return (handleError(error).content[0]?.text ?? String(error)).replace(/^Error: /, "");
+}
+
+/** Time × row matrix over the union of bucket start times. */
+function seriesMatrix(rows: BatchRow[]): string {
+  const times = [...new Set(rows.flatMap((r) => r.points.map((p) => p.time)))].sort((a, b) => a - b);
+  const byTime = rows.map((r) => new Map(r.points.map((p) => [p.time, p.value])));
+  return markdownTable(
+    ["Time", ...rows.map((_, i) => `#${i + 1}`)],
+    times.map((t) => [formatTimestamp(t), ...byTime.map((m) => formatNumber(m.get(t)))])
+  );
+}
+
 // ── Browse Metric Tree ───────────────────────────────────────────────────────
 
 const BrowseMetricTreeSchema = {
@@ -59,6 +207,56 @@ const BrowseMetricTreeSchema = {
     ),
 };
 
+// ── Search Metrics ───────────────────────────────────────────────────────────
+
+const SearchMetricsSchema = {
+  application: z
+    .union([z.string(), z.number()])
+    .describe("Application name or numeric ID."),
+  query: z
+    .string()
+    .min(1)
+    .describe(
+      "What to find. substring: words that must all appear in the path (case-insensitive). " +
+        "glob: full-path pattern where * matches within one segment and ** across segments. regex: JavaScript regex (case-insensitive)."
+    ),
+  mode: z
+    .enum(["substring", "glob", "regex"])
+    .optional()
+    .describe("How query is matched. Default 'substring'."),
+  rootPath: z
+    .string()
+    .optional()
+    .describe(
+      "Only crawl below this folder, e.g. 'Application Infrastructure Performance|Tier1'. Faster for large applications."
+    ),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe(`Maximum matches to return. Defaults to ${DEFAULT_METRIC_SEARCH_RESULTS}.`),
+  maxDepth: z
+    .number()
+    .int()
+    .min(1)
+    .max(15)
+    .optional()
+    .describe(`Levels below the root to crawl. Defaults to ${DEFAULT_METRIC_CRAWL_DEPTH}.`),
+  maxFolders: z
+    .number()
+    .int()
+    .min(1)
+    .max(20000)
+    .optional()
+    .describe(`Maximum folders to list while crawling. Defaults to ${DEFAULT_METRIC_CRAWL_FOLDERS}.`),
+  refresh: z
+    .boolean()
+    .optional()
+    .describe("Crawl again even if a cached index exists (e.g. after new custom metrics were added). Default false."),
+};
+
 export function registerMetricTools(server: McpServer): void {
   // ── appd_get_metric_data ─────────────────────────────────────────────────
 
@@ -80,9 +278,16 @@ Args:
   - application (string|number): App name or ID
   - metricPath (string): Full metric path (pipe-separated)
   - durationInMins (number, optional): Lookback in minutes (default: 60)
-  - rollup (boolean, optional): Aggregate across entities (default: true). Set false for custom/per-node metrics.
+${TIME_RANGE_ARG_DOC}
+  - rollup (boolean, optional): Aggregate across entities (default: true, or false with summarize / maxPoints / render). Set false for custom/per-node metrics.
+  - summarize (boolean, optional): Return mean, p50/p90/p99, stdDev, trendPerHour and peak instead of raw values
+  - threshold (number, optional): With summarize, adds pctAboveThreshold (% of intervals above it)
+  - maxPoints (number, optional): Downsample each series to at most N points (LTTB, 3–1000)
+  - render ('sparkline'|'chart', optional): Draw each series as text; with summarize, the statistics follow the drawing
+
+Use summarize for long windows (24h+): the raw series is large and gets truncated.
 
-Returns: Array of metric data objects with timestamps, min, max, avg, count, sum values.`,
+Returns: Array of metric data objects with timestamps, min, max, avg, count, sum values — or, with summarize, one statistics object per metric; with render, a text drawing per metric.`,
       inputSchema: MetricDataSchema,
       annotations: {
         readOnlyHint: true,
@@ -91,22 +296,172 @@ Returns: Array of metric data objects with timestamps, min, max, avg, count, sum
         openWorldHint: true,
       },
     },
-    async ({ application, metricPath, durationInMins, rollup }) => {
+    async ({ application, metricPath, durationInMins, timeRange, rollup, summarize, threshold, maxPoints, render }) => {
       try {
         const appId = await resolveAppId(application);
-        const duration = durationInMins ?? DEFAULT_DURATION_MINS;
+        const range = resolveTimeRange(timeRange, durationInMins, DEFAULT_DURATION_MINS);
+        // Statistics and downsampling need the per-interval values
+        const perInterval = (summarize ?? false) || maxPoints !== undefined || render !== undefined;
+        const effectiveRollup = rollup ?? (perInterval ? false : undefined);
 
-        const data = await appdGet(
+        const data = await appdGet<MetricData[]>(
           `/controller/rest/applications/${appId}/metric-data`,
           {
             "metric-path": metricPath,
-            "time-range-type": "BEFORE_NOW",
-            "duration-in-mins": duration,
-            ...(rollup !== undefined && { rollup }),
+            ...range.params,
+            ...(effectiveRollup !== undefined && { rollup: effectiveRollup }),
           }
         );
 
-        return textResponse(truncateIfNeeded(data));
+        if (!perInterval || !Array.isArray(data)) {
+          return textResponse(truncateIfNeeded(data));
+        }
+
+        if (render) {
+          const text = `${range.label}\n\n${renderMetricBlock(data, render)}`;
+          return textResponse(
+            summarize
+              ? `${text}\n\n${truncateIfNeeded(summarizeMetricData(data, range, threshold, undefined))}`
+              : text
+          );
+        }
+
+        if (summarize) {
+          return textResponse(truncateIfNeeded(summarizeMetricData(data, range, threshold, maxPoints)));
+        }
+
+        const downsampled = data.map((d) => ({
+          ...d,
+          metricValues: lttb(
+            [...(d.metricValues ?? [])].sort((a, b) => a.startTimeInMillis - b.startTimeInMillis),
+            maxPoints!,
+            (v) => v.startTimeInMillis,
+            (v) => v.value
+          ),
+        }));
+        return textResponse(truncateIfNeeded(downsampled));
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+
+  // ── appd_get_metrics_batch ──────────────────────────────────────────────
+
+  server.registerTool(
+    "appd_get_metrics_batch",
+    {
+      title: "Get Metrics Batch",
+      description: `Query many metric paths in one call, optionally across several applications — e.g. to compare tiers, nodes or backends side by side.
+
+Paths are fetched concurrently through the shared request limiter. A path that fails (unknown application, API error) is reported in an Errors section without failing the rest of the batch.
+
+Args:
+  - application (string|number, optional): Default app name or ID for plain path strings
+  - metrics (array): Up to ${MAX_METRICS_BATCH} entries, each a path string or {application, metricPath}
+  - durationInMins (number, optional): Lookback in minutes (default: 60)
+${TIME_RANGE_ARG_DOC}
+  - rollup (boolean, optional): Aggregate each path to one value (default: true)
+  - includeSeries (boolean, optional): Add an aligned time-series matrix (fetches with rollup=false)
+
+Returns: Markdown table with one row per metric (min, avg, max, sum, latest, data points), per-path errors, and optionally a time × metric matrix whose columns match the row numbers.`,
+      inputSchema: MetricsBatchSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ application, metrics, durationInMins, timeRange, rollup, includeSeries }) => {
+      try {
+        const range = resolveTimeRange(timeRange, durationInMins, DEFAULT_DURATION_MINS);
+        const queries = metrics.map((m) =>
+          typeof m === "string"
+            ? { application, metricPath: m }
+            : { application: m.application ?? application, metricPath: m.metricPath }
+        );
+        const missing = queries.filter((q) => q.application === undefined).map((q) => q.metricPath);
+        if (missing.length > 0) {
+          throw new Error(
+            `No application given for: ${missing.join(", ")}. Pass a top-level application or set it per entry.`
+          );
+        }
+
+        const withSeries = includeSeries ?? false;
+        const fetchRollup = withSeries ? false : (rollup ?? true);
+
+        // Bulk priority so a large batch yields to other sessions' single calls
+        const results = await runAsBulk(() =>
+          Promise.all(
+            queries.map(async (q) => {
+              const label = String(q.application);
+              try {
+                const appId = await resolveAppId(q.application!);
+                const data = await appdGet<MetricData[]>(
+                  `/controller/rest/applications/${appId}/metric-data`,
+                  { "metric-path": q.metricPath, ...range.params, rollup: fetchRollup }
+                );
+                const series = Array.isArray(data) ? data : [];
+                if (series.length === 0) {
+                  return { rows: [{ application: label, metricPath: q.metricPath, points: [] }] };
+                }
+                return {
+                  rows: series.map((d) => ({
+                    application: label,
+                    metricPath: d.metricPath || q.metricPath,
+                    points: metricPoints(d),
+                  })),
+                };
+              } catch (error) {
+                return { rows: [], error: `${label} · ${q.metricPath}: ${batchErrorMessage(error)}` };
+              }
+            })
+          )
+        );
+
+        const rows: BatchRow[] = results.flatMap((r) => r.rows);
+        const errors = results.flatMap((r) => (r.error ? [r.error] : []));
+
+        const sections = [
+          `## Metrics batch — ${range.label} (${queries.length} paths, ${rows.length} rows${errors.length ? `, ${errors.length} failed` : ""})`,
+        ];
+        if (rows.length > 0) {
+          sections.push(
+            markdownTable(
+              ["#", "Application", "Metric path", "Min", "Avg", "Max", "Sum", "Latest", "Points"],
+              rows.map((r, i) => {
+                const stats = basicStats(r.points);
+                return [
+                  String(i + 1),
+                  r.application,
+                  r.metricPath,
+                  formatNumber(stats?.min),
+                  formatNumber(stats?.avg),
+                  formatNumber(stats?.max),
+                  formatNumber(stats?.sum),
+                  formatNumber(stats?.latest),
+                  stats ? String(stats.points) : "no data",
+                ];
+              })
+            )
+          );
+        }
+        if (errors.length > 0) {
+          sections.push("## Errors", errors.map((e) => `- ${e}`).join("\n"));
+        }
+        if (withSeries && rows.some((r) => r.points.length > 0)) {
+          const matrix = seriesMatrix(rows);
+          const used = sections.join("\n\n").length;
+          sections.push(
+            "## Time series",
+            used + matrix.length <= CHARACTER_LIMIT
+              ? matrix
+              : "Matrix omitted: too large for one response. Use fewer paths or a shorter window."
+          );
+        }
+
+        return textResponse(sections.join("\n\n"));
       } catch (error) {
         return handleError(error);
       }
@@ -172,4 +527,88 @@ Returns: Array of child metric nodes with name, type (folder or leaf), and full
       }
     }
   );
+
+  // ── appd_search_metrics ──────────────────────────────────────────────────
+
+  server.registerTool(
+    "appd_search_metrics",
+    {
+      title: "Search Metrics",
+      description: `Find metric paths anywhere in an application's metric tree — e.g. a custom metric buried under 'Application Infrastructure Performance|{Tier}|Individual Nodes|{Node}|Custom Metrics'.
+
+The first search crawls the tree breadth-first (within maxDepth / maxFolders) and caches the leaf paths in memory and on disk, so later searches are instant. Use refresh after new metrics appear.
+
+Args:
+  - application (string|number): App name or ID
+  - query (string): Words (substring), a glob ('**|Individual Nodes|*|Custom Metrics|**') or a regex
+  - mode ('substring'|'glob'|'regex', optional): Default 'substring'
+  - rootPath (string, optional): Crawl only below this folder
+  - maxResults (number, optional): Default ${DEFAULT_METRIC_SEARCH_RESULTS}, max 200
+  - maxDepth (number, optional): Crawl depth (default: ${DEFAULT_METRIC_CRAWL_DEPTH})
+  - maxFolders (number, optional): Crawl size limit (default: ${DEFAULT_METRIC_CRAWL_FOLDERS})
+  - refresh (boolean, optional): Re-crawl instead of using the cached index
+
+Returns: Ranked matching paths (best first — leaf name matches, then shallower paths), each with the rollup value to pass to appd_get_metric_data, plus index details and a note when the crawl was cut short.`,
+      inputSchema: SearchMetricsSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ application, query, mode, rootPath, maxResults, maxDepth, maxFolders, refresh }) => {
+      try {
+        const appId = await resolveAppId(application);
+        const searchMode = mode ?? "substring";
+        const { index, source } = await getMetricIndex(
+          appId,
+          rootPath?.trim() || null,
+          {
+            maxDepth: maxDepth ?? DEFAULT_METRIC_CRAWL_DEPTH,
+            maxFolders: maxFolders ?? DEFAULT_METRIC_CRAWL_FOLDERS,
+          },
+          refresh ?? false
+        );
+
+        const matches = searchMetricIndex(index, query, searchMode);
+        const shown = matches.slice(0, maxResults ?? DEFAULT_METRIC_SEARCH_RESULTS);
+        const origin = source === "crawled" ? "crawled now" : `cached (${source})`;
+
+        const sections = [
+          `## Metric search — "${query}" (${searchMode}) in ${application}${index.root ? ` under ${index.root}` : ""}`,
+          `${matches.length} match${matches.length === 1 ? "" : "es"} among ${index.leaves.length} leaf paths · ` +
+            `index ${origin}, ${formatTimestamp(Date.parse(index.crawledAt))} · ${index.foldersVisited} folders listed`,
+        ];
+        if (index.truncated) {
+          sections.push(
+            `Partial index: the crawl stopped at maxDepth ${index.limits.maxDepth} / maxFolders ${index.limits.maxFolders}. ` +
+              "Raise them or pass rootPath to search deeper."
+          );
+        }
+        if (shown.length > 0) {
+          sections.push(
+            markdownTable(
+              ["#", "Metric path", "rollup"],
+              shown.map((m, i) => [String(i + 1), m.path, String(m.rollup)])
+            )
+          );
+          if (matches.length > shown.length) {
+            sections.push(`${matches.length - shown.length} more not shown; raise maxResults or narrow the query.`);
+          }
+          sections.push("Pass the rollup value shown to appd_get_metric_data (false for per-node and custom metrics).");
+        }
+        if (index.errors.length > 0) {
+          sections.push(
+            `Folders that could not be listed (${index.errors.length}):\n` +
+              index.errors.slice(0, 5).map((e) => `- ${e}`).join("\n")
+          );
+        }
+
+        return textResponse(sections.join("\n\n"));
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
 }
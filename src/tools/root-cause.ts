@@ -8,8 +8,16 @@ import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { appdGet } from "../services/api-client.js";
 import { resolveAppId } from "../utils/app-resolver.js";
+import { runAsBulk } from "../utils/request-context.js";
 import { handleError, textResponse, isAxios404 } from "../utils/error-handler.js";
 import { truncateIfNeeded, formatTimestamp } from "../utils/formatting.js";
+import {
+  TimeRangeSchema,
+  TIME_RANGE_ARG_DOC,
+  resolveTimeRange,
+  precedingTimeRange,
+} from "../utils/time-range.js";
+import { tierMetricPaths, backendMetricPaths, nodeMetricPaths } from "../utils/entity-metrics.js";
 import {
   DIAG_ERROR_EVENT_TYPES,
   DIAG_ANOMALY_EVENT_TYPES,
@@ -167,21 +175,18 @@ function extractMetricAverage(data: unknown): number | null {
 }
 
 /**
- * Fetches a single metric. When endTimeMs is provided uses BEFORE_TIME (for
- * the baseline window), otherwise BEFORE_NOW (current window).
+ * Fetches a single metric over the window described by timeParams (the
+ * current window or its baseline).
  * 404s are silently ignored (metric not instrumented).
  */
 async function fetchMetricSafe(
   appId: number,
   metricPath: string,
-  duration: number,
+  timeParams: Record<string, string | number>,
   warnings: string[],
-  endTimeMs?: number,
 ): Promise<number | null> {
   try {
-    const params = endTimeMs
-      ? { "metric-path": metricPath, "time-range-type": "BEFORE_TIME", "duration-in-mins": duration, "end-time": endTimeMs }
-      : { "metric-path": metricPath, "time-range-type": "BEFORE_NOW",  "duration-in-mins": duration };
+    const params = { "metric-path": metricPath, ...timeParams };
     const data = await appdGet(`/controller/rest/applications/${appId}/metric-data`, params);
     return extractMetricAverage(data);
   } catch (err) {
@@ -233,6 +238,7 @@ const InputSchema = {
     .min(1)
     .optional()
     .describe("Time window to analyse in minutes. Defaults to 60."),
+  timeRange: TimeRangeSchema.optional(),
   focus: z
     .enum(["all", "performance", "errors", "availability"])
     .optional()
@@ -263,6 +269,7 @@ Use this when you need to quickly understand *why* an application is behaving ba
 Args:
   - application (string|number): App name or numeric ID
   - durationInMins (number, optional): Lookback window in minutes (default: 60)
+${TIME_RANGE_ARG_DOC}
   - focus (string, optional): Narrow diagnosis to 'performance', 'errors', 'availability', or 'all' (default)
 
 Returns: A structured diagnostic report with summary, causalityChain (ordered root→effect), tierMetrics, backendAnalysis, infrastructureInsights (all with baseline comparison), ranked root cause candidates, timeline, error breakdown, sample snapshots (with sqlQueries/httpCalls/errorStackTrace), and metric-aware investigation steps.`,
@@ -274,16 +281,15 @@ Returns: A structured diagnostic report with summary, causalityChain (ordered ro
         openWorldHint: true,
       },
     },
-    async ({ application, durationInMins, focus }) => {
+    async ({ application, durationInMins, timeRange, focus }) => {
       try {
         const appId = await resolveAppId(application);
-        const duration = durationInMins ?? 60;
+        const range = resolveTimeRange(timeRange, durationInMins, 60);
         const focusMode = focus ?? "all";
 
-        const timeParams = {
-          "time-range-type": "BEFORE_NOW",
-          "duration-in-mins": duration,
-        };
+        const timeParams = range.params;
+        const windowPhrase =
+          range.type === "BEFORE_NOW" ? `in the last ${range.durationInMins} minutes` : `in the window ${range.label}`;
 
         // ── Parallel Fetches ───────────────────────────────────────────────
 
@@ -575,7 +581,7 @@ Returns: A structured diagnostic report with summary, causalityChain (ordered ro
         const phase2Warnings: string[] = [];
 
         // Baseline window ends where the current window starts
-        const baselineEndTimeMs = Date.now() - duration * 60 * 1000;
+        const baselineParams = precedingTimeRange(range).params;
 
         // Select tiers: affected first, fill from all tiers, cap
         const tiersToQuery = [
@@ -609,42 +615,44 @@ Returns: A structured diagnostic report with summary, causalityChain (ordered ro
           keyPrefix: string,
         ): [Promise<P2Entry>, Promise<P2Entry>] {
           return [
-            fetchMetricSafe(appId, metricPath, duration, phase2Warnings)
+            fetchMetricSafe(appId, metricPath, timeParams, phase2Warnings)
               .then(v => ({ key: `${keyPrefix}:cur`, value: v })),
-            fetchMetricSafe(appId, metricPath, duration, phase2Warnings, baselineEndTimeMs)
+            fetchMetricSafe(appId, metricPath, baselineParams, phase2Warnings)
               .then(v => ({ key: `${keyPrefix}:base`, value: v })),
           ];
         }
 
-        const p2Promises: Promise<P2Entry>[] = [
-          // Tier metrics (current + baseline)
-          ...tiersToQuery.flatMap(t => [
-            ...makeMetricPromises(`Overall Application Performance|${t}|Average Response Time (ms)`, `tier:${t}:avgResponseMs`),
-            ...makeMetricPromises(`Overall Application Performance|${t}|Errors per Minute`, `tier:${t}:errorsPerMin`),
-          ]),
-          // Backend metrics (current + baseline)
-          ...backendsToQuery.flatMap(b => [
-            ...makeMetricPromises(`Backends|${b.name}|Average Response Time (ms)`, `backend:${b.name}:avgResponseMs`),
-            ...makeMetricPromises(`Backends|${b.name}|Errors per Minute`, `backend:${b.name}:errorsPerMin`),
-          ]),
-          // Node infra metrics (current + baseline)
-          ...nodePairs.flatMap(({ tierName, nodeName }) => [
-            ...makeMetricPromises(
-              `Application Infrastructure Performance|${tierName}|Individual Nodes|${nodeName}|Hardware Resources|CPU|%Busy`,
-              `node:${tierName}:${nodeName}:cpu`
-            ),
-            ...makeMetricPromises(
-              `Application Infrastructure Performance|${tierName}|Individual Nodes|${nodeName}|JVM|Memory:Heap used (MB)`,
-              `node:${tierName}:${nodeName}:heap`
-            ),
-            ...makeMetricPromises(
-              `Application Infrastructure Performance|${tierName}|Individual Nodes|${nodeName}|JVM|Garbage Collection|GC Time Spent Per Min (ms)`,
-              `node:${tierName}:${nodeName}:gc`
-            ),
-          ]),
-        ];
-
-        const p2Raw = await Promise.allSettled(p2Promises);
+        // Bulk priority: these fan out widely and should yield to interactive calls
+        const p2Raw = await runAsBulk(() => {
+          const p2Promises: Promise<P2Entry>[] = [
+            // Tier metrics (current + baseline)
+            ...tiersToQuery.flatMap(t => {
+              const paths = tierMetricPaths(t);
+              return [
+                ...makeMetricPromises(paths.avgResponseMs, `tier:${t}:avgResponseMs`),
+                ...makeMetricPromises(paths.errorsPerMin, `tier:${t}:errorsPerMin`),
+              ];
+            }),
+            // Backend metrics (current + baseline)
+            ...backendsToQuery.flatMap(b => {
+              const paths = backendMetricPaths(b.name);
+              return [
+                ...makeMetricPromises(paths.avgResponseMs, `backend:${b.name}:avgResponseMs`),
+                ...makeMetricPromises(paths.errorsPerMin, `backend:${b.name}:errorsPerMin`),
+              ];
+            }),
+            // Node infra metrics (current + baseline)
+            ...nodePairs.flatMap(({ tierName, nodeName }) => {
+              const paths = nodeMetricPaths(tierName, nodeName);
+              return [
+                ...makeMetricPromises(paths.cpu, `node:${tierName}:${nodeName}:cpu`),
+                ...makeMetricPromises(paths.heap, `node:${tierName}:${nodeName}:heap`),
+                ...makeMetricPromises(paths.gc, `node:${tierName}:${nodeName}:gc`),
+              ];
+            }),
+          ];
+          return Promise.allSettled(p2Promises);
+        });
         const p2Map = new Map<string, number | null>();
         for (const r of p2Raw) {
           if (r.status === "fulfilled") p2Map.set(r.value.key, r.value.value);
@@ -837,7 +845,7 @@ Returns: A structured diagnostic report with summary, causalityChain (ordered ro
           totalAnomalies === 0 &&
           totalErrors === 0
         ) {
-          summary = `No health violations, anomalies, or error events found in the last ${duration} minutes. The application appears healthy.`;
+          summary = `No health violations, anomalies, or error events found ${windowPhrase}. The application appears healthy.`;
         } else {
           const parts: string[] = [];
           if (totalViolations > 0)
@@ -853,7 +861,7 @@ Returns: A structured diagnostic report with summary, causalityChain (ordered ro
             parts.push(
               `${totalErrors} error/infrastructure event${totalErrors !== 1 ? "s" : ""}`
             );
-          summary = `Found ${parts.join(", ")} in the last ${duration} minutes.`;
+          summary = `Found ${parts.join(", ")} ${windowPhrase}.`;
         }
 
         // ── Causality chain ────────────────────────────────────────────────
@@ -952,7 +960,7 @@ Returns: A structured diagnostic report with summary, causalityChain (ordered ro
         // ── Assemble report ────────────────────────────────────────────────
         const report = {
           summary,
-          timeWindow: `Last ${duration} minutes`,
+          timeWindow: range.label,
           ...(issueStartedAround ? { issueStartedAround } : {}),
           ...(dataFetchWarnings.length > 0 ? { dataFetchWarnings } : {}),
           topRootCauseCandidates: ranked,
@@ -0,0 +1,134 @@
+/**
+ * Tool: appd_server_info
+ * Describe this server: version, controllers, safe mode, limits, and which
+ * tools are active or were switched off by configuration.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SERVER_NAME, SERVER_VERSION } from "../constants.js";
+import {
+  getTransportConfig,
+  getSafetyConfig,
+  getRequestLimitConfig,
+  getToolFilterConfig,
+  getCacheConfig,
+  getPromptsConfig,
+  getDisplayConfig,
+} from "../config.js";
+import { listControllerNames, getDefaultControllerName, getController } from "../services/auth.js";
+import { handleError, textResponse } from "../utils/error-handler.js";
+import { markdownTable } from "../utils/formatting.js";
+import type { ToolCatalog } from "../utils/tool-middleware.js";
+import { loadCustomPrompts } from "../prompts/custom.js";
+
+/**
+ * One line per category listing its active tools, for startup logs.
+ */
+export function summarizeActiveTools(catalog: ToolCatalog): string {
+  const active = catalog.entries.filter((e) => !e.skipped);
+  const byCategory = new Map<string, string[]>();
+  for (const entry of active) {
+    const names = byCategory.get(entry.category) ?? [];
+    names.push(entry.name);
+    byCategory.set(entry.category, names);
+  }
+  const lines = [...byCategory].map(([category, names]) => `  ${category}: ${names.join(", ")}`);
+  const skipped = catalog.entries.length - active.length;
+  return `Active tools (${active.length}, ${skipped} disabled by configuration):\n${lines.join("\n")}`;
+}
+
+export function registerServerInfoTools(server: McpServer, catalog: ToolCatalog): void {
+  server.registerTool(
+    "appd_server_info",
+    {
+      title: "Server Info",
+      description: `Describe this MCP server and its configuration.
+
+Reports the server version, transport, configured controllers, safe mode, request limits, cache TTLs, the active tools grouped by category, and any tools disabled by configuration (with the reason). Makes no controller requests.
+
+Use this to learn what the server can do before planning a multi-step task, or to explain why a tool is missing.
+
+Returns: Markdown summary.`,
+      inputSchema: {},
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async () => {
+      try {
+        const transport = getTransportConfig();
+        const safety = getSafetyConfig();
+        const limits = getRequestLimitConfig();
+        const filter = getToolFilterConfig();
+        const cache = getCacheConfig();
+        const defaultController = getDefaultControllerName();
+        const promptsDir = getPromptsConfig().dir;
+        const customPrompts = loadCustomPrompts().map((p) => p.name);
+
+        const controllerRows = listControllerNames().map((name) => [
+          name,
+          getController(name).url ?? "(URL not set)",
+          name === defaultController ? "yes" : "",
+        ]);
+
+        const sections = [
+          `# ${SERVER_NAME} v${SERVER_VERSION}`,
+          markdownTable(
+            ["Setting", "Value"],
+            [
+              ["Transport", transport.mode],
+              ["Safe mode", safety.mode],
+              ["Max concurrent requests", limits.maxConcurrent === 0 ? "unlimited" : String(limits.maxConcurrent)],
+              ["Max requests / second", limits.maxPerSecond === 0 ? "unlimited" : String(limits.maxPerSecond)],
+              ["Time zone", getDisplayConfig().timeZone],
+              ["Cache TTL (topology / data)", `${cache.topologyTtlMs / 1000}s / ${cache.dataTtlMs / 1000}s`],
+              ["Enabled categories", filter.enabledCategories?.join(", ") ?? "(all)"],
+              ["Disabled categories", filter.disabledCategories.join(", ") || "(none)"],
+              ["Allow globs", filter.allowTools.join(", ") || "(none)"],
+              ["Deny globs", filter.denyTools.join(", ") || "(none)"],
+              [
+                "Custom prompts",
+                promptsDir ? `${customPrompts.join(", ") || "(none)"} — from ${promptsDir}` : "(off)",
+              ],
+            ]
+          ),
+          "## Controllers",
+          controllerRows.length > 0
+            ? markdownTable(["Name", "URL", "Default"], controllerRows)
+            : "No controllers configured.",
+        ];
+
+        const active = catalog.entries.filter((e) => !e.skipped);
+        sections.push(
+          `## Active tools (${active.length})`,
+          markdownTable(
+            ["Tool", "Category", "Access"],
+            active.map((e) => [
+              e.name,
+              e.category,
+              e.readOnly ? "read" : e.confirm ? "write (confirmation required)" : "write",
+            ])
+          )
+        );
+
+        const skipped = catalog.entries.filter((e) => e.skipped);
+        if (skipped.length > 0) {
+          sections.push(
+            `## Disabled tools (${skipped.length})`,
+            markdownTable(
+              ["Tool", "Category", "Reason"],
+              skipped.map((e) => [e.name, e.category, e.skipped ?? ""])
+            )
+          );
+        }
+
+        return textResponse(sections.join("\n\n"));
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+}
@@ -8,7 +8,8 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { appdGet } from "../services/api-client.js";
 import { resolveAppId } from "../utils/app-resolver.js";
 import { handleError, textResponse } from "../utils/error-handler.js";
-import { truncateIfNeeded } from "../utils/formatting.js";
+import { truncateIfNeeded, renderMetricBlock } from "../utils/formatting.js";
+import { TimeRangeSchema, TIME_RANGE_ARG_DOC, resolveTimeRange } from "../utils/time-range.js";
 import { DEFAULT_DURATION_MINS } from "../constants.js";
 import type { ServiceEndpoint, MetricData } from "../types.js";
 
@@ -33,6 +34,14 @@ const PerfSchema = {
     .min(1)
     .optional()
     .describe("Time range in minutes to look back. Defaults to 60."),
+  timeRange: TimeRangeSchema.optional(),
+  render: z
+    .enum(["sparkline", "chart"])
+    .optional()
+    .describe(
+      "Draw each metric as text instead of returning JSON: 'sparkline' (one line) or 'chart' " +
+        "(multi-row line chart with axis labels), both annotated with min / max / latest."
+    ),
 };
 
 export function registerServiceEndpointTools(server: McpServer): void {
@@ -118,8 +127,10 @@ Args:
   - application (string|number): App name or ID
   - sepId (number): Service endpoint ID
   - durationInMins (number, optional): Lookback in minutes (default: 60)
+${TIME_RANGE_ARG_DOC}
+  - render ('sparkline'|'chart', optional): Draw each metric over time as text instead of JSON
 
-Returns: Performance metrics for the service endpoint.`,
+Returns: Performance metrics for the service endpoint, or with render a text drawing per metric.`,
       inputSchema: PerfSchema,
       annotations: {
         readOnlyHint: true,
@@ -128,10 +139,10 @@ Returns: Performance metrics for the service endpoint.`,
         openWorldHint: true,
       },
     },
-    async ({ application, sepId, durationInMins }) => {
+    async ({ application, sepId, durationInMins, timeRange, render }) => {
       try {
         const appId = await resolveAppId(application);
-        const duration = durationInMins ?? DEFAULT_DURATION_MINS;
+        const range = resolveTimeRange(timeRange, durationInMins, DEFAULT_DURATION_MINS);
 
         const metrics = [
           "Average Response Time (ms)",
@@ -144,8 +155,9 @@ Returns: Performance metrics for the service endpoint.`,
             `/controller/rest/applications/${appId}/metric-data`,
             {
               "metric-path": `Service Endpoints|${sepId}|${metric}`,
-              "time-range-type": "BEFORE_NOW",
-              "duration-in-mins": duration,
+              ...range.params,
+              // Drawing needs the per-interval values
+              ...(render && { rollup: false }),
             }
           )
             .then((data) => ({ metric, data: data[0] ?? null }))
@@ -154,9 +166,16 @@ Returns: Performance metrics for the service endpoint.`,
 
         const metricResults = await Promise.all(metricPromises);
 
+        if (render) {
+          const series = metricResults.flatMap((r) => (r.data ? [r.data] : []));
+          return textResponse(
+            `## Service endpoint ${sepId} — ${range.label}\n\n${renderMetricBlock(series, render)}`
+          );
+        }
+
         const results: Record<string, unknown> = {
           serviceEndpointId: sepId,
-          timeRange: `Last ${duration} minutes`,
+          timeRange: range.label,
         };
 
         for (const result of metricResults) {
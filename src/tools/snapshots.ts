@@ -9,6 +9,7 @@ import { appdGet } from "../services/api-client.js";
 import { resolveAppId } from "../utils/app-resolver.js";
 import { handleError, textResponse } from "../utils/error-handler.js";
 import { truncateIfNeeded } from "../utils/formatting.js";
+import { TimeRangeSchema, TIME_RANGE_ARG_DOC, resolveTimeRange } from "../utils/time-range.js";
 import {
   DEFAULT_SNAPSHOT_DURATION_MINS,
   DEFAULT_MAX_SNAPSHOTS,
@@ -24,6 +25,7 @@ const InputSchema = {
     .min(1)
     .optional()
     .describe("Time range in minutes to look back. Defaults to 30."),
+  timeRange: TimeRangeSchema.optional(),
   guids: z
     .string()
     .optional()
@@ -61,6 +63,7 @@ Snapshots are deep diagnostic captures of individual requests. They show call gr
 Args:
   - application (string|number): App name or ID
   - durationInMins (number, optional): Lookback in minutes (default: 30)
+${TIME_RANGE_ARG_DOC}
   - guids (string, optional): Specific snapshot GUIDs
   - dataCollectorName/Type/Value (string, optional): Data collector filters
   - maxResults (number, optional): Max snapshots to return (default: 20, max: 100)
@@ -77,6 +80,7 @@ Returns: Array of snapshot objects with timing, error details, and diagnostic in
     async ({
       application,
       durationInMins,
+      timeRange,
       guids,
       dataCollectorName,
       dataCollectorType,
@@ -86,10 +90,10 @@ Returns: Array of snapshot objects with timing, error details, and diagnostic in
       try {
         const appId = await resolveAppId(application);
 
+        const range = resolveTimeRange(timeRange, durationInMins, DEFAULT_SNAPSHOT_DURATION_MINS);
+
         const params: Record<string, string | number | boolean | undefined> = {
-          "time-range-type": "BEFORE_NOW",
-          "duration-in-mins":
-            durationInMins ?? DEFAULT_SNAPSHOT_DURATION_MINS,
+          ...range.params,
           "maximum-results": maxResults ?? DEFAULT_MAX_SNAPSHOTS,
         };
 
@@ -17,6 +17,34 @@ const InputSchema = {
     .describe("Application name or numeric ID."),
 };
 
+/**
+ * Tiers of an application, each with its nodes nested.
+ */
+export async function fetchTiersWithNodes(appId: number): Promise<Array<Tier & { nodes: AppDNode[] }>> {
+  // Fetch tiers and nodes in parallel
+  const [tiers, nodes] = await Promise.all([
+    appdGet<Tier[]>(
+      `/controller/rest/applications/${appId}/tiers`
+    ),
+    appdGet<AppDNode[]>(
+      `/controller/rest/applications/${appId}/nodes`
+    ),
+  ]);
+
+  // Group nodes by tier
+  const nodesByTier = new Map<number, AppDNode[]>();
+  for (const node of nodes) {
+    const existing = nodesByTier.get(node.tierId) ?? [];
+    existing.push(node);
+    nodesByTier.set(node.tierId, existing);
+  }
+
+  return tiers.map((tier) => ({
+    ...tier,
+    nodes: nodesByTier.get(tier.id) ?? [],
+  }));
+}
+
 export function registerTiersNodesTools(server: McpServer): void {
   server.registerTool(
     "appd_get_tiers_and_nodes",
@@ -41,30 +69,7 @@ Returns: Array of tiers, each with a nested array of nodes.`,
     async ({ application }) => {
       try {
         const appId = await resolveAppId(application);
-
-        // Fetch tiers and nodes in parallel
-        const [tiers, nodes] = await Promise.all([
-          appdGet<Tier[]>(
-            `/controller/rest/applications/${appId}/tiers`
-          ),
-          appdGet<AppDNode[]>(
-            `/controller/rest/applications/${appId}/nodes`
-          ),
-        ]);
-
-        // Group nodes by tier
-        const nodesByTier = new Map<number, AppDNode[]>();
-        for (const node of nodes) {
-          const existing = nodesByTier.get(node.tierId) ?? [];
-          existing.push(node);
-          nodesByTier.set(node.tierId, existing);
-        }
-
-        const result = tiers.map((tier) => ({
-          ...tier,
-          nodes: nodesByTier.get(tier.id) ?? [],
-        }));
-
+        const result = await fetchTiersWithNodes(appId);
         return textResponse(truncateIfNeeded(result));
       } catch (error) {
         return handleError(error);
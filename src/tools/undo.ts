@@ -0,0 +1,254 @@
+/**
+ * Tools: appd_list_undo, appd_undo
+ * List recent reversible health rule / dashboard mutations and restore one
+ * from its saved before-image (see services/undo-store.ts).
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { randomUUID } from "crypto";
+import { appdGetRaw, appdPost, appdPut } from "../services/api-client.js";
+import {
+  listUndoRecords,
+  getUndoRecord,
+  markUndone,
+  recordUndo,
+  type UndoRecord,
+} from "../services/undo-store.js";
+import { getUndoConfig } from "../config.js";
+import { runWithContext } from "../utils/request-context.js";
+import { handleError, textResponse, isAxios404 } from "../utils/error-handler.js";
+import { formatTimestamp, markdownTable } from "../utils/formatting.js";
+import { ALERTING_BASE } from "./health-rules.js";
+import { importViaServlet, bindHealthListWidgets } from "./dashboards.js";
+import type { HealthRule } from "../types.js";
+
+const ListInputSchema = {
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .default(20)
+    .describe("Number of operations to list (default 20)."),
+};
+
+const UndoInputSchema = {
+  operationId: z.string().describe("ID of the operation to undo, from appd_list_undo."),
+};
+
+function withoutId(before: Record<string, unknown>): Record<string, unknown> {
+  const copy = { ...before };
+  delete copy["id"];
+  return copy;
+}
+
+/**
+ * Put a health rule back. Updates are PUT over the current rule; if the rule
+ * is gone (deleted, or the original call was a delete) it is recreated.
+ */
+async function restoreHealthRule(record: UndoRecord): Promise<string> {
+  const base = ALERTING_BASE(record.applicationId!);
+
+  if (record.operation !== "delete") {
+    try {
+      await appdPut<HealthRule>(`${base}/${record.entityId}`, record.before);
+      return `Health rule ${record.entityId} ("${record.entityName}") restored to its state before the ${record.operation}.`;
+    } catch (error) {
+      if (!isAxios404(error)) throw error;
+    }
+  }
+
+  const created = await appdPost<HealthRule>(base, withoutId(record.before));
+  return `Health rule "${record.entityName}" recreated with new ID ${created.id} (was ${record.entityId}).`;
+}
+
+/**
+ * Put a dashboard back. Updates are restored in place from the saved RESTUI
+ * dashboard via updateDashboard, so the ID and links survive; widgets removed
+ * since are re-added (their metric bindings once they have new IDs). A deleted
+ * dashboard is re-imported from its export and gets a new ID.
+ */
+async function restoreDashboard(record: UndoRecord): Promise<string> {
+  if (record.operation !== "delete") return restoreDashboardInPlace(record);
+
+  const newId = await importViaServlet(withoutId(record.before), record.entityName);
+  if (newId === null || newId === record.entityId) {
+    return `Dashboard "${record.entityName}" re-imported, but its new ID could not be determined — check appd_get_dashboards.`;
+  }
+  try {
+    await bindHealthListWidgets(newId);
+  } catch {
+    // Non-fatal
+  }
+  return `Dashboard "${record.entityName}" recreated with new ID ${newId} (was ${record.entityId}).`;
+}
+
+type Widget = Record<string, unknown>;
+
+async function restoreDashboardInPlace(record: UndoRecord): Promise<string> {
+  const path = `/controller/restui/dashboards/dashboardIfUpdated/${record.entityId}/-1`;
+  let current: Record<string, unknown>;
+  try {
+    current = await appdGetRaw<Record<string, unknown>>(path, undefined, { fresh: true });
+  } catch (error) {
+    if (!isAxios404(error)) throw error;
+    throw new Error(
+      `Dashboard ${record.entityId} ("${record.entityName}") no longer exists. Undo its deletion first, then this ${record.operation}.`
+    );
+  }
+
+  const currentIds = new Set(((current["widgets"] as Widget[] | undefined) ?? []).map((w) => w["id"]));
+  // Widgets that no longer exist are saved without criteria first: the RESTUI
+  // API needs their server-assigned id / guid before it accepts a binding
+  const criteriaByGuid = new Map<string, unknown[]>();
+  const widgets = ((record.before["widgets"] as Widget[] | undefined) ?? []).map((w) => {
+    if (currentIds.has(w["id"])) return w;
+    const guid = randomUUID();
+    const criteria = w["widgetsMetricMatchCriterias"];
+    if (Array.isArray(criteria) && criteria.length > 0) criteriaByGuid.set(guid, criteria);
+    return { ...w, id: 0, version: 0, guid, dashboardId: record.entityId, widgetsMetricMatchCriterias: null };
+  });
+
+  const saved = await appdPost<Record<string, unknown>>("/controller/restui/dashboards/updateDashboard", {
+    ...record.before,
+    version: current["version"],
+    widgets,
+  });
+
+  if (criteriaByGuid.size > 0) {
+    try {
+      const rebound = ((saved["widgets"] as Widget[] | undefined) ?? []).map((w) => {
+        const criteria = criteriaByGuid.get(w["guid"] as string);
+        if (!criteria) return w;
+        return {
+          ...w,
+          widgetsMetricMatchCriterias: criteria.map((c) => ({
+            ...(c as Record<string, unknown>),
+            id: 0,
+            version: 0,
+            widgetId: w["id"],
+            widgetGuid: w["guid"],
+          })),
+        };
+      });
+      await appdPost("/controller/restui/dashboards/updateDashboard", { ...saved, widgets: rebound });
+    } catch {
+      // Non-fatal: layout restored, re-added metric widgets may show no data
+    }
+  }
+
+  const undo = await recordUndo({
+    kind: "dashboard",
+    operation: "update",
+    entityId: record.entityId,
+    entityName: typeof current["name"] === "string" ? current["name"] : record.entityName,
+    before: current,
+  });
+  return `Dashboard ${record.entityId} ("${record.entityName}") restored in place to its state before the ${record.operation}.${undo}`;
+}
+
+function listOperations(records: UndoRecord[], limit: number): string {
+  if (records.length === 0) {
+    return "No reversible operations recorded yet.";
+  }
+  const rows = records.slice(0, limit).map((r) => [
+    r.id,
+    formatTimestamp(Date.parse(r.timestamp)),
+    r.controller,
+    r.kind === "health-rule" ? `health rule (app ${r.applicationId})` : "dashboard",
+    `${r.entityName} (${r.entityId})`,
+    r.operation,
+    r.undone ? `undone ${formatTimestamp(Date.parse(r.undone.timestamp))}` : "reversible",
+  ]);
+  return (
+    `## Recent operations (${Math.min(limit, records.length)} of ${records.length}, newest first)\n\n` +
+    markdownTable(["Operation ID", "Time", "Controller", "Kind", "Entity", "Change", "Status"], rows) +
+    `\n\nCall appd_undo with operationId to restore one.`
+  );
+}
+
+export function registerUndoTools(server: McpServer): void {
+  server.registerTool(
+    "appd_list_undo",
+    {
+      title: "List Reversible Changes",
+      description: `List recent health rule and dashboard changes made through this server that appd_undo can restore.
+
+Args:
+  - limit (number): How many operations to list (default 20)
+
+Returns: Operation ID, time, controller, entity, change and whether it was already undone — newest first.`,
+      inputSchema: ListInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ limit }) => {
+      try {
+        if (!getUndoConfig().dir) {
+          return textResponse("Undo is disabled (APPD_UNDO_DIR=off).");
+        }
+        return textResponse(listOperations(await listUndoRecords(), limit));
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+
+  server.registerTool(
+    "appd_undo",
+    {
+      title: "Undo Health Rule / Dashboard Change",
+      description: `Undo a health rule or dashboard change made through this server (see appd_list_undo for operation IDs).
+
+appd_update_health_rule, appd_enable_health_rule, appd_delete_health_rule, appd_update_dashboard, appd_add_widget_to_dashboard and appd_delete_dashboard save a before-image locally. This tool restores it:
+  - Health rule update / enable / disable: the saved rule is PUT back (same ID)
+  - Health rule delete: the rule is recreated — reports the new ID
+  - Dashboard update / add widget: the saved dashboard is written back in place (same ID); the undo can itself be undone
+  - Dashboard delete: the saved export is re-imported — reports the new ID
+
+The restore always targets the controller where the original change was made.
+
+Args:
+  - operationId (string): Operation to undo, from appd_list_undo or the original tool's response
+
+Returns: The outcome of the restore.`,
+      inputSchema: UndoInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({ operationId }) => {
+      try {
+        if (!getUndoConfig().dir) {
+          return textResponse("Undo is disabled (APPD_UNDO_DIR=off).");
+        }
+
+        const record = await getUndoRecord(operationId);
+        if (!record) {
+          throw new Error(`No operation with ID "${operationId}". Call appd_list_undo to list them.`);
+        }
+        if (record.undone) {
+          throw new Error(
+            `Operation ${operationId} was already undone at ${record.undone.timestamp}: ${record.undone.result}`
+          );
+        }
+
+        const result = await runWithContext({ controller: record.controller }, () =>
+          record.kind === "health-rule" ? restoreHealthRule(record) : restoreDashboard(record)
+        );
+        await markUndone(record, result);
+        return textResponse(result);
+      } catch (error) {
+        return handleError(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,255 @@
+/**
+ * HTTP transport for running one shared server instance.
+ *
+ * Endpoints:
+ *   POST/GET/DELETE /mcp       MCP streamable HTTP (current protocol)
+ *   GET  /sse, POST /messages  Legacy HTTP+SSE transport for older clients
+ *   GET  /health               Liveness probe
+ *
+ * Each client session gets its own McpServer instance — an McpServer can only
+ * be connected to a single transport at a time.
+ * A streamable HTTP session with no open request and none for
+ * MCP_HTTP_SESSION_IDLE_MINUTES is closed, so clients that go away without
+ * DELETE /mcp don't keep their server instance forever.
+ *
+ * With MCP_HTTP_TOKEN set, every endpoint but /health requires
+ * "Authorization: Bearer <token>". The MCP endpoints also reject Host headers
+ * outside the allowed hosts, so a web page cannot reach a loopback server
+ * through DNS rebinding.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { SERVER_NAME, SERVER_VERSION } from "../constants.js";
+import type { TransportConfig } from "../config.js";
+
+const MCP_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/health";
+
+// Reject request bodies larger than this (JSON-RPC messages are small)
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// How often idle streamable HTTP sessions are looked for (at most)
+const SESSION_SWEEP_INTERVAL_MS = 60_000;
+
+interface SessionActivity {
+  /** Time the last request started or ended. */
+  lastSeen: number;
+  /** Requests still being answered, e.g. a GET /mcp notification stream. */
+  openRequests: number;
+}
+
+/**
+ * Read and JSON-parse a request body.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buf = chunk as Buffer;
+    size += buf.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(buf);
+  }
+  const text = Buffer.concat(chunks).toString("utf-8");
+  return text.length > 0 ? JSON.parse(text) : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/** Host header values for the allowed hostnames, with and without the port. */
+function hostHeaderValues(hostnames: string[], port: number): string[] {
+  const values = hostnames.flatMap((name) => {
+    const host = name.includes(":") && !name.startsWith("[") ? `[${name}]` : name;
+    return [host, `${host}:${port}`];
+  });
+  return [...new Set(values)];
+}
+
+/** Constant-time check of the request's bearer token. */
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match?.[1]) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+/**
+ * Start the HTTP listener. Resolves once the port is bound.
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  config: TransportConfig
+): Promise<void> {
+  const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+  const sessionActivity = new Map<string, SessionActivity>();
+  const allowedHosts = hostHeaderValues(config.allowedHosts, config.port);
+  const hostValidation = { allowedHosts, enableDnsRebindingProtection: allowedHosts.length > 0 };
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    // Existing session
+    if (sessionId) {
+      const transport = streamableSessions.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, "Unknown or expired session ID");
+        return;
+      }
+      const activity = sessionActivity.get(sessionId);
+      if (activity) {
+        activity.openRequests++;
+        activity.lastSeen = Date.now();
+        res.once("close", () => {
+          activity.openRequests--;
+          activity.lastSeen = Date.now();
+        });
+      }
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    // New session — only an initialize request may open one
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Missing mcp-session-id header or not an initialize request");
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      ...hostValidation,
+      onsessioninitialized: (id) => {
+        streamableSessions.set(id, transport);
+        sessionActivity.set(id, { lastSeen: Date.now(), openRequests: 0 });
+      },
+    });
+    transport.onclose = () => {
+      if (!transport.sessionId) return;
+      streamableSessions.delete(transport.sessionId);
+      sessionActivity.delete(transport.sessionId);
+    };
+
+    await createMcpServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseOpen(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res, hostValidation);
+    sseSessions.set(transport.sessionId, transport);
+    res.on("close", () => {
+      sseSessions.delete(transport.sessionId);
+    });
+    await createMcpServer().connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get("sessionId") ?? "";
+    const transport = sseSessions.get(sessionId);
+    if (!transport) {
+      sendJsonRpcError(res, 404, "Unknown or expired SSE session");
+      return;
+    }
+    const body = await readJsonBody(req);
+    await transport.handlePostMessage(req, res, body);
+  }
+
+  const httpServer = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    const route = async (): Promise<void> => {
+      if (url.pathname === HEALTH_PATH && req.method === "GET") {
+        sendJson(res, 200, {
+          status: "ok",
+          name: SERVER_NAME,
+          version: SERVER_VERSION,
+          sessions: {
+            streamableHttp: streamableSessions.size,
+            sse: sseSessions.size,
+          },
+        });
+        return;
+      }
+      if (config.token && !isAuthorized(req, config.token)) {
+        res.writeHead(401, { "Content-Type": "application/json", "WWW-Authenticate": "Bearer" });
+        res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32001, message: "Unauthorized" }, id: null }));
+        return;
+      }
+      if (url.pathname === MCP_PATH) {
+        await handleStreamable(req, res);
+        return;
+      }
+      if (url.pathname === SSE_PATH && req.method === "GET") {
+        await handleSseOpen(res);
+        return;
+      }
+      if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+        return;
+      }
+      sendJson(res, 404, { error: "Not found" });
+    };
+
+    route().catch((error: unknown) => {
+      // Log only the message — request bodies may contain tool arguments
+      console.error(
+        `HTTP ${req.method} ${url.pathname} failed:`,
+        error instanceof Error ? error.message : "unknown error"
+      );
+      if (!res.headersSent) {
+        sendJsonRpcError(
+          res,
+          error instanceof SyntaxError ? 400 : 500,
+          error instanceof SyntaxError ? "Invalid JSON body" : "Internal server error"
+        );
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  if (config.sessionIdleMs > 0) {
+    const sweep = setInterval(() => {
+      const cutoff = Date.now() - config.sessionIdleMs;
+      for (const [id, activity] of sessionActivity) {
+        if (activity.openRequests === 0 && activity.lastSeen < cutoff) void streamableSessions.get(id)?.close();
+      }
+    }, Math.min(config.sessionIdleMs, SESSION_SWEEP_INTERVAL_MS));
+    sweep.unref();
+  }
+
+  const shutdown = (): void => {
+    for (const transport of streamableSessions.values()) void transport.close();
+    for (const transport of sseSessions.values()) void transport.close();
+    httpServer.close(() => process.exit(0));
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
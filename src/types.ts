@@ -63,19 +63,38 @@ export interface HealthRule {
   [key: string]: unknown;
 }
 
-export interface HealthRuleCondition {
-  name: string;
-  shortcutAlerted: boolean;
-  evalDetail: {
-    evalDetailType: "SINGLE_METRIC";
-    metricAggregateFunction: string;
-    metricPath: string;
-    metricEvalDetail: {
+export type MetricEvalDetail =
+  | {
       metricEvalDetailType: "SPECIFIC_TYPE";
       compareCondition: string;
       compareValue: number;
+    }
+  | {
+      metricEvalDetailType: "BASELINE_TYPE";
+      baselineCondition: string;
+      baselineName: string;
+      baselineUnit: string;
+      compareValue: number;
     };
-  };
+
+export type HealthRuleEvalDetail =
+  | {
+      evalDetailType: "SINGLE_METRIC";
+      metricAggregateFunction: string;
+      metricPath: string;
+      metricEvalDetail: MetricEvalDetail;
+    }
+  | {
+      evalDetailType: "METRIC_EXPRESSION";
+      metricExpression: string;
+      metricExpressionVariables: Array<{ variableName: string; metricAggregateFunction: string; metricPath: string }>;
+      metricEvalDetail: MetricEvalDetail;
+    };
+
+export interface HealthRuleCondition {
+  name: string;
+  shortcutAlerted: boolean;
+  evalDetail: HealthRuleEvalDetail;
 }
 
 export interface HealthRulePayload {
@@ -83,6 +102,8 @@ export interface HealthRulePayload {
   enabled: boolean;
   useDataFromLastNMinutes: number;
   waitTimeAfterViolation: number;
+  /** Schedule during which the rule is evaluated; the controller defaults to "Always". */
+  scheduleName?: string;
   affects: Record<string, unknown>;
   evalCriterias: {
     criticalCriteria: {
@@ -98,6 +119,30 @@ export interface HealthRulePayload {
   };
 }
 
+export interface ScheduleConfiguration {
+  scheduleFrequency: "DAILY" | "WEEKLY" | "CUSTOM" | string;
+  /** WEEKLY: MONDAY … SUNDAY. */
+  days?: string[];
+  /** DAILY / WEEKLY: "HH:mm" in the schedule's timezone. */
+  startTime?: string;
+  endTime?: string;
+  /** CUSTOM: Quartz cron expressions for the window's start and end. */
+  startCron?: string;
+  endCron?: string;
+  [key: string]: unknown;
+}
+
+export interface HealthRuleScheduleSummary {
+  id: number;
+  name: string;
+  description?: string;
+}
+
+export interface HealthRuleSchedule extends HealthRuleScheduleSummary {
+  timezone: string;
+  scheduleConfiguration: ScheduleConfiguration;
+}
+
 export interface HealthRuleViolation {
   id: number;
   name: string;
@@ -5,27 +5,18 @@
  */
 
 import { appdGet } from "../services/api-client.js";
+import { listControllerNames } from "../services/auth.js";
+import { invalidateCache } from "../services/response-cache.js";
 import type { AppDApplication } from "../types.js";
 
-// Simple cache of applications list (refreshed when stale)
-let cachedApps: AppDApplication[] | null = null;
-let cacheTimestamp = 0;
-const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const APPLICATIONS_PATH = "/controller/rest/applications";
 
 /**
- * Fetch and cache the list of all applications.
+ * Fetch the list of all applications for the current controller.
+ * Cached by the shared response cache (topology TTL).
  */
-async function getApplicationsList(): Promise<AppDApplication[]> {
-  if (cachedApps && Date.now() - cacheTimestamp < CACHE_TTL_MS) {
-    return cachedApps;
-  }
-
-  const apps = await appdGet<AppDApplication[]>(
-    "/controller/rest/applications"
-  );
-  cachedApps = apps;
-  cacheTimestamp = Date.now();
-  return apps;
+export async function getApplicationsList(): Promise<AppDApplication[]> {
+  return appdGet<AppDApplication[]>(APPLICATIONS_PATH);
 }
 
 /**
@@ -106,9 +97,10 @@ export async function resolveAppName(appId: number): Promise<string> {
 }
 
 /**
- * Invalidate the cached applications list.
+ * Invalidate the cached applications list for one controller, or all controllers.
  */
-export function clearAppCache(): void {
-  cachedApps = null;
-  cacheTimestamp = 0;
+export function clearAppCache(controller?: string): void {
+  for (const name of controller === undefined ? listControllerNames() : [controller]) {
+    invalidateCache(name, /^\/controller\/rest\/applications$/);
+  }
 }
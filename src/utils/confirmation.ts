@@ -0,0 +1,85 @@
+/**
+ * One-time confirmation tokens for destructive tools (safe mode "confirm").
+ *
+ * The first call to a destructive tool returns a token instead of acting. The
+ * token is bound to the tool name, the selected controller and the exact
+ * arguments, expires after a short TTL, and can be redeemed once.
+ */
+
+import { randomBytes } from "crypto";
+
+interface PendingConfirmation {
+  tool: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+const pending = new Map<string, PendingConfirmation>();
+
+/**
+ * JSON with object keys sorted, so argument order does not change the fingerprint.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function fingerprint(controller: string | undefined, args: Record<string, unknown>): string {
+  return stableStringify({ controller: controller ?? null, args });
+}
+
+function pruneExpired(now: number): void {
+  for (const [token, entry] of pending) {
+    if (entry.expiresAt <= now) pending.delete(token);
+  }
+}
+
+/**
+ * Issue a token that authorizes one call of `tool` with exactly these arguments.
+ */
+export function issueConfirmationToken(
+  tool: string,
+  controller: string | undefined,
+  args: Record<string, unknown>,
+  ttlMs: number
+): string {
+  const now = Date.now();
+  pruneExpired(now);
+  const token = randomBytes(6).toString("hex");
+  pending.set(token, { tool, fingerprint: fingerprint(controller, args), expiresAt: now + ttlMs });
+  return token;
+}
+
+/**
+ * Redeem a token. Returns null on success, otherwise the reason it was rejected.
+ * A token is consumed on any redemption attempt, successful or not.
+ */
+export function redeemConfirmationToken(
+  token: string,
+  tool: string,
+  controller: string | undefined,
+  args: Record<string, unknown>
+): string | null {
+  const entry = pending.get(token);
+  pending.delete(token);
+
+  if (!entry || entry.expiresAt <= Date.now()) {
+    return "Confirmation token is unknown, expired, or already used.";
+  }
+  if (entry.tool !== tool) {
+    return `Confirmation token was issued for ${entry.tool}, not ${tool}.`;
+  }
+  if (entry.fingerprint !== fingerprint(controller, args)) {
+    return "Arguments differ from the call that issued this confirmation token.";
+  }
+  return null;
+}
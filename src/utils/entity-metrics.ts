@@ -0,0 +1,28 @@
+/**
+ * Metric paths of the per-entity signals appd_diagnose_issue compares against
+ * baseline (Phase 2): tier and backend response time and errors, node CPU,
+ * heap and GC. Pass "*" as a name to match every tier, backend or node.
+ */
+
+export function tierMetricPaths(tier: string) {
+  return {
+    avgResponseMs: `Overall Application Performance|${tier}|Average Response Time (ms)`,
+    errorsPerMin: `Overall Application Performance|${tier}|Errors per Minute`,
+  };
+}
+
+export function backendMetricPaths(backend: string) {
+  return {
+    avgResponseMs: `Backends|${backend}|Average Response Time (ms)`,
+    errorsPerMin: `Backends|${backend}|Errors per Minute`,
+  };
+}
+
+export function nodeMetricPaths(tier: string, node: string) {
+  const base = `Application Infrastructure Performance|${tier}|Individual Nodes|${node}`;
+  return {
+    cpu: `${base}|Hardware Resources|CPU|%Busy`,
+    heap: `${base}|JVM|Memory:Heap used (MB)`,
+    gc: `${base}|JVM|Garbage Collection|GC Time Spent Per Min (ms)`,
+  };
+}
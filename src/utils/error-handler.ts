@@ -47,7 +47,7 @@ export function handleError(error: unknown): ToolResponse {
       switch (status) {
         case 401:
           return errorResponse(
-            `Authentication failed (401). Check APPD_CLIENT_NAME, APPD_CLIENT_SECRET, and APPD_ACCOUNT_NAME.`
+            `Authentication failed (401) even after refreshing the access token. Check APPD_CLIENT_NAME, APPD_CLIENT_SECRET, and APPD_ACCOUNT_NAME.`
           );
         case 403:
           return errorResponse(
@@ -59,7 +59,7 @@ export function handleError(error: unknown): ToolResponse {
           );
         case 429:
           return errorResponse(
-            `Rate limit exceeded (429). Wait a moment before retrying.`
+            `Rate limit exceeded (429). If it was a read, it was already retried with backoff; writes are never retried. The controller is under load. Narrow the query (single application, shorter window) or try again later.`
           );
         default:
           return errorResponse(`API error ${status}: ${dataStr}`);
@@ -68,7 +68,7 @@ export function handleError(error: unknown): ToolResponse {
 
     if (error.code === "ECONNABORTED") {
       return errorResponse(
-        "Request timed out. The AppDynamics controller may be slow or unreachable. Try again or increase the timeout."
+        "Request timed out (retried automatically). The AppDynamics controller may be slow or unreachable. Narrow the query or increase APPD_REQUEST_TIMEOUT_MS."
       );
     }
 
@@ -4,6 +4,9 @@
  */
 
 import { CHARACTER_LIMIT } from "../constants.js";
+import { getDisplayConfig } from "../config.js";
+import { metricPoints, lttb } from "./metric-series.js";
+import type { MetricData } from "../types.js";
 
 /**
  * Truncate a JSON response if it exceeds CHARACTER_LIMIT.
@@ -36,11 +39,53 @@ export function truncateIfNeeded(
   );
 }
 
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Calendar fields of an instant in a time zone.
+ */
+export function zonedParts(
+  ms: number,
+  timeZone: string
+): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(ms));
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    year: field("year"),
+    month: field("month"),
+    day: field("day"),
+    hour: field("hour"),
+    minute: field("minute"),
+    second: field("second"),
+  };
+}
+
 /**
- * Format a Unix timestamp (milliseconds) to a human-readable string.
+ * Format a Unix timestamp (milliseconds) to a human-readable string in the
+ * configured time zone (APPD_TIMEZONE, default UTC), e.g. "2026-10-18 14:00:00 UTC".
  */
 export function formatTimestamp(ms: number): string {
-  return new Date(ms).toISOString().replace("T", " ").replace(/\.\d{3}Z$/, " UTC");
+  const { timeZone } = getDisplayConfig();
+  if (timeZone === "UTC") {
+    return new Date(ms).toISOString().replace("T", " ").replace(/\.\d{3}Z$/, " UTC");
+  }
+  const p = zonedParts(ms, timeZone);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)} ${timeZone}`;
 }
 
 /**
@@ -54,16 +99,141 @@ export function formatDuration(ms: number): string {
 }
 
 /**
- * Build a Markdown summary table from key-value pairs.
+ * Format a metric value compactly: integers as-is, others to at most two
+ * decimals; null / NaN as "-".
+ */
+export function formatNumber(value: number | null | undefined): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) return "-";
+  if (Number.isInteger(value)) return String(value);
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Build a Markdown summary table from key-value pairs. Pipes inside cells
+ * (metric paths) are escaped.
  */
 export function markdownTable(
   headers: string[],
   rows: string[][]
 ): string {
-  const header = `| ${headers.join(" | ")} |`;
+  const cell = (text: string) => text.replace(/\|/g, "\\|");
+  const header = `| ${headers.map(cell).join(" | ")} |`;
   const separator = `| ${headers.map(() => "---").join(" | ")} |`;
   const body = rows
-    .map((row) => `| ${row.join(" | ")} |`)
+    .map((row) => `| ${row.map(cell).join(" | ")} |`)
     .join("\n");
   return `${header}\n${separator}\n${body}`;
 }
+
+// ── Metric rendering ─────────────────────────────────────────────────────────
+
+export type MetricRenderMode = "sparkline" | "chart";
+
+const SPARK_CHARS = ["▁", "▂", "▃", "▄", "▅", "▆", "▇", "█"];
+
+/** Widest series drawn; longer series are downsampled (LTTB) to this. */
+export const RENDER_MAX_WIDTH = 60;
+const CHART_HEIGHT = 8;
+
+/**
+ * One-line unicode sparkline of `values`, scaled between their min and max.
+ */
+export function sparkline(values: number[]): string {
+  if (values.length === 0) return "";
+  const min = Math.min(...values);
+  const span = Math.max(...values) - min;
+  return values
+    .map((v) => SPARK_CHARS[span === 0 ? 3 : Math.round(((v - min) / span) * (SPARK_CHARS.length - 1))])
+    .join("");
+}
+
+/**
+ * Multi-row line chart of `values` with a labelled y-axis (max, middle, min),
+ * one column per value.
+ */
+export function lineChart(values: number[], height = CHART_HEIGHT): string[] {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min;
+  const rowOf = (v: number) => (span === 0 ? Math.floor((height - 1) / 2) : Math.round(((v - min) / span) * (height - 1)));
+
+  const grid = Array.from({ length: height }, () => Array<string>(values.length).fill(" "));
+  let previous: number | null = null;
+  values.forEach((v, col) => {
+    const row = rowOf(v);
+    if (previous !== null) {
+      // Vertical connector from the previous point
+      for (let r = Math.min(row, previous) + 1; r < Math.max(row, previous); r++) grid[r]![col] = "│";
+    }
+    grid[row]![col] = "•";
+    previous = row;
+  });
+
+  const middle = Math.floor((height - 1) / 2);
+  const labels = new Map<number, string>(
+    span === 0
+      ? [[middle, formatNumber(min)]]
+      : [
+          [height - 1, formatNumber(max)],
+          [middle, formatNumber((min + max) / 2)],
+          [0, formatNumber(min)],
+        ]
+  );
+  const labelWidth = Math.max(...[...labels.values()].map((l) => l.length));
+
+  const lines: string[] = [];
+  for (let row = height - 1; row >= 0; row--) {
+    const label = labels.get(row);
+    lines.push(`${(label ?? "").padStart(labelWidth)} ${label !== undefined ? "┤" : "│"}${grid[row]!.join("").trimEnd()}`);
+  }
+  lines.push(`${" ".repeat(labelWidth)} └${"─".repeat(values.length)}`);
+  return lines;
+}
+
+/**
+ * Render one metric's values as a sparkline or line chart, with min / max /
+ * latest annotations and the covered time span.
+ */
+export function renderMetricSeries(data: MetricData, mode: MetricRenderMode): string {
+  const all = metricPoints(data);
+  if (all.length === 0) return `${data.metricPath}\n(no data)`;
+
+  const points = lttb(all, RENDER_MAX_WIDTH, (p) => p.time, (p) => p.value);
+  const values = points.map((p) => p.value);
+  const lowest = all.reduce((best, p) => (p.value < best.value ? p : best), all[0]!);
+  const highest = all.reduce((best, p) => (p.value > best.value ? p : best), all[0]!);
+  const latest = all[all.length - 1]!;
+
+  const annotation =
+    `min ${formatNumber(lowest.value)} at ${formatTimestamp(lowest.time)} · ` +
+    `max ${formatNumber(highest.value)} at ${formatTimestamp(highest.time)} · ` +
+    `latest ${formatNumber(latest.value)}`;
+  const span =
+    `${formatTimestamp(all[0]!.time)} → ${formatTimestamp(latest.time)}` +
+    ` (${all.length} points${points.length < all.length ? `, drawn as ${points.length}` : ""})`;
+
+  if (mode === "sparkline") {
+    return [data.metricPath, `${sparkline(values)}  ${annotation}`, span].join("\n");
+  }
+  return [data.metricPath, ...lineChart(values), span, annotation].join("\n");
+}
+
+/**
+ * Render several metrics in one fenced block, stopping before the response
+ * would exceed CHARACTER_LIMIT.
+ */
+export function renderMetricBlock(series: MetricData[], mode: MetricRenderMode): string {
+  const drawings: string[] = [];
+  let length = 0;
+  for (const data of series) {
+    const drawing = renderMetricSeries(data, mode);
+    if (length + drawing.length > CHARACTER_LIMIT - 200) {
+      drawings.push(`--- ${series.length - drawings.length} more series not drawn. Narrow the metric path. ---`);
+      break;
+    }
+    drawings.push(drawing);
+    length += drawing.length + 2;
+  }
+  return `\`\`\`\n${drawings.join("\n\n")}\n\`\`\``;
+}
@@ -0,0 +1,190 @@
+/**
+ * Health rule conditions: a single metric or a metric expression, compared
+ * with a fixed value or with a baseline.
+ */
+
+import { z } from "zod";
+import type { HealthRuleCondition, HealthRuleEvalDetail, MetricEvalDetail } from "../types.js";
+
+/**
+ * Aggregate functions accepted by the tools, mapped to the alerting API's
+ * names. AVERAGE is an alias of VALUE, which is the average over the window.
+ */
+const AGGREGATE_FUNCTIONS = {
+  VALUE: "VALUE",
+  AVERAGE: "VALUE",
+  SUM: "SUM",
+  MIN: "MINIMUM",
+  MAX: "MAXIMUM",
+  COUNT: "COUNT",
+  CURRENT: "CURRENT",
+} as const;
+
+type AggregateFunction = keyof typeof AGGREGATE_FUNCTIONS;
+
+/**
+ * The controller's built-in baselines by trend. A rule can also name any
+ * baseline configured on the application with baseline.name.
+ */
+export const TREND_BASELINES = {
+  NONE: "All Data - Last 15 Days",
+  DAILY: "Daily Trend - Last 30 Days",
+  WEEKLY: "Weekly Trend - Last 3 Months",
+  MONTHLY: "Monthly Trend - Last 1 Year",
+} as const;
+
+const BASELINE_CONDITIONS = {
+  ABOVE: "GREATER_THAN_BASELINE",
+  BELOW: "LESS_THAN_BASELINE",
+  WITHIN: "WITHIN_BASELINE",
+  NOT_WITHIN: "NOT_WITHIN_BASELINE",
+} as const;
+
+const AggregateSchema = z
+  .enum(Object.keys(AGGREGATE_FUNCTIONS) as [AggregateFunction, ...AggregateFunction[]])
+  .optional()
+  .describe("How the metric is aggregated over the evaluation window: VALUE / AVERAGE (default), SUM, MIN, MAX, COUNT, CURRENT.");
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const BaselineSchema = z.object({
+  name: z
+    .string()
+    .optional()
+    .describe("Baseline configured on the application. Overrides trend."),
+  trend: z
+    .enum(Object.keys(TREND_BASELINES) as [keyof typeof TREND_BASELINES, ...Array<keyof typeof TREND_BASELINES>])
+    .optional()
+    .describe(
+      "Use the built-in baseline with this trend: DAILY (default, last 30 days), WEEKLY (last 3 months), MONTHLY (last year), NONE (all data, last 15 days)."
+    ),
+  unit: z
+    .enum(["STANDARD_DEVIATIONS", "PERCENTAGE"])
+    .default("STANDARD_DEVIATIONS")
+    .describe("threshold is a number of standard deviations (default) or a percentage of the baseline."),
+  compare: z
+    .enum(["ABOVE", "BELOW", "WITHIN", "NOT_WITHIN"])
+    .default("ABOVE")
+    .describe("ABOVE = more than threshold above baseline (default); BELOW; WITHIN / NOT_WITHIN = inside / outside ± threshold."),
+});
+
+const VariableSchema = z.object({
+  name: z.string().regex(VARIABLE_NAME).describe("Variable name, referenced in the expression as {name}."),
+  metricPath: z.string().describe("Metric path relative to the affected entity, e.g. \"Errors per Minute\"."),
+  aggregateFunction: AggregateSchema,
+});
+
+export const ConditionSchema = z
+  .object({
+    metricPath: z
+      .string()
+      .optional()
+      .describe(
+        "Metric path relative to the affected entity (omit for expression conditions). " +
+          'For TIER_NODE_HEALTH: use short paths like "Custom Metrics|MyMetric" or "Hardware Resources|CPU|%Busy". ' +
+          'Do NOT use the full absolute path (e.g. "Application Infrastructure Performance|Tier|...").'
+      ),
+    threshold: z
+      .number()
+      .describe("Threshold value — or, with baseline, the number of standard deviations / percent from the baseline."),
+    operator: z
+      .enum(["GREATER_THAN", "LESS_THAN", "GREATER_THAN_EQUALS", "LESS_THAN_EQUALS", "EQUALS", "NOT_EQUALS"])
+      .default("GREATER_THAN")
+      .describe("Comparison operator for fixed thresholds. NOT_EQUALS is supported for CUSTOM (SIM) entity type rules."),
+    name: z.string().optional().describe("Condition name (auto-generated if omitted)"),
+    aggregateFunction: AggregateSchema,
+    baseline: BaselineSchema.optional().describe(
+      "Compare the metric with a baseline instead of a fixed value, e.g. { trend: \"DAILY\", unit: \"STANDARD_DEVIATIONS\" } with threshold 3."
+    ),
+    expression: z
+      .string()
+      .optional()
+      .describe("Metric expression over named variables, e.g. \"{errors} / {calls} * 100\". Use instead of metricPath."),
+    variables: z
+      .array(VariableSchema)
+      .optional()
+      .describe("Variables of the expression: name, metricPath and aggregateFunction."),
+  })
+  .superRefine((c, ctx) => {
+    const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    if ((c.metricPath === undefined) === (c.expression === undefined)) {
+      issue("Give either metricPath or expression (with variables).");
+      return;
+    }
+    if (c.expression === undefined) {
+      if (c.variables) issue("variables are only used with expression.");
+      return;
+    }
+    if (c.baseline) issue("Baseline comparisons apply to single-metric conditions only.");
+    if (c.aggregateFunction) issue("Set aggregateFunction on each variable of an expression condition.");
+    const defined = new Set((c.variables ?? []).map((v) => v.name));
+    const used = new Set([...c.expression.matchAll(/\{([^}]*)\}/g)].map((m) => m[1]!));
+    if (used.size === 0) issue("The expression references no variables — write them as {name}.");
+    for (const name of used) {
+      if (!defined.has(name)) issue(`Expression variable {${name}} is not defined in variables.`);
+    }
+    for (const name of defined) {
+      if (!used.has(name)) issue(`Variable '${name}' is not used in the expression.`);
+    }
+    if (defined.size !== (c.variables ?? []).length) issue("Variable names must be unique.");
+  });
+
+export type ConditionInput = z.infer<typeof ConditionSchema>;
+
+function buildMetricEvalDetail(c: ConditionInput): MetricEvalDetail {
+  if (c.baseline) {
+    return {
+      metricEvalDetailType: "BASELINE_TYPE",
+      baselineCondition: BASELINE_CONDITIONS[c.baseline.compare],
+      baselineName: c.baseline.name ?? TREND_BASELINES[c.baseline.trend ?? "DAILY"],
+      baselineUnit: c.baseline.unit,
+      compareValue: c.threshold,
+    };
+  }
+  return { metricEvalDetailType: "SPECIFIC_TYPE", compareCondition: c.operator, compareValue: c.threshold };
+}
+
+function buildEvalDetail(c: ConditionInput): HealthRuleEvalDetail {
+  if (c.expression !== undefined) {
+    return {
+      evalDetailType: "METRIC_EXPRESSION",
+      metricExpression: c.expression,
+      metricExpressionVariables: (c.variables ?? []).map((v) => ({
+        variableName: v.name,
+        metricAggregateFunction: AGGREGATE_FUNCTIONS[v.aggregateFunction ?? "VALUE"],
+        metricPath: v.metricPath,
+      })),
+      metricEvalDetail: buildMetricEvalDetail(c),
+    };
+  }
+  return {
+    evalDetailType: "SINGLE_METRIC",
+    metricAggregateFunction: AGGREGATE_FUNCTIONS[c.aggregateFunction ?? "VALUE"],
+    metricPath: c.metricPath!,
+    metricEvalDetail: buildMetricEvalDetail(c),
+  };
+}
+
+export function buildConditions(items: ConditionInput[], simFormat = false): HealthRuleCondition[] {
+  return items.map((c, i) => {
+    const evalDetail = buildEvalDetail(c);
+    // SIM (CUSTOM entity type) requires extra fields and uses _SPECIFIC_VALUE suffix on operators
+    if (simFormat) {
+      return {
+        name: c.name ?? `Condition ${i + 1}`,
+        shortName: String.fromCharCode(65 + i), // A, B, C…
+        evaluateToTrueOnNoData: false,
+        violationStatusOnNoData: "UNKNOWN",
+        wildcardMetricMatchType: "DEFAULT_ALL_METRIC_PATH",
+        evalDetail: { ...evalDetail, inputMetricText: false },
+        triggerEnabled: false,
+        minimumTriggers: 0,
+      } as unknown as HealthRuleCondition;
+    }
+    return {
+      name: c.name ?? `Condition ${i + 1}`,
+      shortcutAlerted: false,
+      evalDetail,
+    };
+  });
+}
@@ -0,0 +1,359 @@
+/**
+ * Health rules as files: a normalized, diffable form of alerting-API rules,
+ * one file per rule, and the create / update / delete plan that brings a
+ * controller in line with a directory of them.
+ *
+ * Files are matched to rules by name, not ID, so a directory exported from
+ * one application or controller can be synced to another.
+ */
+
+import { access, mkdir, readdir, readFile, unlink, writeFile } from "fs/promises";
+import { extname, join } from "path";
+import { toYaml, parseYaml } from "./yaml.js";
+
+export type RuleFileFormat = "yaml" | "json";
+
+export type RuleDefinition = Record<string, unknown> & { name: string };
+
+const RULE_FILE_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+/**
+ * Written next to the rule files by every export: which files that export
+ * wrote, and which an earlier export wrote that are no longer current. Only
+ * those, and files that parse as complete health rules, are ever pruned.
+ */
+const MANIFEST_FILE = ".health-rules-manifest.json";
+
+interface Manifest {
+  files: string[];
+  stale: string[];
+}
+
+/** Top-level keys in reading order; anything else follows alphabetically. */
+const KEY_ORDER = [
+  "name",
+  "enabled",
+  "scheduleName",
+  "useDataFromLastNMinutes",
+  "waitTimeAfterViolation",
+  "splitEventsByMetrics",
+  "affects",
+  "evalCriterias",
+];
+
+// ── Normalization ─────────────────────────────────────────────────────────────
+
+function sortDeep(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortDeep);
+  if (value === null || typeof value !== "object") return value;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== null && v !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => [k, sortDeep(v)] as const);
+  return Object.fromEntries(entries);
+}
+
+/**
+ * A rule without its ID or null fields, with keys in a stable order — the
+ * same rule always serializes to the same text.
+ */
+export function normalizeRule(rule: Record<string, unknown>): RuleDefinition {
+  const { id: _id, ...rest } = rule;
+  const sorted = sortDeep(rest) as Record<string, unknown>;
+  const rank = (key: string) => {
+    const i = KEY_ORDER.indexOf(key);
+    return i === -1 ? KEY_ORDER.length : i;
+  };
+  const keys = Object.keys(sorted).sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+  return Object.fromEntries(keys.map((k) => [k, sorted[k]])) as RuleDefinition;
+}
+
+export function serializeRule(rule: RuleDefinition, format: RuleFileFormat): string {
+  return format === "yaml" ? toYaml(rule) : `${JSON.stringify(rule, null, 2)}\n`;
+}
+
+/** File name for a rule: its name slugified, e.g. "payment-response-time.yaml". */
+export function ruleFileName(name: string, format: RuleFileFormat, taken: Set<string>): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9_]+/g, "-").replace(/^-+|-+$/g, "") || "rule";
+  let file = `${slug}.${format}`;
+  for (let n = 2; taken.has(file); n++) file = `${slug}-${n}.${format}`;
+  taken.add(file);
+  return file;
+}
+
+// ── Directory I/O ─────────────────────────────────────────────────────────────
+
+export interface RuleFile {
+  file: string;
+  rule: RuleDefinition;
+}
+
+/** .yaml / .yml / .json files in the directory; hidden files (the manifest) are skipped. */
+async function listRuleFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    return entries
+      .filter(
+        (e) => e.isFile() && !e.name.startsWith(".") && RULE_FILE_EXTENSIONS.includes(extname(e.name).toLowerCase())
+      )
+      .map((e) => e.name)
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function parseRuleFile(dir: string, file: string): Promise<unknown> {
+  const text = await readFile(join(dir, file), "utf-8");
+  return extname(file).toLowerCase() === ".json" ? JSON.parse(text) : parseYaml(text);
+}
+
+/** A complete rule as an export writes it — not just any YAML / JSON with a name. */
+function isCompleteRule(value: unknown): boolean {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const rule = value as Record<string, unknown>;
+  return (
+    typeof rule["name"] === "string" &&
+    !!rule["affects"] && typeof rule["affects"] === "object" &&
+    !!rule["evalCriterias"] && typeof rule["evalCriterias"] === "object"
+  );
+}
+
+async function readManifest(dir: string): Promise<Manifest | null> {
+  try {
+    const parsed = JSON.parse(await readFile(join(dir, MANIFEST_FILE), "utf-8")) as Partial<Manifest>;
+    return { files: parsed.files ?? [], stale: parsed.stale ?? [] };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw new Error(`Unreadable ${MANIFEST_FILE} in ${dir}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function writeManifest(dir: string, manifest: Manifest): Promise<void> {
+  await writeFile(join(dir, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`, "utf-8");
+}
+
+const exists = (path: string) => access(path).then(() => true, () => false);
+
+/**
+ * Rule files the last export did not write that pruning may delete: those an
+ * earlier export wrote, and those that parse as complete rules. Anything else
+ * (package.json, config.yaml, a half-written rule) is never a candidate.
+ */
+async function staleRuleFiles(dir: string, manifest: Manifest): Promise<string[]> {
+  const stale: string[] = [];
+  for (const file of await listRuleFiles(dir)) {
+    if (manifest.files.includes(file)) continue;
+    if (manifest.stale.includes(file) || isCompleteRule(await parseRuleFile(dir, file).catch(() => null))) {
+      stale.push(file);
+    }
+  }
+  return stale;
+}
+
+/**
+ * Write one file per rule and the manifest. Returns the files written and the
+ * stale rule files left in the directory (see pruneRuleFiles).
+ */
+export async function writeRuleFiles(
+  dir: string,
+  rules: RuleDefinition[],
+  format: RuleFileFormat
+): Promise<{ written: RuleFile[]; stale: string[] }> {
+  await mkdir(dir, { recursive: true });
+  const previous = (await readManifest(dir)) ?? { files: [], stale: [] };
+  const taken = new Set<string>();
+  const written: RuleFile[] = [];
+  for (const rule of [...rules].sort((a, b) => a.name.localeCompare(b.name))) {
+    const file = ruleFileName(rule.name, format, taken);
+    await writeFile(join(dir, file), serializeRule(rule, format), "utf-8");
+    written.push({ file, rule });
+  }
+
+  const files = written.map((w) => w.file);
+  const carried: string[] = [];
+  for (const file of new Set([...previous.files, ...previous.stale])) {
+    if (!taken.has(file) && (await exists(join(dir, file)))) carried.push(file);
+  }
+  const manifest = { files, stale: carried.sort() };
+  await writeManifest(dir, manifest);
+  return { written, stale: await staleRuleFiles(dir, manifest) };
+}
+
+/**
+ * Delete the stale rule files of an exported directory. Throws when the
+ * directory has no manifest, i.e. was never exported to.
+ */
+export async function pruneRuleFiles(dir: string): Promise<{ deleted: string[]; kept: string[] }> {
+  const manifest = await readManifest(dir);
+  if (!manifest) {
+    throw new Error(`${dir} has no ${MANIFEST_FILE}; export to it with appd_export_health_rules first.`);
+  }
+  const deleted = await staleRuleFiles(dir, manifest);
+  for (const file of deleted) await unlink(join(dir, file));
+  await writeManifest(dir, { files: manifest.files, stale: [] });
+  const kept = (await listRuleFiles(dir)).filter((f) => !manifest.files.includes(f));
+  return { deleted, kept };
+}
+
+/**
+ * Read every .yaml / .yml / .json rule file in a directory. A file needs a
+ * name; affects and evalCriterias, when present, must be mappings (planSync
+ * requires them for new rules). Throws listing every invalid file and
+ * duplicate rule name, so nothing is applied from a half-valid directory.
+ */
+export async function readRuleFiles(dir: string): Promise<RuleFile[]> {
+  const files = await listRuleFiles(dir);
+  if (files.length === 0) throw new Error(`No .yaml, .yml or .json health rule files in ${dir}.`);
+
+  const problems: string[] = [];
+  const ruleFiles: RuleFile[] = [];
+  for (const file of files) {
+    let parsed: unknown;
+    try {
+      parsed = await parseRuleFile(dir, file);
+    } catch (error) {
+      problems.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    const rule = parsed as Record<string, unknown> | null;
+    if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+      problems.push(`${file}: missing a mapping at the top level`);
+      continue;
+    }
+    if (typeof rule["name"] !== "string" || rule["name"] === "") {
+      problems.push(`${file}: missing name`);
+      continue;
+    }
+    const notMappings = ["affects", "evalCriterias"].filter(
+      (key) => key in rule && (!rule[key] || typeof rule[key] !== "object" || Array.isArray(rule[key]))
+    );
+    if (notMappings.length > 0) {
+      problems.push(`${file}: ${notMappings.join(", ")} must be a mapping`);
+      continue;
+    }
+    ruleFiles.push({ file, rule: normalizeRule(rule!) });
+  }
+
+  const byName = new Map<string, string[]>();
+  for (const { file, rule } of ruleFiles) byName.set(rule.name, [...(byName.get(rule.name) ?? []), file]);
+  for (const [name, sameName] of byName) {
+    if (sameName.length > 1) problems.push(`rule "${name}" is defined in ${sameName.join(", ")}`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid health rule files in ${dir}:\n  - ${problems.join("\n  - ")}`);
+  }
+  return ruleFiles;
+}
+
+// ── Plan ──────────────────────────────────────────────────────────────────────
+
+export interface ControllerRule {
+  id: number;
+  rule: RuleDefinition;
+}
+
+export type PlanStep =
+  | { action: "create"; file: string; rule: RuleDefinition }
+  | { action: "update"; file: string; id: number; rule: RuleDefinition; changes: string[] }
+  | { action: "delete"; id: number; name: string }
+  | { action: "unchanged"; file: string; id: number; name: string };
+
+const MAX_CHANGES_LISTED = 10;
+
+function brief(value: unknown): string {
+  const text = value === undefined ? "(unset)" : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/** "path: old → new" for every differing leaf of two normalized values. */
+function diffValues(before: unknown, after: unknown, path: string, out: string[]): void {
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+  const bothObjects =
+    before !== null && after !== null && typeof before === "object" && typeof after === "object" &&
+    Array.isArray(before) === Array.isArray(after);
+  if (!bothObjects) {
+    out.push(`${path}: ${brief(before)} → ${brief(after)}`);
+    return;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (before.length !== after.length) {
+      out.push(`${path}: ${before.length} items → ${after.length} items`);
+      return;
+    }
+    before.forEach((item, i) => diffValues(item, after[i], `${path}[${i}]`, out));
+    return;
+  }
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    diffValues(a[key], b[key], path ? `${path}.${key}` : key, out);
+  }
+}
+
+/**
+ * The steps that make the controller match the files. A file only sets the
+ * top-level fields it contains; the rest of an existing rule is kept, so a
+ * partial file (e.g. just name and enabled) can update a rule. Creating a
+ * rule needs affects and evalCriterias — throws listing every file that
+ * lacks them. Rules without a file are deleted when deleteMissing is set.
+ */
+export function planSync(files: RuleFile[], current: ControllerRule[], deleteMissing: boolean): PlanStep[] {
+  const byName = new Map(current.map((c) => [c.rule.name, c]));
+  const steps: PlanStep[] = [];
+  const partial: string[] = [];
+  for (const { file, rule } of files) {
+    const existing = byName.get(rule.name);
+    if (!existing) {
+      const missing = ["affects", "evalCriterias"].filter((key) => !(key in rule));
+      if (missing.length > 0) partial.push(`${file}: "${rule.name}" does not exist yet, so the file needs ${missing.join(" and ")}`);
+      steps.push({ action: "create", file, rule });
+      continue;
+    }
+    byName.delete(rule.name);
+    const merged = normalizeRule({ ...existing.rule, ...rule });
+    const changes: string[] = [];
+    diffValues(existing.rule, merged, "", changes);
+    steps.push(
+      changes.length === 0
+        ? { action: "unchanged", file, id: existing.id, name: rule.name }
+        : { action: "update", file, id: existing.id, rule: merged, changes }
+    );
+  }
+  if (partial.length > 0) {
+    throw new Error(`Cannot create rules from partial files:\n  - ${partial.join("\n  - ")}`);
+  }
+  if (deleteMissing) {
+    for (const { id, rule } of byName.values()) steps.push({ action: "delete", id, name: rule.name });
+  }
+  return steps;
+}
+
+/** Plan as text: one line per step, changed fields indented under updates. */
+export function formatPlan(steps: PlanStep[]): string {
+  const lines: string[] = [];
+  for (const step of steps) {
+    switch (step.action) {
+      case "create":
+        lines.push(`+ create "${step.rule.name}" (${step.file})`);
+        break;
+      case "update":
+        lines.push(`~ update "${step.rule.name}" #${step.id} (${step.file})`);
+        for (const change of step.changes.slice(0, MAX_CHANGES_LISTED)) lines.push(`    ${change}`);
+        if (step.changes.length > MAX_CHANGES_LISTED) {
+          lines.push(`    ... and ${step.changes.length - MAX_CHANGES_LISTED} more`);
+        }
+        break;
+      case "delete":
+        lines.push(`- delete "${step.name}" #${step.id} (no file)`);
+        break;
+      case "unchanged":
+        break;
+    }
+  }
+  const unchanged = steps.filter((s) => s.action === "unchanged");
+  if (unchanged.length > 0) lines.push(`= ${unchanged.length} unchanged`);
+  return lines.join("\n");
+}
@@ -0,0 +1,155 @@
+/**
+ * Health rule schedules: the time windows during which a rule is evaluated
+ * (business hours, weekdays only, a nightly batch window, ...).
+ *
+ * Rules refer to a schedule by name. Names given to appd_create_health_rule /
+ * appd_update_health_rule are checked against the application's schedules
+ * first, so a typo fails instead of being rejected (or ignored) by the
+ * controller.
+ */
+
+import { z } from "zod";
+import { appdGet } from "../services/api-client.js";
+import type { HealthRuleSchedule, HealthRuleScheduleSummary, ScheduleConfiguration } from "../types.js";
+
+export const SCHEDULES_BASE = (appId: number) =>
+  `/controller/alerting/rest/v1/applications/${appId}/schedules`;
+
+const WEEKDAYS = ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY", "SUNDAY"] as const;
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// ── Input schema ──────────────────────────────────────────────────────────────
+
+/** Arguments of appd_create_health_rule_schedule. */
+export const ScheduleInputSchema = {
+  name: z.string().min(1).describe("Schedule name, e.g. \"Batch window: 1am-5am\"."),
+  description: z.string().optional().describe("Optional description."),
+  timezone: z
+    .string()
+    .default("UTC")
+    .describe("IANA timezone the times are in, e.g. \"Europe/Berlin\". Default UTC."),
+  frequency: z
+    .enum(["DAILY", "WEEKLY", "CUSTOM"])
+    .describe("DAILY = every day between startTime and endTime; WEEKLY = on the given days; CUSTOM = cron expressions."),
+  days: z
+    .array(z.enum(WEEKDAYS))
+    .min(1)
+    .optional()
+    .describe("WEEKLY: days the window starts on, e.g. [\"MONDAY\", \"TUESDAY\"]."),
+  startTime: z
+    .string()
+    .regex(TIME_OF_DAY, "Use HH:mm (24-hour)")
+    .optional()
+    .describe("DAILY / WEEKLY: window start, HH:mm (24-hour)."),
+  endTime: z
+    .string()
+    .regex(TIME_OF_DAY, "Use HH:mm (24-hour)")
+    .optional()
+    .describe("DAILY / WEEKLY: window end, HH:mm. Earlier than startTime = the window runs past midnight."),
+  startCron: z
+    .string()
+    .optional()
+    .describe("CUSTOM: Quartz cron expression for the window start, e.g. \"0 0 1 ? * MON-FRI\"."),
+  endCron: z.string().optional().describe("CUSTOM: Quartz cron expression for the window end."),
+};
+
+export interface ScheduleInput {
+  name: string;
+  description?: string;
+  timezone: string;
+  frequency: "DAILY" | "WEEKLY" | "CUSTOM";
+  days?: Array<(typeof WEEKDAYS)[number]>;
+  startTime?: string;
+  endTime?: string;
+  startCron?: string;
+  endCron?: string;
+}
+
+// ── Payload ───────────────────────────────────────────────────────────────────
+
+function checkTimezone(timezone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+  } catch {
+    throw new Error(`Unknown timezone "${timezone}". Use an IANA name such as "UTC" or "America/New_York".`);
+  }
+}
+
+function checkCron(field: string, expression: string | undefined): string {
+  if (!expression) throw new Error(`CUSTOM schedules need ${field}.`);
+  const fields = expression.trim().split(/\s+/).length;
+  if (fields < 6 || fields > 7) {
+    throw new Error(
+      `${field} "${expression}" has ${fields} fields; Quartz cron needs 6 or 7 (seconds minutes hours day-of-month month day-of-week [year]).`
+    );
+  }
+  return expression.trim();
+}
+
+/**
+ * The alerting-API body for a new schedule. Throws when the arguments don't
+ * fit the frequency (e.g. WEEKLY without days).
+ */
+export function buildSchedulePayload(input: ScheduleInput): Omit<HealthRuleSchedule, "id"> {
+  checkTimezone(input.timezone);
+  let scheduleConfiguration: ScheduleConfiguration;
+  if (input.frequency === "CUSTOM") {
+    scheduleConfiguration = {
+      scheduleFrequency: "CUSTOM",
+      startCron: checkCron("startCron", input.startCron),
+      endCron: checkCron("endCron", input.endCron),
+    };
+  } else {
+    if (!input.startTime || !input.endTime) throw new Error(`${input.frequency} schedules need startTime and endTime.`);
+    if (input.startTime === input.endTime) throw new Error("startTime and endTime are equal — the window would be empty.");
+    if (input.frequency === "WEEKLY" && !input.days) throw new Error("WEEKLY schedules need days.");
+    scheduleConfiguration = {
+      scheduleFrequency: input.frequency,
+      ...(input.frequency === "WEEKLY" ? { days: WEEKDAYS.filter((d) => input.days!.includes(d)) } : {}),
+      startTime: input.startTime,
+      endTime: input.endTime,
+    };
+  }
+  return {
+    name: input.name,
+    description: input.description ?? "",
+    timezone: input.timezone,
+    scheduleConfiguration,
+  };
+}
+
+/** One-line description, e.g. "WEEKLY on MON, TUE 01:00–05:00 (Europe/Berlin)". */
+export function describeSchedule(schedule: Pick<HealthRuleSchedule, "timezone" | "scheduleConfiguration">): string {
+  const c = schedule.scheduleConfiguration;
+  const tz = ` (${schedule.timezone})`;
+  if (c.startCron || c.endCron) return `${c.scheduleFrequency} from "${c.startCron}" to "${c.endCron}"${tz}`;
+  const days = c.days?.length ? ` on ${c.days.map((d) => d.slice(0, 3)).join(", ")}` : "";
+  const overnight = c.startTime && c.endTime && c.endTime < c.startTime ? ", ending the next day" : "";
+  return `${c.scheduleFrequency}${days} ${c.startTime ?? "?"}–${c.endTime ?? "?"}${overnight}${tz}`;
+}
+
+// ── Lookup ────────────────────────────────────────────────────────────────────
+
+/**
+ * The exact name of an application's schedule, matched by name
+ * (case-insensitive) or ID. Throws with close matches when there is none.
+ */
+export async function resolveScheduleName(appId: number, ref: string): Promise<string> {
+  const schedules = await appdGet<HealthRuleScheduleSummary[]>(SCHEDULES_BASE(appId));
+  const text = ref.trim();
+  const match =
+    schedules.find((s) => s.name === text) ??
+    schedules.find((s) => s.name.toLowerCase() === text.toLowerCase()) ??
+    (/^\d+$/.test(text) ? schedules.find((s) => s.id === Number(text)) : undefined);
+  if (match) return match.name;
+
+  const similar = schedules
+    .filter((s) => s.name.toLowerCase().includes(text.toLowerCase()))
+    .slice(0, 3)
+    .map((s) => `"${s.name}"`);
+  throw new Error(
+    `Unknown schedule "${text}" in application ${appId}${similar.length > 0 ? ` (did you mean ${similar.join(", ")}?)` : ""}. ` +
+      `List schedules with appd_get_health_rule_schedules or create one with appd_create_health_rule_schedule.`
+  );
+}
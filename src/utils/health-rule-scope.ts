@@ -0,0 +1,474 @@
+/**
+ * Health rule scope ("affects"): which business transactions, backends,
+ * service endpoints, tiers or nodes a rule evaluates.
+ *
+ * Entity names or IDs given to appd_create_health_rule / appd_update_health_rule
+ * are resolved against the application before the rule is sent, so a typo
+ * fails with the list of unknown names instead of creating a rule that never
+ * matches anything.
+ */
+
+import { z } from "zod";
+import { appdGet } from "../services/api-client.js";
+import type { AppDNode, Backend, BusinessTransaction, ServiceEndpoint, Tier } from "../types.js";
+
+export const AFFECTED_ENTITY_TYPES = [
+  "BUSINESS_TRANSACTION_PERFORMANCE",
+  "APPLICATION_PERFORMANCE",
+  "TIER_NODE_HEALTH",
+  "TIER_NODE_TRANSACTION_PERFORMANCE",
+  "BACKEND_CALL_PERFORMANCE",
+  "SERVICE_ENDPOINT_PERFORMANCE",
+  "CUSTOM",
+] as const;
+
+export type AffectedEntityType = (typeof AFFECTED_ENTITY_TYPES)[number];
+
+// ── Input schema ──────────────────────────────────────────────────────────────
+
+const EntityRefSchema = z.union([z.string(), z.number().int()]);
+
+const NamePatternSchema = z.object({
+  matchTo: z
+    .enum(["STARTS_WITH", "ENDS_WITH", "CONTAINS", "EQUALS", "MATCH_REG_EX"])
+    .describe("How the entity name is matched."),
+  value: z.string().min(1).describe("Text or regular expression to match."),
+  negate: z.boolean().optional().describe("Scope to entities that do NOT match. Default false."),
+});
+
+/** Scope arguments shared by appd_create_health_rule and appd_update_health_rule. */
+export const ScopeInputSchema = {
+  businessTransactions: z
+    .array(EntityRefSchema)
+    .min(1)
+    .optional()
+    .describe("Specific business transactions (names or IDs) — BUSINESS_TRANSACTION_PERFORMANCE."),
+  backends: z
+    .array(EntityRefSchema)
+    .min(1)
+    .optional()
+    .describe("Specific backends (names or IDs) — BACKEND_CALL_PERFORMANCE."),
+  serviceEndpoints: z
+    .array(EntityRefSchema)
+    .min(1)
+    .optional()
+    .describe("Specific service endpoints (names or IDs) — SERVICE_ENDPOINT_PERFORMANCE."),
+  tiers: z
+    .array(EntityRefSchema)
+    .min(1)
+    .optional()
+    .describe(
+      "Tiers (names or IDs). TIER_NODE_* rules: these tiers (or their nodes, with perNode). " +
+        "BUSINESS_TRANSACTION_PERFORMANCE / SERVICE_ENDPOINT_PERFORMANCE: the BTs / endpoints in these tiers."
+    ),
+  nodes: z
+    .array(EntityRefSchema)
+    .min(1)
+    .optional()
+    .describe("Specific nodes (names or IDs) — TIER_NODE_* rules."),
+  perNode: z
+    .boolean()
+    .optional()
+    .describe("With tiers on a TIER_NODE_* rule: evaluate each node of the tiers rather than each tier."),
+  namePattern: NamePatternSchema.optional().describe(
+    "Scope to entities whose name matches — business transactions, backends, service endpoints, or nodes for TIER_NODE_* rules."
+  ),
+};
+
+export type NamePattern = z.infer<typeof NamePatternSchema>;
+
+export interface ScopeInput {
+  businessTransactions?: Array<string | number>;
+  backends?: Array<string | number>;
+  serviceEndpoints?: Array<string | number>;
+  tiers?: Array<string | number>;
+  nodes?: Array<string | number>;
+  perNode?: boolean;
+  namePattern?: NamePattern;
+  /** Single-tier shorthand, kept for existing callers. */
+  affectedTier?: string;
+  /** Single-node shorthand; takes precedence over affectedTier. */
+  affectedNode?: string;
+  customEntityType?: string;
+  customEntityName?: string;
+}
+
+/** True when any entity-scope argument is present. */
+export function hasScopeInput(scope: ScopeInput): boolean {
+  return (
+    [scope.businessTransactions, scope.backends, scope.serviceEndpoints, scope.tiers, scope.nodes].some(
+      (list) => list !== undefined
+    ) ||
+    scope.namePattern !== undefined ||
+    scope.affectedTier !== undefined ||
+    scope.affectedNode !== undefined ||
+    scope.customEntityType !== undefined ||
+    scope.customEntityName !== undefined
+  );
+}
+
+// ── Resolution ────────────────────────────────────────────────────────────────
+
+interface NamedEntity {
+  id: number;
+  name: string;
+  /** Extra context shown in the scope summary, e.g. the BT's tier. */
+  detail?: string;
+}
+
+/** A scope resolved against the application: canonical names and a summary line. */
+export interface ResolvedScope {
+  affects: Record<string, unknown>;
+  /** Human-readable description of what the rule covers. */
+  summary: string;
+}
+
+type Selection =
+  | { kind: "all" }
+  | { kind: "specific"; entities: NamedEntity[] }
+  | { kind: "tiers"; tiers: NamedEntity[]; perNode: boolean }
+  | { kind: "pattern"; pattern: NamePattern; matches: number };
+
+async function listBusinessTransactions(appId: number): Promise<NamedEntity[]> {
+  const bts = await appdGet<BusinessTransaction[]>(`/controller/rest/applications/${appId}/business-transactions`);
+  return bts.map((bt) => ({ id: bt.id, name: bt.name, detail: bt.tierName }));
+}
+
+async function listBackends(appId: number): Promise<NamedEntity[]> {
+  const backends = await appdGet<Backend[]>(`/controller/rest/applications/${appId}/backends`);
+  return backends.map((b) => ({ id: b.id, name: b.name }));
+}
+
+async function listTiers(appId: number): Promise<NamedEntity[]> {
+  const tiers = await appdGet<Tier[]>(`/controller/rest/applications/${appId}/tiers`);
+  return tiers.map((t) => ({ id: t.id, name: t.name }));
+}
+
+async function listNodes(appId: number): Promise<NamedEntity[]> {
+  const nodes = await appdGet<AppDNode[]>(`/controller/rest/applications/${appId}/nodes`);
+  return nodes.map((n) => ({ id: n.id, name: n.name, detail: n.tierName }));
+}
+
+/** Service endpoints are listed per tier. */
+async function listServiceEndpoints(appId: number): Promise<NamedEntity[]> {
+  const tiers = await listTiers(appId);
+  const perTier = await Promise.all(
+    tiers.map(async (tier) => {
+      const seps = await appdGet<ServiceEndpoint[]>(
+        `/controller/rest/applications/${appId}/tiers/${tier.id}/service-endpoints`
+      );
+      return seps.map((sep) => ({ id: sep.id, name: sep.name, detail: tier.name }));
+    })
+  );
+  return perTier.flat();
+}
+
+interface EntityKind {
+  singular: string;
+  plural: string;
+  /** Tool that lists these entities, named in errors. */
+  tool: string;
+  list: (appId: number) => Promise<NamedEntity[]>;
+}
+
+const BUSINESS_TRANSACTIONS: EntityKind = {
+  singular: "business transaction",
+  plural: "business transactions",
+  tool: "appd_get_business_transactions",
+  list: listBusinessTransactions,
+};
+const BACKENDS: EntityKind = { singular: "backend", plural: "backends", tool: "appd_get_backends", list: listBackends };
+const SERVICE_ENDPOINTS: EntityKind = {
+  singular: "service endpoint",
+  plural: "service endpoints",
+  tool: "appd_get_service_endpoints",
+  list: listServiceEndpoints,
+};
+const TIERS: EntityKind = { singular: "tier", plural: "tiers", tool: "appd_get_tiers_and_nodes", list: listTiers };
+const NODES: EntityKind = { singular: "node", plural: "nodes", tool: "appd_get_tiers_and_nodes", list: listNodes };
+
+const count = (n: number, kind: EntityKind) => `${n} ${n === 1 ? kind.singular : kind.plural}`;
+
+/**
+ * Match each reference to the application's entities: numbers (or numeric
+ * strings) by ID, names case-insensitively. Throws listing every reference
+ * that matches nothing.
+ */
+async function resolveRefs(refs: Array<string | number>, kind: EntityKind, appId: number): Promise<NamedEntity[]> {
+  const entities = await kind.list(appId);
+  const resolved: NamedEntity[] = [];
+  const unknown: string[] = [];
+  for (const ref of refs) {
+    const text = String(ref).trim();
+    const id = typeof ref === "number" ? ref : /^\d+$/.test(text) ? Number(text) : null;
+    const matches =
+      id !== null
+        ? entities.filter((e) => e.id === id || e.name === text)
+        : entities.filter((e) => e.name.toLowerCase() === text.toLowerCase());
+    if (matches.length === 0) {
+      const similar = entities
+        .filter((e) => e.name.toLowerCase().includes(text.toLowerCase()))
+        .slice(0, 3)
+        .map((e) => `"${e.name}"`);
+      unknown.push(`"${text}"${similar.length > 0 ? ` (did you mean ${similar.join(", ")}?)` : ""}`);
+    }
+    for (const match of matches) {
+      if (!resolved.some((e) => e.id === match.id)) resolved.push(match);
+    }
+  }
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown ${kind.plural} in application ${appId}: ${unknown.join(", ")}. ` +
+        `The application has ${count(entities.length, kind)} — list them with ${kind.tool}.`
+    );
+  }
+  return resolved;
+}
+
+function patternPredicate(pattern: NamePattern): (name: string) => boolean {
+  const value = pattern.value.toLowerCase();
+  let test: (name: string) => boolean;
+  switch (pattern.matchTo) {
+    case "STARTS_WITH":
+      test = (name) => name.toLowerCase().startsWith(value);
+      break;
+    case "ENDS_WITH":
+      test = (name) => name.toLowerCase().endsWith(value);
+      break;
+    case "CONTAINS":
+      test = (name) => name.toLowerCase().includes(value);
+      break;
+    case "EQUALS":
+      test = (name) => name.toLowerCase() === value;
+      break;
+    case "MATCH_REG_EX": {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern.value);
+      } catch (error) {
+        throw new Error(`Invalid namePattern regex "${pattern.value}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+      test = (name) => regex.test(name);
+      break;
+    }
+  }
+  return pattern.negate ? (name) => !test(name) : test;
+}
+
+const ENTITY_ARGS = {
+  businessTransactions: ["BUSINESS_TRANSACTION_PERFORMANCE"],
+  backends: ["BACKEND_CALL_PERFORMANCE"],
+  serviceEndpoints: ["SERVICE_ENDPOINT_PERFORMANCE"],
+  tiers: ["BUSINESS_TRANSACTION_PERFORMANCE", "SERVICE_ENDPOINT_PERFORMANCE", "TIER_NODE_HEALTH", "TIER_NODE_TRANSACTION_PERFORMANCE"],
+  nodes: ["TIER_NODE_HEALTH", "TIER_NODE_TRANSACTION_PERFORMANCE"],
+  namePattern: [
+    "BUSINESS_TRANSACTION_PERFORMANCE",
+    "BACKEND_CALL_PERFORMANCE",
+    "SERVICE_ENDPOINT_PERFORMANCE",
+    "TIER_NODE_HEALTH",
+    "TIER_NODE_TRANSACTION_PERFORMANCE",
+  ],
+} as const satisfies Record<string, readonly AffectedEntityType[]>;
+
+/** Entities a rule type scopes by name or pattern. */
+const SCOPED_ENTITIES: Partial<Record<AffectedEntityType, EntityKind>> = {
+  BUSINESS_TRANSACTION_PERFORMANCE: BUSINESS_TRANSACTIONS,
+  BACKEND_CALL_PERFORMANCE: BACKENDS,
+  SERVICE_ENDPOINT_PERFORMANCE: SERVICE_ENDPOINTS,
+  TIER_NODE_HEALTH: NODES,
+  TIER_NODE_TRANSACTION_PERFORMANCE: NODES,
+};
+
+/**
+ * Validate the scope arguments for `entityType`, resolve names and IDs
+ * against the application, and build the rule's `affects` block.
+ */
+export async function resolveScope(appId: number, entityType: AffectedEntityType, scope: ScopeInput): Promise<ResolvedScope> {
+  // Fold the single-entity shorthands into the lists
+  const nodes = scope.affectedNode ? [...(scope.nodes ?? []), scope.affectedNode] : scope.nodes;
+  const tiers = scope.affectedTier && !scope.affectedNode ? [...(scope.tiers ?? []), scope.affectedTier] : scope.tiers;
+  const given = {
+    businessTransactions: scope.businessTransactions,
+    backends: scope.backends,
+    serviceEndpoints: scope.serviceEndpoints,
+    tiers,
+    nodes,
+    namePattern: scope.namePattern,
+  };
+
+  const present = (Object.keys(given) as Array<keyof typeof given>).filter((key) => given[key] !== undefined);
+  for (const key of present) {
+    if (!(ENTITY_ARGS[key] as readonly string[]).includes(entityType)) {
+      throw new Error(`'${key}' does not apply to ${entityType} rules (only ${ENTITY_ARGS[key].join(", ")}).`);
+    }
+  }
+  if (present.length > 1) {
+    throw new Error(`Give one scope per rule — got ${present.join(" and ")}.`);
+  }
+  if (scope.perNode && !(entityType.startsWith("TIER_NODE") && tiers)) {
+    throw new Error("'perNode' applies only with tiers on TIER_NODE_HEALTH / TIER_NODE_TRANSACTION_PERFORMANCE rules.");
+  }
+
+  let selection: Selection = { kind: "all" };
+  const entities = SCOPED_ENTITIES[entityType];
+  const specific = given.businessTransactions ?? given.backends ?? given.serviceEndpoints ?? given.nodes;
+  if (specific && entities) {
+    selection = { kind: "specific", entities: await resolveRefs(specific, entities, appId) };
+  } else if (tiers) {
+    selection = {
+      kind: "tiers",
+      tiers: await resolveRefs(tiers, TIERS, appId),
+      perNode: entityType.startsWith("TIER_NODE") ? scope.perNode ?? false : true,
+    };
+  } else if (scope.namePattern && entities) {
+    const matches = patternPredicate(scope.namePattern);
+    const current = await entities.list(appId);
+    selection = { kind: "pattern", pattern: scope.namePattern, matches: current.filter((e) => matches(e.name)).length };
+  }
+
+  return {
+    affects: buildAffects(entityType, selection, scope),
+    summary: describeScope(entityType, selection),
+  };
+}
+
+// ── Payload ───────────────────────────────────────────────────────────────────
+
+function patternMatcher(pattern: NamePattern): Record<string, unknown> {
+  return { matchTo: pattern.matchTo, matchValue: pattern.value, shouldNot: pattern.negate ?? false };
+}
+
+function buildAffects(entityType: AffectedEntityType, selection: Selection, scope: ScopeInput): Record<string, unknown> {
+  const base = { affectedEntityType: entityType };
+  const names = (list: NamedEntity[]) => [...new Set(list.map((e) => e.name))];
+  switch (entityType) {
+    case "BUSINESS_TRANSACTION_PERFORMANCE":
+      switch (selection.kind) {
+        case "specific":
+          return {
+            ...base,
+            affectedBusinessTransactions: {
+              businessTransactionScope: "SPECIFIC_BUSINESS_TRANSACTIONS",
+              businessTransactions: names(selection.entities),
+            },
+          };
+        case "tiers":
+          return {
+            ...base,
+            affectedBusinessTransactions: {
+              businessTransactionScope: "BUSINESS_TRANSACTIONS_IN_SPECIFIC_TIERS",
+              specificTiers: names(selection.tiers),
+            },
+          };
+        case "pattern":
+          return {
+            ...base,
+            affectedBusinessTransactions: {
+              businessTransactionScope: "BUSINESS_TRANSACTIONS_MATCHING_PATTERN",
+              patternMatcher: patternMatcher(selection.pattern),
+            },
+          };
+        default:
+          return { ...base, affectedBusinessTransactions: { businessTransactionScope: "ALL_BUSINESS_TRANSACTIONS" } };
+      }
+    case "APPLICATION_PERFORMANCE":
+      return { ...base, affectedApplicationPerformance: { applicationPerformanceScope: "ALL_TIERS" } };
+    case "TIER_NODE_HEALTH":
+    case "TIER_NODE_TRANSACTION_PERFORMANCE":
+      switch (selection.kind) {
+        case "specific":
+          return {
+            ...base,
+            affectedTierOrNode: { tierOrNodeScope: "SPECIFIC_NODES", nodes: names(selection.entities).map((name) => ({ name })) },
+          };
+        case "tiers":
+          return {
+            ...base,
+            affectedTierOrNode: {
+              tierOrNodeScope: selection.perNode ? "NODES_OF_SPECIFIC_TIERS" : "SPECIFIC_TIERS",
+              tiers: names(selection.tiers).map((name) => ({ name })),
+            },
+          };
+        case "pattern":
+          return {
+            ...base,
+            affectedTierOrNode: { tierOrNodeScope: "NODES_MATCHING_PATTERN", patternMatcher: patternMatcher(selection.pattern) },
+          };
+        default:
+          return { ...base, affectedTierOrNode: { tierOrNodeScope: "ALL_TIERS_OR_NODES" } };
+      }
+    case "BACKEND_CALL_PERFORMANCE":
+      switch (selection.kind) {
+        case "specific":
+          return { ...base, affectedBackend: { backendScope: "SPECIFIC_BACKENDS", backends: names(selection.entities) } };
+        case "pattern":
+          return {
+            ...base,
+            affectedBackend: { backendScope: "BACKENDS_MATCHING_PATTERN", patternMatcher: patternMatcher(selection.pattern) },
+          };
+        default:
+          return { ...base, affectedBackend: { backendScope: "ALL_BACKENDS" } };
+      }
+    case "SERVICE_ENDPOINT_PERFORMANCE":
+      switch (selection.kind) {
+        case "specific":
+          return {
+            ...base,
+            affectedServiceEndpoints: {
+              serviceEndpointScope: "SPECIFIC_SERVICE_ENDPOINTS",
+              serviceEndpoints: names(selection.entities),
+            },
+          };
+        case "tiers":
+          return {
+            ...base,
+            affectedServiceEndpoints: {
+              serviceEndpointScope: "SERVICE_ENDPOINTS_IN_SPECIFIC_TIERS",
+              specificTiers: names(selection.tiers),
+            },
+          };
+        case "pattern":
+          return {
+            ...base,
+            affectedServiceEndpoints: {
+              serviceEndpointScope: "SERVICE_ENDPOINTS_MATCHING_PATTERN",
+              patternMatcher: patternMatcher(selection.pattern),
+            },
+          };
+        default:
+          return { ...base, affectedServiceEndpoints: { serviceEndpointScope: "ALL_SERVICE_ENDPOINTS" } };
+      }
+    case "CUSTOM":
+      return {
+        ...base,
+        affectedEntityScope: {
+          entityScope: "SPECIFIC_ENTITY_PERFORMANCE",
+          entityType: scope.customEntityType ?? "SERVER",
+          affectedEntityName: scope.customEntityName ?? "",
+        },
+      };
+  }
+}
+
+function describeScope(entityType: AffectedEntityType, selection: Selection): string {
+  const kind = SCOPED_ENTITIES[entityType];
+  const label = kind?.plural ?? "entities";
+  const list = (entities: NamedEntity[]) =>
+    entities.map((e) => `${e.name} (#${e.id}${e.detail ? `, ${e.detail}` : ""})`).join(", ");
+  switch (selection.kind) {
+    case "specific":
+      return `${kind ? count(selection.entities.length, kind) : label}: ${list(selection.entities)}`;
+    case "tiers":
+      return entityType.startsWith("TIER_NODE") && !selection.perNode
+        ? `${count(selection.tiers.length, TIERS)}: ${list(selection.tiers)}`
+        : `${label} in ${count(selection.tiers.length, TIERS)}: ${list(selection.tiers)}`;
+    case "pattern": {
+      const { matchTo, value, negate } = selection.pattern;
+      return `${label} whose name ${negate ? "does not match" : "matches"} ${matchTo} "${value}" (${selection.matches} today)`;
+    }
+    default:
+      if (entityType === "CUSTOM") return "custom entity";
+      if (entityType === "APPLICATION_PERFORMANCE") return "all tiers";
+      return entityType.startsWith("TIER_NODE") ? "all tiers and nodes" : `all ${label}`;
+  }
+}
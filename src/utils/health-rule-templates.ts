@@ -0,0 +1,315 @@
+/**
+ * Health rule templates: a named, parameterized set of rules that
+ * appd_apply_health_rule_template stamps onto many applications.
+ *
+ * One file per template in APPD_HEALTH_RULE_TEMPLATES_DIR (.json, .yaml or
+ * .yml):
+ *
+ *   name: tier-golden-signals
+ *   description: Response time, errors and CPU for one tier
+ *   parameters:
+ *     - name: tier
+ *       required: true
+ *     - name: responseTimeMs
+ *       default: 1000
+ *   rules:
+ *     - name: "{{tier}} response time"
+ *       affectedEntityType: TIER_NODE_TRANSACTION_PERFORMANCE
+ *       tiers: ["{{tier}}"]
+ *       criticalConditions:
+ *         - metricPath: Average Response Time (ms)
+ *           threshold: "{{responseTimeMs}}"
+ *
+ * Rules take the arguments of appd_create_health_rule. {{param}} placeholders
+ * may appear in any string; a string that is only a placeholder takes the
+ * parameter's value as is, so "{{responseTimeMs}}" becomes a number.
+ * {{application}} is always available. A file whose name matches a built-in
+ * template replaces it. Files are read once; an invalid file fails the call
+ * that loads templates.
+ */
+
+import { readdirSync, readFileSync } from "fs";
+import { extname, join } from "path";
+import { z } from "zod";
+import { getHealthRuleTemplatesConfig } from "../config.js";
+import { AFFECTED_ENTITY_TYPES, ScopeInputSchema } from "./health-rule-scope.js";
+import { ConditionSchema } from "./health-rule-conditions.js";
+import { parseYaml } from "./yaml.js";
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}$/;
+
+/** Placeholders every template can use without declaring them. */
+const IMPLICIT_PARAMETERS = ["application"];
+
+export type ParameterValue = string | number | boolean;
+
+const ParameterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const ParameterSchema = z.object({
+  name: z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, "must be a letter followed by letters, digits or _"),
+  description: z.string().optional(),
+  required: z.boolean().default(false),
+  default: ParameterValueSchema.optional(),
+});
+
+/** One rule after substitution: the arguments of appd_create_health_rule. */
+export const RuleTemplateSchema = z.object({
+  name: z.string().min(1),
+  enabled: z.boolean().default(true),
+  affectedEntityType: z.enum(AFFECTED_ENTITY_TYPES),
+  affectedTier: z.string().optional(),
+  affectedNode: z.string().optional(),
+  ...ScopeInputSchema,
+  customEntityType: z.string().optional(),
+  customEntityName: z.string().optional(),
+  criticalConditions: z.array(ConditionSchema).min(1),
+  warningConditions: z.array(ConditionSchema).optional(),
+  conditionAggregationType: z.enum(["ALL", "ANY"]).default("ALL"),
+  useDataFromLastNMinutes: z.number().int().default(30),
+  waitTimeAfterViolation: z.number().int().default(30),
+  schedule: z.string().optional(),
+});
+
+export type RuleTemplate = z.infer<typeof RuleTemplateSchema>;
+
+const TemplateFileSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_-]*$/, "must be lower-case letters, digits, _ or -"),
+  description: z.string().optional(),
+  parameters: z.array(ParameterSchema).default([]),
+  // Validated per rule after substitution, when placeholder values are known
+  rules: z.array(z.record(z.unknown())).min(1),
+});
+
+export type HealthRuleTemplate = z.infer<typeof TemplateFileSchema> & {
+  /** Source file, or "built-in". */
+  source: string;
+};
+
+// ── Built-in templates ────────────────────────────────────────────────────────
+
+const BUILT_IN_TEMPLATES: Array<z.input<typeof TemplateFileSchema>> = [
+  {
+    name: "tier-golden-signals",
+    description: "Response time and error rate of a tier's transactions, and CPU of each of its nodes.",
+    parameters: [
+      { name: "tier", description: "Tier name", required: true },
+      { name: "responseTimeMs", description: "Critical average response time (ms)", default: 1000 },
+      { name: "errorsPerMin", description: "Critical errors per minute", default: 10 },
+      { name: "cpuBusyPct", description: "Critical CPU %Busy per node", default: 90 },
+    ],
+    rules: [
+      {
+        name: "{{tier}} response time",
+        affectedEntityType: "TIER_NODE_TRANSACTION_PERFORMANCE",
+        tiers: ["{{tier}}"],
+        criticalConditions: [{ metricPath: "Average Response Time (ms)", threshold: "{{responseTimeMs}}" }],
+      },
+      {
+        name: "{{tier}} errors",
+        affectedEntityType: "TIER_NODE_TRANSACTION_PERFORMANCE",
+        tiers: ["{{tier}}"],
+        criticalConditions: [{ metricPath: "Errors per Minute", threshold: "{{errorsPerMin}}" }],
+      },
+      {
+        name: "{{tier}} CPU",
+        affectedEntityType: "TIER_NODE_HEALTH",
+        tiers: ["{{tier}}"],
+        perNode: true,
+        criticalConditions: [{ metricPath: "Hardware Resources|CPU|%Busy", threshold: "{{cpuBusyPct}}" }],
+      },
+    ],
+  },
+  {
+    name: "url-monitor",
+    description:
+      "URL Monitor extension service on a SIM server: warning when Status is not OK, critical when the response code is not 200.",
+    parameters: [
+      { name: "node", description: "Server hostname the machine agent reports as", required: true },
+      { name: "service", description: "Service folder under Custom Metrics|URL Monitor", required: true },
+      { name: "tier", description: "SIM tier", default: "Root" },
+      { name: "okStatus", description: "Status value of a healthy check", default: 4 },
+      { name: "okResponseCode", description: "HTTP response code of a healthy check", default: 200 },
+    ],
+    rules: [
+      {
+        name: "{{service}} URL Monitor",
+        affectedEntityType: "CUSTOM",
+        customEntityType: "SERVER",
+        customEntityName: "{{node}}",
+        useDataFromLastNMinutes: 5,
+        waitTimeAfterViolation: 5,
+        criticalConditions: [
+          {
+            name: "Response Code != {{okResponseCode}}",
+            metricPath:
+              "Application Infrastructure Performance|{{tier}}|Individual Nodes|{{node}}|Custom Metrics|URL Monitor|{{service}}|Response Code",
+            operator: "NOT_EQUALS",
+            threshold: "{{okResponseCode}}",
+          },
+        ],
+        warningConditions: [
+          {
+            name: "Status != {{okStatus}}",
+            metricPath:
+              "Application Infrastructure Performance|{{tier}}|Individual Nodes|{{node}}|Custom Metrics|URL Monitor|{{service}}|Status",
+            operator: "NOT_EQUALS",
+            threshold: "{{okStatus}}",
+          },
+        ],
+      },
+    ],
+  },
+];
+
+// ── Loading ───────────────────────────────────────────────────────────────────
+
+function placeholdersIn(value: unknown, out: Set<string>): void {
+  if (typeof value === "string") {
+    for (const [, name] of value.matchAll(PLACEHOLDER)) out.add(name!);
+  } else if (Array.isArray(value)) {
+    value.forEach((v) => placeholdersIn(v, out));
+  } else if (value !== null && typeof value === "object") {
+    Object.values(value).forEach((v) => placeholdersIn(v, out));
+  }
+}
+
+function parseTemplate(raw: unknown, source: string): HealthRuleTemplate {
+  const result = TemplateFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".") || "(root)"} ${i.message}`).join("; ");
+    throw new Error(`Health rule template ${source}: ${issues}`);
+  }
+  const template = result.data;
+  const declared = new Set([...IMPLICIT_PARAMETERS, ...template.parameters.map((p) => p.name)]);
+  const used = new Set<string>();
+  placeholdersIn(template.rules, used);
+  for (const name of used) {
+    if (!declared.has(name)) {
+      throw new Error(`Health rule template ${source}: rules use {{${name}}} but no parameter "${name}" is declared.`);
+    }
+  }
+  return { ...template, source };
+}
+
+function readTemplateFile(file: string): HealthRuleTemplate {
+  let raw: unknown;
+  try {
+    const text = readFileSync(file, "utf8");
+    raw = extname(file).toLowerCase() === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Health rule template ${file}: ${reason}`);
+  }
+  return parseTemplate(raw, file);
+}
+
+let loaded: HealthRuleTemplate[] | null = null;
+
+/**
+ * Built-in templates plus those in the configured directory (read once).
+ * A missing directory yields the built-ins only.
+ */
+export function loadHealthRuleTemplates(): HealthRuleTemplate[] {
+  if (loaded) return loaded;
+  const builtIns = BUILT_IN_TEMPLATES.map((t) => parseTemplate(t, "built-in"));
+  const { dir } = getHealthRuleTemplatesConfig();
+
+  let files: string[] = [];
+  if (dir) {
+    try {
+      files = readdirSync(dir)
+        .filter((f) => [".json", ".yaml", ".yml"].includes(extname(f).toLowerCase()))
+        .sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+
+  const custom = files.map((f) => readTemplateFile(join(dir!, f)));
+  const seen = new Map<string, string>();
+  for (const template of custom) {
+    const other = seen.get(template.name);
+    if (other) throw new Error(`Health rule template "${template.name}" is defined twice (${other}, ${template.source}).`);
+    seen.set(template.name, template.source);
+  }
+  loaded = [...builtIns.filter((t) => !seen.has(t.name)), ...custom];
+  return loaded;
+}
+
+export function findHealthRuleTemplate(name: string): HealthRuleTemplate {
+  const templates = loadHealthRuleTemplates();
+  const template = templates.find((t) => t.name === name.trim().toLowerCase());
+  if (!template) {
+    throw new Error(
+      `Unknown health rule template "${name}". Available: ${templates.map((t) => t.name).join(", ")}. ` +
+        `See appd_get_health_rule_templates.`
+    );
+  }
+  return template;
+}
+
+// ── Rendering ─────────────────────────────────────────────────────────────────
+
+/**
+ * Parameter values for one application: declared defaults, then `values`.
+ * Throws naming every required parameter that has no value.
+ */
+export function resolveParameters(
+  template: HealthRuleTemplate,
+  values: Record<string, ParameterValue>
+): Record<string, ParameterValue> {
+  const unknown = Object.keys(values).filter(
+    (k) => !IMPLICIT_PARAMETERS.includes(k) && !template.parameters.some((p) => p.name === k)
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Template "${template.name}" has no parameter ${unknown.map((k) => `"${k}"`).join(", ")}. ` +
+        `Parameters: ${template.parameters.map((p) => p.name).join(", ") || "(none)"}.`
+    );
+  }
+  const resolved: Record<string, ParameterValue> = {};
+  const missing: string[] = [];
+  for (const p of template.parameters) {
+    const value = values[p.name] ?? p.default;
+    if (value === undefined) {
+      if (p.required) missing.push(p.name);
+      continue;
+    }
+    resolved[p.name] = value;
+  }
+  if (missing.length > 0) {
+    throw new Error(`Template "${template.name}" needs a value for ${missing.map((k) => `"${k}"`).join(", ")}.`);
+  }
+  return { ...resolved, ...(values["application"] !== undefined ? { application: values["application"] } : {}) };
+}
+
+function substitute(value: unknown, params: Record<string, ParameterValue>): unknown {
+  if (typeof value === "string") {
+    const whole = WHOLE_PLACEHOLDER.exec(value);
+    if (whole) return params[whole[1]!] ?? "";
+    return value.replace(PLACEHOLDER, (_match, name: string) => String(params[name] ?? ""));
+  }
+  if (Array.isArray(value)) return value.map((v) => substitute(v, params));
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substitute(v, params)]));
+  }
+  return value;
+}
+
+/**
+ * The template's rules with placeholders replaced, validated as
+ * appd_create_health_rule arguments. Throws naming the rule and the problem.
+ */
+export function renderTemplate(template: HealthRuleTemplate, params: Record<string, ParameterValue>): RuleTemplate[] {
+  return template.rules.map((rule, i) => {
+    const rendered = substitute(rule, params);
+    const result = RuleTemplateSchema.safeParse(rendered);
+    if (!result.success) {
+      const name = (rendered as { name?: unknown }).name;
+      const issues = result.error.issues.map((iss) => `${iss.path.join(".") || "(root)"} ${iss.message}`).join("; ");
+      throw new Error(`Rule ${i + 1}${typeof name === "string" ? ` ("${name}")` : ""} of template "${template.name}": ${issues}`);
+    }
+    return result.data;
+  });
+}
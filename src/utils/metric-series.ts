@@ -0,0 +1,189 @@
+/**
+ * Helpers for metric-data responses: flatten a MetricData entry into sorted
+ * points, summarize them, and downsample them (LTTB).
+ */
+
+import type { MetricData } from "../types.js";
+
+export interface MetricPoint {
+  /** Bucket start, epoch ms. */
+  time: number;
+  value: number;
+  min: number;
+  max: number;
+  sum: number;
+  count: number;
+  current: number;
+}
+
+export interface BasicStats {
+  min: number;
+  /** Mean of the bucket values. */
+  avg: number;
+  max: number;
+  sum: number;
+  /** Most recent observed value. */
+  latest: number;
+  points: number;
+}
+
+/**
+ * Points of one metric, oldest first.
+ */
+export function metricPoints(data: MetricData): MetricPoint[] {
+  return (data.metricValues ?? [])
+    .map((v) => ({
+      time: v.startTimeInMillis,
+      value: v.value,
+      min: v.min,
+      max: v.max,
+      sum: v.sum,
+      count: v.count,
+      current: v.current,
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Min / avg / max / sum / latest over a series; null when it has no points.
+ * With rollup the series is a single point and these are its own fields.
+ */
+export function basicStats(points: MetricPoint[]): BasicStats | null {
+  if (points.length === 0) return null;
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  let total = 0;
+  for (const p of points) {
+    min = Math.min(min, p.min);
+    max = Math.max(max, p.max);
+    sum += p.sum;
+    total += p.value;
+  }
+  const last = points[points.length - 1]!;
+  return { min, avg: total / points.length, max, sum, latest: last.current, points: points.length };
+}
+
+// ── Summary statistics ────────────────────────────────────────────────────────
+
+export interface SeriesSummary {
+  points: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  stdDev: number;
+  /** Least-squares slope of the values, in metric units per hour. */
+  trendPerHour: number;
+  peak: { value: number; time: number };
+  /** Share of intervals whose value is above the threshold, 0–100. */
+  pctAboveThreshold?: number;
+}
+
+/** Round to two decimals. */
+export const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Linear-interpolated percentile of ascending values, p in 0–100. */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (rank - lower);
+}
+
+/** Least-squares slope of y over x; 0 for fewer than two distinct x. */
+export function linearSlope(xs: number[], ys: number[]): number {
+  const n = xs.length;
+  if (n < 2) return 0;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < n; i++) {
+    num += (xs[i]! - meanX) * (ys[i]! - meanY);
+    den += (xs[i]! - meanX) ** 2;
+  }
+  return den === 0 ? 0 : num / den;
+}
+
+/**
+ * Distribution, trend and peak of the per-interval values; null when the
+ * series is empty. Values are rounded to two decimals.
+ */
+export function summarizeSeries(points: MetricPoint[], threshold?: number): SeriesSummary | null {
+  if (points.length === 0) return null;
+  const values = points.map((p) => p.value);
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance = values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length;
+  const hours = points.map((p) => p.time / 3_600_000);
+  const peak = points.reduce((best, p) => (p.value > best.value ? p : best), points[0]!);
+
+  const summary: SeriesSummary = {
+    points: points.length,
+    min: sorted[0]!,
+    max: sorted[sorted.length - 1]!,
+    mean: round2(mean),
+    p50: round2(percentile(sorted, 50)),
+    p90: round2(percentile(sorted, 90)),
+    p99: round2(percentile(sorted, 99)),
+    stdDev: round2(Math.sqrt(variance)),
+    trendPerHour: round2(linearSlope(hours, values)),
+    peak: { value: peak.value, time: peak.time },
+  };
+  if (threshold !== undefined) {
+    summary.pctAboveThreshold = round2((values.filter((v) => v > threshold).length / values.length) * 100);
+  }
+  return summary;
+}
+
+// ── Downsampling ──────────────────────────────────────────────────────────────
+
+/**
+ * Largest-Triangle-Three-Buckets: reduce `items` (ordered by x) to at most
+ * `threshold` items, keeping the first and last and the points that best
+ * preserve the visual shape. Returns `items` unchanged when already small.
+ */
+export function lttb<T>(items: T[], threshold: number, x: (item: T) => number, y: (item: T) => number): T[] {
+  if (threshold >= items.length || threshold < 3) return items;
+
+  const sampled: T[] = [items[0]!];
+  const bucketSize = (items.length - 2) / (threshold - 2);
+  let a = 0;
+
+  for (let i = 0; i < threshold - 2; i++) {
+    // Average of the next bucket is the third triangle vertex
+    const nextStart = Math.floor((i + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.max(Math.floor((i + 2) * bucketSize) + 1, nextStart + 1), items.length);
+    let avgX = 0;
+    let avgY = 0;
+    for (let j = nextStart; j < nextEnd; j++) {
+      avgX += x(items[j]!);
+      avgY += y(items[j]!);
+    }
+    avgX /= nextEnd - nextStart;
+    avgY /= nextEnd - nextStart;
+
+    const start = Math.floor(i * bucketSize) + 1;
+    const end = Math.floor((i + 1) * bucketSize) + 1;
+    const ax = x(items[a]!);
+    const ay = y(items[a]!);
+    let maxArea = -1;
+    let chosen = start;
+    for (let j = start; j < end; j++) {
+      const area = Math.abs((ax - avgX) * (y(items[j]!) - ay) - (ax - x(items[j]!)) * (avgY - ay));
+      if (area > maxArea) {
+        maxArea = area;
+        chosen = j;
+      }
+    }
+    sampled.push(items[chosen]!);
+    a = chosen;
+  }
+
+  sampled.push(items[items.length - 1]!);
+  return sampled;
+}
@@ -0,0 +1,21 @@
+/**
+ * Secret redaction for anything the server writes to disk (audit log, fixtures).
+ */
+
+const SECRET_KEY = /secret|password|passwd|token|api[-_]?key|authorization|credential/i;
+
+/**
+ * Deep copy of `value` with the values of secret-looking keys replaced.
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [
+        k,
+        SECRET_KEY.test(k) ? "[REDACTED]" : redactSecrets(v),
+      ])
+    );
+  }
+  return value;
+}
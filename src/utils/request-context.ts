@@ -0,0 +1,53 @@
+/**
+ * Per-tool-call context carried implicitly through async calls.
+ * Lets the API client and resolvers pick up the selected controller
+ * without threading an extra argument through every helper.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { RequestPriority } from "../services/request-limiter.js";
+
+export interface RequestContext {
+  /** Controller name selected for this call; undefined = default controller. */
+  controller?: string;
+  /** Scheduling priority for controller requests; undefined = interactive. */
+  priority?: RequestPriority;
+  /** Name of the MCP tool being executed (for the audit log). */
+  tool?: string;
+  /** Skip cached copies for every GET in this call (results still refresh the cache). */
+  fresh?: boolean;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn` with the given context. Nested calls inherit and may override fields.
+ */
+export function runWithContext<T>(
+  context: RequestContext,
+  fn: () => Promise<T>
+): Promise<T> {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+/**
+ * Current context (empty outside a tool call).
+ */
+export function getRequestContext(): RequestContext {
+  return storage.getStore() ?? {};
+}
+
+/**
+ * Controller selected for the current call, or undefined for the default.
+ */
+export function getCurrentController(): string | undefined {
+  return getRequestContext().controller;
+}
+
+/**
+ * Run a fan-out (many applications, many metrics) at bulk priority so it
+ * yields to interactive single-entity calls in the request limiter.
+ */
+export function runAsBulk<T>(fn: () => Promise<T>): Promise<T> {
+  return runWithContext({ priority: "bulk" }, fn);
+}
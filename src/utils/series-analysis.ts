@@ -0,0 +1,546 @@
+/**
+ * Statistical analysis of metric series for the metric-analysis tools:
+ * seasonal anomaly detection with robust z-scores, linear / Holt-Winters
+ * forecasting with confidence bounds, and lagged correlation.
+ */
+
+import { percentile, linearSlope, type MetricPoint } from "./metric-series.js";
+
+// ── Robust statistics ─────────────────────────────────────────────────────────
+
+export function median(values: number[]): number {
+  return percentile([...values].sort((a, b) => a - b), 50);
+}
+
+/** Median absolute deviation from the median. */
+export function mad(values: number[]): number {
+  const m = median(values);
+  return median(values.map((v) => Math.abs(v - m)));
+}
+
+/** MAD scaled to estimate a normal standard deviation. */
+const MAD_TO_SIGMA = 1.4826;
+
+/** Mean absolute deviation scaled to estimate a normal standard deviation. */
+const MEAN_AD_TO_SIGMA = 1.2533;
+
+/**
+ * Robust standard-deviation estimate: 1.4826 × MAD, or 1.2533 × the mean
+ * absolute deviation when more than half the values are identical (integer
+ * counts such as errors per minute) and the MAD is zero.
+ */
+export function robustScale(values: number[]): number {
+  if (values.length === 0) return 0;
+  const byMad = MAD_TO_SIGMA * mad(values);
+  if (byMad > 0) return byMad;
+  const m = median(values);
+  return (MEAN_AD_TO_SIGMA * values.reduce((acc, v) => acc + Math.abs(v - m), 0)) / values.length;
+}
+
+// ── Anomaly detection ─────────────────────────────────────────────────────────
+
+export interface SeasonalReference {
+  /** Label, e.g. "yesterday". */
+  name: string;
+  /** Period in ms: the reference point for time t is at t − periodMs. */
+  periodMs: number;
+  points: MetricPoint[];
+}
+
+export interface AnomalyInterval {
+  time: number;
+  value: number;
+  expected: number;
+  lower: number;
+  upper: number;
+  /** Robust z-score: (value − expected) / noise scale. */
+  score: number;
+  anomalous: boolean;
+}
+
+export interface AnomalySpan {
+  start: number;
+  /** Start of the last anomalous interval. */
+  end: number;
+  intervals: number;
+  direction: "above" | "below";
+  severity: "warning" | "critical";
+  /** Largest |score| in the span. */
+  maxScore: number;
+  peak: { time: number; value: number; expected: number; lower: number; upper: number };
+}
+
+export interface ReferenceCoverage {
+  name: string;
+  /** Spacing of the reference's points (coarser than the window's once rolled up). */
+  stepMs: number;
+  /** Share of the window's intervals the reference has a value for, 0–1. */
+  coverage: number;
+  /** Covers at least MIN_REFERENCE_COVERAGE, so it contributes to the expected value. */
+  used: boolean;
+}
+
+export interface AnomalyResult {
+  /** "seasonal" when at least one reference covers enough of the window, else "level". */
+  model: "seasonal" | "level";
+  referencesUsed: string[];
+  references: ReferenceCoverage[];
+  /** Estimated noise standard deviation used to scale residuals. */
+  noiseScale: number;
+  threshold: number;
+  intervals: AnomalyInterval[];
+  spans: AnomalySpan[];
+}
+
+/** Fewest of the window's intervals a reference must cover to be used. */
+const MIN_REFERENCE_COVERAGE = 0.5;
+
+/** Median spacing of the points; null for fewer than two distinct times. */
+function medianStep(points: MetricPoint[]): number | null {
+  const gaps = points.slice(1).map((p, i) => p.time - points[i]!.time).filter((g) => g > 0);
+  return gaps.length > 0 ? median(gaps) : null;
+}
+
+/**
+ * The reference's value for each of `times`: the point whose interval
+ * (its start up to one reference step later) contains time − periodMs. A
+ * reference rolled up to coarser intervals than the window thus spreads each
+ * value over the window intervals it spans.
+ */
+function alignReference(times: number[], reference: SeasonalReference, stepMs: number): Array<number | undefined> {
+  const points = [...reference.points].sort((a, b) => a.time - b.time);
+  return times.map((time) => {
+    const target = time - reference.periodMs;
+    let lo = 0;
+    let hi = points.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (points[mid]!.time <= target) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    const point = points[found];
+    return point && target - point.time < stepMs ? point.value : undefined;
+  });
+}
+
+/**
+ * Flag anomalous intervals in `current`.
+ *
+ * Expected value: the median of the reference periods at the same time of
+ * day / week (seasonal), or the median of the window when no reference
+ * covers at least MIN_REFERENCE_COVERAGE of its intervals (level). Noise scale: robustScale of how much the reference periods
+ * disagree with each other when there are two or more, otherwise of the
+ * interval-to-interval change in the window's residuals. An interval is anomalous when |residual| / noise
+ * ≥ threshold; spans scoring ≥ 2 × threshold are critical.
+ */
+export function detectAnomalies(
+  current: MetricPoint[],
+  references: SeasonalReference[],
+  threshold: number
+): AnomalyResult {
+  const times = current.map((p) => p.time);
+  const currentStep = medianStep(current) ?? 60_000;
+  const aligned = references.map((reference) => {
+    const stepMs = medianStep(reference.points) ?? currentStep;
+    const values = alignReference(times, reference, stepMs);
+    const coverage = times.length > 0 ? values.filter((v) => v !== undefined).length / times.length : 0;
+    return { name: reference.name, stepMs, coverage, used: coverage >= MIN_REFERENCE_COVERAGE, values };
+  });
+  const used = aligned.filter((r) => r.used);
+
+  const referenceValues = current.map((_, i) =>
+    used.flatMap((r) => {
+      const v = r.values[i];
+      return v === undefined ? [] : [v];
+    })
+  );
+  const seasonal = used.length > 0;
+  const level = median(current.map((p) => p.value));
+  const expected = referenceValues.map((values) => (values.length > 0 ? median(values) : level));
+  const residuals = current.map((p, i) => p.value - expected[i]!);
+
+  // Noise: spread between reference periods if available, else the change
+  // between consecutive residuals (/√2) — a sustained shift affects only one
+  // difference, where it would dominate the residuals themselves
+  const disagreement = referenceValues
+    .filter((values) => values.length >= 2)
+    .flatMap((values) => {
+      const m = median(values);
+      return values.map((v) => v - m);
+    });
+  const floor = Math.max(1e-6, Math.abs(median(expected)) * 0.005);
+  const spread =
+    disagreement.length >= 5
+      ? robustScale(disagreement)
+      : robustScale(residuals.slice(1).map((r, i) => r - residuals[i]!)) / Math.SQRT2;
+  const noiseScale = Math.max(spread, floor);
+
+  const intervals: AnomalyInterval[] = current.map((p, i) => {
+    const score = residuals[i]! / noiseScale;
+    return {
+      time: p.time,
+      value: p.value,
+      expected: expected[i]!,
+      lower: expected[i]! - threshold * noiseScale,
+      upper: expected[i]! + threshold * noiseScale,
+      score,
+      anomalous: Math.abs(score) >= threshold,
+    };
+  });
+
+  const spans: AnomalySpan[] = [];
+  let open: AnomalyInterval[] = [];
+  const close = () => {
+    if (open.length === 0) return;
+    const peak = open.reduce((best, iv) => (Math.abs(iv.score) > Math.abs(best.score) ? iv : best), open[0]!);
+    const maxScore = Math.abs(peak.score);
+    spans.push({
+      start: open[0]!.time,
+      end: open[open.length - 1]!.time,
+      intervals: open.length,
+      direction: peak.score > 0 ? "above" : "below",
+      severity: maxScore >= 2 * threshold ? "critical" : "warning",
+      maxScore,
+      peak: { time: peak.time, value: peak.value, expected: peak.expected, lower: peak.lower, upper: peak.upper },
+    });
+    open = [];
+  };
+  for (const iv of intervals) {
+    const sameDirection = open.length === 0 || Math.sign(open[0]!.score) === Math.sign(iv.score);
+    if (iv.anomalous && sameDirection) {
+      open.push(iv);
+    } else {
+      close();
+      if (iv.anomalous) open.push(iv);
+    }
+  }
+  close();
+
+  return {
+    model: seasonal ? "seasonal" : "level",
+    referencesUsed: used.map((r) => r.name),
+    references: aligned.map(({ name, stepMs, coverage, used }) => ({ name, stepMs, coverage, used })),
+    noiseScale,
+    threshold,
+    intervals,
+    spans,
+  };
+}
+
+// ── Forecasting ───────────────────────────────────────────────────────────────
+
+/** Values on an evenly spaced time grid. */
+export interface RegularSeries {
+  /** Time of values[0], epoch ms. */
+  start: number;
+  stepMs: number;
+  values: number[];
+}
+
+/**
+ * Resample points onto a grid at their median spacing, interpolating gaps
+ * linearly. Null for fewer than two points.
+ */
+export function regularize(points: MetricPoint[]): RegularSeries | null {
+  if (points.length < 2) return null;
+  const gaps = points.slice(1).map((p, i) => p.time - points[i]!.time).filter((g) => g > 0);
+  if (gaps.length === 0) return null;
+  const stepMs = median(gaps);
+  const start = points[0]!.time;
+  const count = Math.round((points[points.length - 1]!.time - start) / stepMs) + 1;
+
+  const values: number[] = [];
+  let j = 0;
+  for (let i = 0; i < count; i++) {
+    const t = start + i * stepMs;
+    while (j < points.length - 2 && points[j + 1]!.time <= t) j++;
+    const a = points[j]!;
+    const b = points[j + 1]!;
+    const f = b.time === a.time ? 0 : Math.min(1, Math.max(0, (t - a.time) / (b.time - a.time)));
+    values.push(a.value + (b.value - a.value) * f);
+  }
+  return { start, stepMs, values };
+}
+
+export interface ForecastModel {
+  name: "linear" | "holtWinters";
+  /** Fitted parameters, for display. */
+  params: Record<string, number>;
+  /** Standard deviation of the fit residuals (one-step errors for Holt-Winters). */
+  sigma: number;
+  /** Point forecast and its standard error h ≥ 1 steps after the last value. */
+  at(h: number): { value: number; se: number };
+}
+
+/**
+ * Least-squares line over the step index, with the usual prediction-interval
+ * standard error.
+ */
+export function fitLinear(values: number[]): ForecastModel {
+  const n = values.length;
+  const xs = values.map((_, i) => i);
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((a, b) => a + b, 0) / n;
+  const sxx = xs.reduce((acc, x) => acc + (x - meanX) ** 2, 0);
+  const slope = linearSlope(xs, values);
+  const intercept = meanY - slope * meanX;
+  const sse = values.reduce((acc, y, i) => acc + (y - (intercept + slope * i)) ** 2, 0);
+  const sigma = n > 2 ? Math.sqrt(sse / (n - 2)) : 0;
+
+  return {
+    name: "linear",
+    params: { intercept, slopePerStep: slope },
+    sigma,
+    at(h) {
+      const x = n - 1 + h;
+      const leverage = sxx === 0 ? 0 : (x - meanX) ** 2 / sxx;
+      return { value: intercept + slope * x, se: sigma * Math.sqrt(1 + 1 / n + leverage) };
+    },
+  };
+}
+
+const SMOOTHING_GRID = {
+  alpha: [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9],
+  beta: [0.01, 0.05, 0.1, 0.2, 0.3],
+  gamma: [0.05, 0.1, 0.2, 0.3, 0.5],
+};
+
+interface HoltState {
+  level: number;
+  trend: number;
+  seasonal: number[];
+  sse: number;
+  errors: number;
+}
+
+/** Run additive Holt-Winters over `values`; seasonLength 0 = Holt's linear trend. */
+function runHolt(values: number[], seasonLength: number, alpha: number, beta: number, gamma: number): HoltState {
+  const m = seasonLength;
+  let level: number;
+  let trend: number;
+  let seasonal: number[];
+  let first: number;
+  if (m > 0) {
+    const mean = (from: number) => values.slice(from, from + m).reduce((a, b) => a + b, 0) / m;
+    level = mean(0);
+    trend = (mean(m) - mean(0)) / m;
+    seasonal = values.slice(0, m).map((v) => v - level);
+    first = m;
+  } else {
+    level = values[0]!;
+    trend = values[1]! - values[0]!;
+    seasonal = [];
+    first = 1;
+  }
+
+  let sse = 0;
+  for (let t = first; t < values.length; t++) {
+    const y = values[t]!;
+    const season = m > 0 ? seasonal[t % m]! : 0;
+    const error = y - (level + trend + season);
+    sse += error ** 2;
+    const previous = level;
+    level = alpha * (y - season) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previous) + (1 - beta) * trend;
+    if (m > 0) seasonal[t % m] = gamma * (y - level) + (1 - gamma) * season;
+  }
+  return { level, trend, seasonal, sse, errors: values.length - first };
+}
+
+/**
+ * Additive Holt-Winters (level, trend and — when there are at least two full
+ * seasons — a seasonal component of `seasonLength` steps). Smoothing
+ * parameters are picked from a grid by one-step-ahead squared error; the
+ * forecast variance follows the ETS(A,A,A) approximation.
+ */
+export function fitHoltWinters(values: number[], seasonLength: number): ForecastModel {
+  const m = seasonLength >= 2 && values.length >= 2 * seasonLength ? seasonLength : 0;
+  let best: (HoltState & { alpha: number; beta: number; gamma: number }) | null = null;
+  for (const alpha of SMOOTHING_GRID.alpha) {
+    for (const beta of SMOOTHING_GRID.beta) {
+      for (const gamma of m > 0 ? SMOOTHING_GRID.gamma : [0]) {
+        const state = runHolt(values, m, alpha, beta, gamma);
+        if (best === null || state.sse < best.sse) best = { ...state, alpha, beta, gamma };
+      }
+    }
+  }
+  const fit = best!;
+  const n = values.length;
+  const sigma = fit.errors > 0 ? Math.sqrt(fit.sse / fit.errors) : 0;
+  // Error-correction form: beta and gamma as they act on the one-step error
+  const b = fit.alpha * fit.beta;
+  const g = (1 - fit.alpha) * fit.gamma;
+
+  return {
+    name: "holtWinters",
+    params: {
+      alpha: fit.alpha,
+      beta: fit.beta,
+      ...(m > 0 && { gamma: fit.gamma }),
+      seasonLengthSteps: m,
+      level: fit.level,
+      trendPerStep: fit.trend,
+    },
+    sigma,
+    at(h) {
+      const season = m > 0 ? fit.seasonal[(n - 1 + h) % m]! : 0;
+      const k = m > 0 ? Math.floor((h - 1) / m) : 0;
+      const variance =
+        1 +
+        (h - 1) * (fit.alpha ** 2 + fit.alpha * b * h + (b ** 2 * h * (2 * h - 1)) / 6) +
+        k * (g * (2 * fit.alpha + g) + b * g * m * (k + 1));
+      return { value: fit.level + h * fit.trend + season, se: sigma * Math.sqrt(variance) };
+    },
+  };
+}
+
+/**
+ * Mean absolute error of a model fitted on the first 80% of `values` when
+ * forecasting the rest; null when the series is too short to hold any out.
+ */
+export function holdoutError(values: number[], fit: (train: number[]) => ForecastModel): number | null {
+  const split = Math.floor(values.length * 0.8);
+  if (split < 4 || values.length - split < 2) return null;
+  const model = fit(values.slice(0, split));
+  const test = values.slice(split);
+  return test.reduce((acc, y, i) => acc + Math.abs(y - model.at(i + 1).value), 0) / test.length;
+}
+
+/**
+ * Two-sided standard-normal quantile for a confidence level in percent, e.g.
+ * 95 → 1.96 (Abramowitz & Stegun 26.2.23, error < 5e-4).
+ */
+export function zForConfidence(confidence: number): number {
+  const p = (1 - confidence / 100) / 2;
+  const t = Math.sqrt(-2 * Math.log(p));
+  return t - (2.515517 + 0.802853 * t + 0.010328 * t ** 2) / (1 + 1.432788 * t + 0.189269 * t ** 2 + 0.001308 * t ** 3);
+}
+
+export interface ThresholdCrossing {
+  /** "up" when the threshold is above the last value, else "down". */
+  direction: "up" | "down";
+  /** Step at which the point forecast reaches the threshold; null = not within the search. */
+  expected: number | null;
+  /** Step at which the near confidence bound first reaches it. */
+  earliest: number | null;
+  /** Step from which the far bound has reached it too. */
+  latest: number | null;
+}
+
+/**
+ * First steps (1…maxSteps after the last value) at which the forecast and its
+ * confidence bounds reach `threshold`.
+ */
+export function thresholdCrossing(
+  model: ForecastModel,
+  last: number,
+  threshold: number,
+  z: number,
+  maxSteps: number
+): ThresholdCrossing {
+  const direction = threshold >= last ? "up" : "down";
+  const reached = (v: number) => (direction === "up" ? v >= threshold : v <= threshold);
+  const crossing: ThresholdCrossing = { direction, expected: null, earliest: null, latest: null };
+  for (let h = 1; h <= maxSteps && crossing.latest === null; h++) {
+    const { value, se } = model.at(h);
+    const near = direction === "up" ? value + z * se : value - z * se;
+    const far = direction === "up" ? value - z * se : value + z * se;
+    if (crossing.earliest === null && reached(near)) crossing.earliest = h;
+    if (crossing.expected === null && reached(value)) crossing.expected = h;
+    if (reached(far)) crossing.latest = h;
+  }
+  return crossing;
+}
+
+// ── Correlation ───────────────────────────────────────────────────────────────
+
+/** Fewest aligned intervals a correlation is computed from. */
+const MIN_CORRELATION_PAIRS = 8;
+
+/** Pearson correlation; null when either side is constant. */
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i]! - meanX) * (ys[i]! - meanY);
+    sxx += (xs[i]! - meanX) ** 2;
+    syy += (ys[i]! - meanY) ** 2;
+  }
+  return sxx === 0 || syy === 0 ? null : sxy / Math.sqrt(sxx * syy);
+}
+
+/** 1-based ranks, ties sharing their average rank. */
+export function ranks(values: number[]): number[] {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1]!.v === order[start]!.v) end++;
+    for (let k = start; k <= end; k++) result[order[k]!.i] = (start + end) / 2 + 1;
+    start = end + 1;
+  }
+  return result;
+}
+
+/** Spearman rank correlation; null when either side is constant. */
+export function spearman(xs: number[], ys: number[]): number | null {
+  return pearson(ranks(xs), ranks(ys));
+}
+
+export type CorrelationMethod = "pearson" | "spearman";
+
+export interface LaggedCorrelation {
+  /** Steps the candidate is shifted by: positive = the candidate moves first. */
+  lag: number;
+  pearson: number;
+  spearman: number;
+  /** Aligned intervals the coefficients are computed from. */
+  pairs: number;
+}
+
+/**
+ * Correlate `candidate` with `target` at every lag from −maxLag to +maxLag
+ * steps and return the lag with the largest |r| by `method` (ties go to the
+ * smallest shift); null when no lag has enough aligned, non-constant
+ * intervals. At lag L the target at time t is paired with the candidate at
+ * t − L × step.
+ */
+export function bestLaggedCorrelation(
+  target: MetricPoint[],
+  candidate: MetricPoint[],
+  stepMs: number,
+  maxLag: number,
+  method: CorrelationMethod
+): LaggedCorrelation | null {
+  const byTime = new Map(candidate.map((p) => [p.time, p.value]));
+  let best: LaggedCorrelation | null = null;
+  for (let lag = 0; lag <= maxLag; lag++) {
+    for (const signed of lag === 0 ? [0] : [lag, -lag]) {
+      const xs: number[] = [];
+      const ys: number[] = [];
+      for (const p of target) {
+        const v = byTime.get(p.time - signed * stepMs);
+        if (v === undefined) continue;
+        xs.push(p.value);
+        ys.push(v);
+      }
+      if (xs.length < MIN_CORRELATION_PAIRS) continue;
+      const r = pearson(xs, ys);
+      const rho = spearman(xs, ys);
+      if (r === null || rho === null) continue;
+      const score = Math.abs(method === "pearson" ? r : rho);
+      const bestScore = best === null ? -1 : Math.abs(method === "pearson" ? best.pearson : best.spearman);
+      if (score > bestScore) best = { lag: signed, pearson: r, spearman: rho, pairs: xs.length };
+    }
+  }
+  return best;
+}
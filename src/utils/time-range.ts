@@ -0,0 +1,245 @@
+/**
+ * Shared time-range input for time-windowed tools.
+ *
+ * `timeRange` accepts either a string:
+ *   - "last 2h", "last 90 minutes", "past 3 days", "PT2H"      → BEFORE_NOW
+ *   - "2026-10-18T14:00Z/PT90M"                                → AFTER_TIME
+ *   - "PT90M/2026-10-18T15:30Z"                                → BEFORE_TIME
+ *   - "2026-10-18T14:00Z/2026-10-18T15:30Z"                    → BETWEEN_TIMES
+ * or an object with an explicit AppDynamics time-range type:
+ *   { type: "BEFORE_NOW", durationInMins } | { type: "BETWEEN_TIMES", start, end }
+ *   { type: "AFTER_TIME", start, durationInMins } | { type: "BEFORE_TIME", end, durationInMins }
+ *
+ * Times are ISO-8601 or epoch milliseconds; ISO times without an offset are
+ * read in the configured time zone (APPD_TIMEZONE). resolveTimeRange turns
+ * the input into controller query parameters plus absolute bounds.
+ */
+
+import { z } from "zod";
+import { getDisplayConfig } from "../config.js";
+import { formatTimestamp, zonedParts } from "./formatting.js";
+
+export type TimeRangeType = "BEFORE_NOW" | "BETWEEN_TIMES" | "AFTER_TIME" | "BEFORE_TIME";
+
+const TimeValueSchema = z
+  .union([z.string(), z.number().int().nonnegative()])
+  .describe("ISO-8601 time (e.g. 2026-10-18T14:00Z) or epoch milliseconds.");
+
+const MinutesSchema = z.number().int().min(1).describe("Window length in minutes.");
+
+export const TimeRangeSchema = z
+  .union([
+    z.string().min(1),
+    z.discriminatedUnion("type", [
+      z.object({ type: z.literal("BEFORE_NOW"), durationInMins: MinutesSchema }),
+      z.object({ type: z.literal("BETWEEN_TIMES"), start: TimeValueSchema, end: TimeValueSchema }),
+      z.object({ type: z.literal("AFTER_TIME"), start: TimeValueSchema, durationInMins: MinutesSchema }),
+      z.object({ type: z.literal("BEFORE_TIME"), end: TimeValueSchema, durationInMins: MinutesSchema }),
+    ]),
+  ])
+  .describe(
+    'Time window; overrides durationInMins. A string — "last 2h", "last 30m", "past 7 days", ' +
+      '"2026-10-18T14:00Z/PT90M" (start + duration), "PT90M/2026-10-18T15:30Z" (duration before end), ' +
+      '"2026-10-18T14:00Z/2026-10-18T15:30Z" (start/end) — or an object ' +
+      '{type: "BEFORE_NOW"|"BETWEEN_TIMES"|"AFTER_TIME"|"BEFORE_TIME", durationInMins?, start?, end?}. ' +
+      "Times are ISO-8601 or epoch ms; ISO times without an offset use the server's time zone."
+  );
+
+export type TimeRangeInput = z.infer<typeof TimeRangeSchema>;
+
+/** One-line Args entry for tool descriptions. */
+export const TIME_RANGE_ARG_DOC =
+  '  - timeRange (string|object, optional): Absolute or relative window, e.g. "last 2h", ' +
+  '"2026-10-18T14:00Z/PT90M", "2026-10-18T14:00Z/2026-10-18T15:30Z"; overrides durationInMins';
+
+export interface ResolvedTimeRange {
+  type: TimeRangeType;
+  /** Controller query parameters: time-range-type plus duration-in-mins / start-time / end-time. */
+  params: Record<string, string | number>;
+  /** Absolute bounds, epoch ms. */
+  startMs: number;
+  endMs: number;
+  durationInMins: number;
+  /** Human-readable description, e.g. "Last 60 minutes". */
+  label: string;
+}
+
+// ── Parsing ───────────────────────────────────────────────────────────────────
+
+const UNIT_MINUTES: Array<[RegExp, number]> = [
+  [/^(m|min|mins|minutes?)$/, 1],
+  [/^(h|hr|hrs|hours?)$/, 60],
+  [/^(d|days?)$/, 1440],
+  [/^(w|wk|wks|weeks?)$/, 10080],
+];
+
+const RELATIVE = /^(?:last|past)\s+(\d+(?:\.\d+)?)\s*([a-z]+)$/i;
+const ISO_DURATION = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i;
+const LOCAL_ISO = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+function parseIsoDuration(text: string): number | null {
+  const m = text.trim().match(ISO_DURATION);
+  if (!m || text.trim().toUpperCase() === "P" || /T$/i.test(text.trim())) return null;
+  const [, w, d, h, min, s] = m.map((v) => Number(v ?? 0));
+  const minutes = w! * 10080 + d! * 1440 + h! * 60 + min! + s! / 60;
+  return minutes > 0 ? Math.ceil(minutes) : null;
+}
+
+/** Wall-clock fields in a time zone → epoch ms. */
+function zonedToEpoch(fields: number[], timeZone: string): number {
+  const [year, month, day, hour = 0, minute = 0, second = 0] = fields;
+  const wall = Date.UTC(year!, month! - 1, day!, hour, minute, second);
+  const offsetAt = (instant: number) => {
+    const p = zonedParts(instant, timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - instant;
+  };
+  // Two passes settle the offset across DST transitions
+  const first = wall - offsetAt(wall);
+  return wall - offsetAt(first);
+}
+
+/**
+ * Parse an ISO-8601 time or epoch milliseconds to epoch ms.
+ */
+export function parseTime(value: string | number): number {
+  if (typeof value === "number") return value;
+  const text = value.trim();
+  if (/^\d+$/.test(text)) return Number(text);
+
+  if (!HAS_OFFSET.test(text)) {
+    const local = text.match(LOCAL_ISO);
+    if (local) {
+      const fields = local.slice(1).filter((v) => v !== undefined).map(Number);
+      return zonedToEpoch(fields, getDisplayConfig().timeZone);
+    }
+  }
+  const parsed = Date.parse(text);
+  if (isNaN(parsed)) {
+    throw new Error(`Invalid time "${value}". Use ISO-8601 (e.g. 2026-10-18T14:00Z) or epoch milliseconds.`);
+  }
+  return parsed;
+}
+
+function parseRelative(text: string): number | null {
+  const m = text.match(RELATIVE);
+  if (m) {
+    const unit = UNIT_MINUTES.find(([pattern]) => pattern.test(m[2]!.toLowerCase()));
+    if (!unit) return null;
+    const minutes = Math.ceil(Number(m[1]) * unit[1]);
+    return minutes > 0 ? minutes : null;
+  }
+  return parseIsoDuration(text);
+}
+
+/** Turn the string form into the object form. */
+function parseTimeRangeString(text: string): Exclude<TimeRangeInput, string> {
+  const trimmed = text.trim();
+  const relative = parseRelative(trimmed);
+  if (relative !== null) return { type: "BEFORE_NOW", durationInMins: relative };
+
+  const parts = trimmed.split("/");
+  if (parts.length === 2) {
+    const [left, right] = parts.map((p) => p.trim()) as [string, string];
+    const leftDuration = parseIsoDuration(left);
+    const rightDuration = parseIsoDuration(right);
+    if (leftDuration !== null && rightDuration === null) {
+      return { type: "BEFORE_TIME", end: right, durationInMins: leftDuration };
+    }
+    if (rightDuration !== null && leftDuration === null) {
+      return { type: "AFTER_TIME", start: left, durationInMins: rightDuration };
+    }
+    if (leftDuration === null && rightDuration === null) {
+      return { type: "BETWEEN_TIMES", start: left, end: right };
+    }
+  }
+
+  throw new Error(
+    `Unrecognised time range "${text}". Use "last 2h", "last 30m", "past 7 days", ` +
+      `"<start>/PT90M", "PT90M/<end>" or "<start>/<end>" with ISO-8601 times.`
+  );
+}
+
+// ── Resolution ────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve `timeRange` (or, when absent, `durationInMins` / the tool's default)
+ * to controller parameters and absolute bounds.
+ */
+export function resolveTimeRange(
+  timeRange: TimeRangeInput | undefined,
+  durationInMins: number | undefined,
+  defaultMins: number,
+  now: number = Date.now()
+): ResolvedTimeRange {
+  const range =
+    timeRange === undefined
+      ? { type: "BEFORE_NOW" as const, durationInMins: durationInMins ?? defaultMins }
+      : typeof timeRange === "string"
+        ? parseTimeRangeString(timeRange)
+        : timeRange;
+
+  switch (range.type) {
+    case "BEFORE_NOW": {
+      const minutes = range.durationInMins;
+      return {
+        type: "BEFORE_NOW",
+        params: { "time-range-type": "BEFORE_NOW", "duration-in-mins": minutes },
+        startMs: now - minutes * 60_000,
+        endMs: now,
+        durationInMins: minutes,
+        label: `Last ${minutes} minutes`,
+      };
+    }
+    case "BETWEEN_TIMES": {
+      const startMs = parseTime(range.start);
+      const endMs = parseTime(range.end);
+      if (endMs <= startMs) {
+        throw new Error(`Time range end (${formatTimestamp(endMs)}) must be after its start (${formatTimestamp(startMs)}).`);
+      }
+      return {
+        type: "BETWEEN_TIMES",
+        params: { "time-range-type": "BETWEEN_TIMES", "start-time": startMs, "end-time": endMs },
+        startMs,
+        endMs,
+        durationInMins: Math.ceil((endMs - startMs) / 60_000),
+        label: `${formatTimestamp(startMs)} – ${formatTimestamp(endMs)}`,
+      };
+    }
+    case "AFTER_TIME": {
+      const startMs = parseTime(range.start);
+      const endMs = startMs + range.durationInMins * 60_000;
+      return {
+        type: "AFTER_TIME",
+        params: { "time-range-type": "AFTER_TIME", "start-time": startMs, "duration-in-mins": range.durationInMins },
+        startMs,
+        endMs,
+        durationInMins: range.durationInMins,
+        label: `${formatTimestamp(startMs)} – ${formatTimestamp(endMs)}`,
+      };
+    }
+    case "BEFORE_TIME": {
+      const endMs = parseTime(range.end);
+      const startMs = endMs - range.durationInMins * 60_000;
+      return {
+        type: "BEFORE_TIME",
+        params: { "time-range-type": "BEFORE_TIME", "end-time": endMs, "duration-in-mins": range.durationInMins },
+        startMs,
+        endMs,
+        durationInMins: range.durationInMins,
+        label: `${formatTimestamp(startMs)} – ${formatTimestamp(endMs)}`,
+      };
+    }
+  }
+}
+
+/**
+ * The window of the same length immediately before `range` (for baselines).
+ */
+export function precedingTimeRange(range: ResolvedTimeRange): ResolvedTimeRange {
+  return resolveTimeRange(
+    { type: "BEFORE_TIME", end: range.startMs, durationInMins: range.durationInMins },
+    undefined,
+    range.durationInMins
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * Startup tool selection: category toggles plus allow/deny globs on tool names.
+ *
+ * Rules, in order:
+ *  1. A tool matching any deny glob is skipped.
+ *  2. A tool matching any allow glob is registered.
+ *  3. Otherwise its category decides: enabledCategories when set; all
+ *     categories when neither enabledCategories nor allowTools is set.
+ *     disabledCategories always removes a category.
+ */
+
+import type { ToolFilterConfig } from "../config.js";
+
+export const TOOL_CATEGORIES = [
+  "discovery",
+  "health",
+  "performance",
+  "infrastructure",
+  "diagnostics",
+  "root-cause",
+  "metrics",
+  "dashboards",
+  "audit",
+] as const;
+
+export type ToolCategory = (typeof TOOL_CATEGORIES)[number];
+
+/**
+ * Convert a glob (`*` = any run of characters, `?` = one character) to an
+ * anchored, case-insensitive RegExp.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`, "i");
+}
+
+function validateCategories(names: string[] | undefined, setting: string): void {
+  for (const name of names ?? []) {
+    if (!(TOOL_CATEGORIES as readonly string[]).includes(name)) {
+      throw new Error(
+        `Unknown tool category "${name}" in ${setting}. Valid categories: ${TOOL_CATEGORIES.join(", ")}.`
+      );
+    }
+  }
+}
+
+export interface ToolFilter {
+  /** Reason the tool is skipped, or null when it should be registered. */
+  skipReason(name: string, category: ToolCategory): string | null;
+}
+
+export function createToolFilter(config: ToolFilterConfig): ToolFilter {
+  validateCategories(config.enabledCategories, "enabled categories");
+  validateCategories(config.disabledCategories, "disabled categories");
+
+  const allow = config.allowTools.map(globToRegExp);
+  const deny = config.denyTools.map(globToRegExp);
+  const enabled = new Set<string>(
+    config.enabledCategories ?? (allow.length > 0 ? [] : TOOL_CATEGORIES)
+  );
+  for (const category of config.disabledCategories) enabled.delete(category);
+
+  return {
+    skipReason(name, category) {
+      const denied = config.denyTools.find((_, i) => deny[i]!.test(name));
+      if (denied) return `denied by "${denied}"`;
+      if (allow.some((re) => re.test(name))) return null;
+      if (enabled.has(category)) return null;
+      return allow.length > 0 && config.enabledCategories === undefined
+        ? "not in allow list"
+        : `category "${category}" disabled`;
+    },
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Cross-cutting behavior applied to every registered tool.
+ *
+ * Wraps McpServer.registerTool so the individual register*Tools functions stay
+ * unchanged. Currently adds:
+ *  - an optional `controller` argument that selects the target controller
+ *    for the duration of the call, and the tool name for the audit log
+ *    (see request-context.ts)
+ *  - safe mode (see config.ts): "read-only" skips registration of mutating
+ *    tools; "confirm" gates destructive tools behind a confirmation token
+ *  - category / allow / deny selection (see tool-filter.ts)
+ *  - a catalog of every tool seen, registered or skipped, for startup
+ *    logging and appd_server_info
+ */
+
+import { z } from "zod";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { listControllerNames, getDefaultControllerName } from "../services/auth.js";
+import { getSafetyConfig, getToolFilterConfig, type SafetyConfig } from "../config.js";
+import { runWithContext } from "./request-context.js";
+import { handleError, textResponse } from "./error-handler.js";
+import { issueConfirmationToken, redeemConfirmationToken } from "./confirmation.js";
+import { createToolFilter, type ToolCategory } from "./tool-filter.js";
+import type { ToolResponse } from "../types.js";
+
+interface ToolConfig {
+  title?: string;
+  description?: string;
+  inputSchema?: Record<string, z.ZodTypeAny>;
+  annotations?: ToolAnnotations;
+  [key: string]: unknown;
+}
+type ToolHandler = (args: Record<string, unknown>, extra: unknown) => unknown;
+type RegisterFn = (name: string, config: ToolConfig, cb: ToolHandler) => RegisteredTool | undefined;
+
+export interface ToolCatalogEntry {
+  name: string;
+  title: string | undefined;
+  /** "server" for tools registered outside a category; those are never filtered. */
+  category: ToolCategory | "server";
+  /** Why the tool was not registered, or null when it is active. */
+  skipped: string | null;
+  readOnly: boolean;
+  /** Requires a confirmation token (safe mode "confirm"). */
+  confirm: boolean;
+}
+
+export interface ToolCatalog {
+  readonly entries: ToolCatalogEntry[];
+  /** Run `register` with every tool it registers tagged as `category`. */
+  inCategory(category: ToolCategory, register: () => void): void;
+}
+
+const CONFIRMATION_NOTE = `
+
+Confirmation required (safe mode): the first call only describes the action and returns a confirmation_token. Repeat the call with the same arguments plus confirmation_token to execute it.`;
+
+/** MCP defaults readOnlyHint to false, so an unannotated tool counts as mutating. */
+function isMutating(config: ToolConfig): boolean {
+  return config.annotations?.readOnlyHint !== true;
+}
+
+function needsConfirmation(config: ToolConfig, safety: SafetyConfig): boolean {
+  return safety.mode === "confirm" && config.annotations?.destructiveHint === true;
+}
+
+/**
+ * Handle a destructive call in confirm mode. Returns a response when the call
+ * must not proceed (token issued or rejected), or null when it may execute.
+ */
+function checkConfirmation(
+  name: string,
+  controller: string | undefined,
+  args: Record<string, unknown>,
+  token: unknown,
+  safety: SafetyConfig
+): ToolResponse | null {
+  if (typeof token !== "string" || token === "") {
+    const issued = issueConfirmationToken(name, controller, args, safety.confirmTtlMs);
+    const minutes = Math.round(safety.confirmTtlMs / 60000);
+    return textResponse(
+      `Confirmation required — ${name} was NOT executed.\n\n` +
+        `Controller: ${controller ?? getDefaultControllerName()}\n` +
+        `Arguments: ${JSON.stringify(args)}\n\n` +
+        `Confirm with the user, then repeat the call with the same arguments and confirmation_token: "${issued}" (valid ${minutes} min, single use).`
+    );
+  }
+  const rejection = redeemConfirmationToken(token, name, controller, args);
+  return rejection
+    ? handleError(new Error(`${rejection} Call ${name} again without confirmation_token to get a new one.`))
+    : null;
+}
+
+function controllerSchema(): z.ZodOptional<z.ZodString> {
+  const names = listControllerNames();
+  const known = names.length > 0 ? ` Configured: ${names.join(", ")}.` : "";
+  return z
+    .string()
+    .optional()
+    .describe(
+      `Optional: name of the AppDynamics controller to query. Defaults to "${getDefaultControllerName()}".${known}`
+    );
+}
+
+/**
+ * Install the middleware on a server. Must be called before any tools are registered.
+ * Returns the catalog that fills up as tools are registered.
+ */
+export function installToolMiddleware(server: McpServer): ToolCatalog {
+  const register = server.registerTool.bind(server) as unknown as RegisterFn;
+  const controller = controllerSchema();
+  const safety = getSafetyConfig();
+  const filter = createToolFilter(getToolFilterConfig());
+  let currentCategory: ToolCategory | "server" = "server";
+
+  const catalog: ToolCatalog = {
+    entries: [],
+    inCategory(category, registerTools) {
+      currentCategory = category;
+      try {
+        registerTools();
+      } finally {
+        currentCategory = "server";
+      }
+    },
+  };
+
+  const wrapped: RegisterFn = (name, config, cb) => {
+    const confirm = needsConfirmation(config, safety);
+    const entry: ToolCatalogEntry = {
+      name,
+      title: config.title,
+      category: currentCategory,
+      skipped: null,
+      readOnly: !isMutating(config),
+      confirm,
+    };
+    catalog.entries.push(entry);
+
+    if (safety.mode === "read-only" && isMutating(config)) {
+      entry.skipped = "safe mode read-only";
+    } else if (entry.category !== "server") {
+      entry.skipped = filter.skipReason(name, entry.category);
+    }
+    if (entry.skipped) {
+      return undefined;
+    }
+
+    const inputSchema: Record<string, z.ZodTypeAny> = {
+      ...(config.inputSchema ?? {}),
+      controller,
+    };
+    let description = config.description;
+    if (confirm) {
+      inputSchema.confirmation_token = z
+        .string()
+        .optional()
+        .describe("Token returned by the first call. Omit to request one.");
+      description = `${description ?? ""}${CONFIRMATION_NOTE}`;
+    }
+
+    return register(name, { ...config, description, inputSchema }, (args, extra) => {
+      const { controller: selected, confirmation_token, ...rest } = args;
+      const controllerName = typeof selected === "string" ? selected : undefined;
+      return runWithContext({ controller: controllerName, tool: name }, async () => {
+        if (confirm) {
+          const blocked = checkConfirmation(name, controllerName, rest, confirmation_token, safety);
+          if (blocked) return blocked;
+        }
+        return cb(rest, extra);
+      });
+    });
+  };
+
+  server.registerTool = wrapped as unknown as McpServer["registerTool"];
+  return catalog;
+}
@@ -0,0 +1,261 @@
+/**
+ * Minimal YAML for health-rule files: enough to write JSON-shaped data as
+ * block YAML and read it back after hand edits.
+ *
+ * Supported: block mappings and sequences, plain / single- / double-quoted
+ * scalars, null / booleans / numbers, empty and one-line flow collections of
+ * scalars ([a, b], {}), and # comments. Anchors, tags, multi-document streams
+ * and block scalars (| and >) are rejected with the line number.
+ */
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+// ── Writing ───────────────────────────────────────────────────────────────────
+
+const RESERVED = /^(null|~|true|false|yes|no|on|off|y|n)$/i;
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const PLAIN = /^[A-Za-z_/(][A-Za-z0-9_ .,/()%|@+-]*$/;
+const PLAIN_KEY = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+function scalarToYaml(value: null | boolean | number | string): string {
+  if (value === null) return "null";
+  if (typeof value !== "string") return String(value);
+  if (PLAIN.test(value) && !RESERVED.test(value) && !value.endsWith(" ")) return value;
+  return JSON.stringify(value);
+}
+
+function isCollection(value: unknown): value is Json[] | { [key: string]: Json } {
+  return value !== null && typeof value === "object";
+}
+
+function isEmptyCollection(value: Json[] | { [key: string]: Json }): boolean {
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0;
+}
+
+function blockLines(value: Json, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (!isCollection(item) || isEmptyCollection(item)) {
+        return [`${indent}- ${isCollection(item) ? (Array.isArray(item) ? "[]" : "{}") : scalarToYaml(item)}`];
+      }
+      // First line shares the "- ", the rest align under it
+      const [first, ...rest] = blockLines(item, `${indent}  `);
+      return [`${indent}- ${first!.slice(indent.length + 2)}`, ...rest];
+    });
+  }
+  if (isCollection(value)) {
+    return Object.entries(value).flatMap(([key, child]) => {
+      const k = PLAIN_KEY.test(key) && !RESERVED.test(key) ? key : JSON.stringify(key);
+      if (!isCollection(child)) return [`${indent}${k}: ${scalarToYaml(child)}`];
+      if (isEmptyCollection(child)) return [`${indent}${k}: ${Array.isArray(child) ? "[]" : "{}"}`];
+      return [`${indent}${k}:`, ...blockLines(child, `${indent}  `)];
+    });
+  }
+  return [`${indent}${scalarToYaml(value)}`];
+}
+
+/** Block YAML for a JSON-compatible value, ending with a newline. */
+export function toYaml(value: unknown): string {
+  return `${blockLines(JSON.parse(JSON.stringify(value)) as Json, "").join("\n")}\n`;
+}
+
+// ── Reading ───────────────────────────────────────────────────────────────────
+
+interface Line {
+  /** 1-based line number in the source, for errors. */
+  number: number;
+  indent: number;
+  text: string;
+}
+
+function fail(line: Line | undefined, message: string): never {
+  throw new Error(line ? `YAML line ${line.number}: ${message}` : `YAML: ${message}`);
+}
+
+/** Strip a trailing " # comment" that is outside quotes. */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]!;
+    if (quote) {
+      if (c === "\\" && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === "#" && (i === 0 || text[i - 1] === " " || text[i - 1] === "\t")) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+function splitFlow(inner: string, line: Line): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    const c = inner[i]!;
+    if (quote) {
+      if (c === "\\" && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === "[" || c === "{") {
+      fail(line, "nested flow collections are not supported — use block style");
+    } else if (c === ",") {
+      items.push(inner.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  const last = inner.slice(start).trim();
+  if (last !== "") items.push(last);
+  return items;
+}
+
+function parseScalar(raw: string, line: Line): Json {
+  const text = raw.trim();
+  if (text === "" || text === "~" || text === "null" || text === "Null" || text === "NULL") return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (NUMBER.test(text)) return Number(text);
+  if (text.startsWith('"')) {
+    if (!text.endsWith('"') || text.length < 2) fail(line, "unterminated double-quoted string");
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      fail(line, `invalid double-quoted string ${text}`);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) fail(line, "unterminated single-quoted string");
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith("[")) {
+    if (!text.endsWith("]")) fail(line, "flow sequences must close on the same line");
+    return splitFlow(text.slice(1, -1), line).map((item) => parseScalar(item, line));
+  }
+  if (text.startsWith("{")) {
+    if (text.replace(/\s/g, "") !== "{}") fail(line, "flow mappings are not supported — use block style");
+    return {};
+  }
+  if (/^[|>]/.test(text)) fail(line, "block scalars (| and >) are not supported — use a quoted string");
+  if (/^[&*!]/.test(text)) fail(line, "anchors, aliases and tags are not supported");
+  return text;
+}
+
+/** Split "key: value" at the first ": " (or trailing ":") outside quotes. */
+function splitKey(text: string, line: Line): [string, string] | null {
+  let end: number;
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const quote = text[0]!;
+    end = 1;
+    while (end < text.length && text[end] !== quote) end += text[end] === "\\" && quote === '"' ? 2 : 1;
+    if (end >= text.length) fail(line, "unterminated quoted key");
+    end++;
+    if (text[end] !== ":") return null;
+  } else {
+    const match = /:(\s|$)/.exec(text);
+    if (!match) return null;
+    end = match.index;
+  }
+  const rawKey = text.slice(0, end).trim();
+  const key = rawKey.startsWith('"') || rawKey.startsWith("'") ? String(parseScalar(rawKey, line)) : rawKey;
+  return [key, text.slice(end + 1).trim()];
+}
+
+const isSequenceItem = (line: Line) => line.text === "-" || line.text.startsWith("- ");
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly lines: Line[]) {}
+
+  parseDocument(): Json {
+    if (this.lines.length === 0) return null;
+    const first = this.lines[0]!;
+    let value: Json;
+    if (this.lines.length === 1 && !isSequenceItem(first) && !splitKey(first.text, first)) {
+      this.pos++;
+      value = parseScalar(first.text, first);
+    } else {
+      value = this.parseBlock(first.indent);
+    }
+    if (this.pos < this.lines.length) fail(this.lines[this.pos], "unexpected indentation");
+    return value;
+  }
+
+  private parseBlock(indent: number): Json {
+    const line = this.lines[this.pos]!;
+    return isSequenceItem(line) ? this.parseSequence(indent) : this.parseMapping(indent);
+  }
+
+  /** Value of a "key:" or "-" with nothing after it: a nested block, or null. */
+  private parseNested(parentIndent: number, allowSameIndentSequence: boolean): Json {
+    const next = this.lines[this.pos];
+    if (!next) return null;
+    if (next.indent > parentIndent) return this.parseBlock(next.indent);
+    if (allowSameIndentSequence && next.indent === parentIndent && isSequenceItem(next)) {
+      return this.parseSequence(parentIndent);
+    }
+    return null;
+  }
+
+  private parseSequence(indent: number): Json[] {
+    const items: Json[] = [];
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos]!;
+      if (line.indent < indent) break;
+      if (line.indent > indent) fail(line, "unexpected indentation");
+      if (!isSequenceItem(line)) break;
+      const rest = line.text.slice(1).trimStart();
+      if (rest === "") {
+        this.pos++;
+        items.push(this.parseNested(indent, false));
+      } else if (rest === "-" || rest.startsWith("- ") || (!/^[[{]/.test(rest) && splitKey(rest, line))) {
+        // "- key: value" / "- - item": the rest is the first line of a nested block
+        const nestedIndent = indent + (line.text.length - rest.length);
+        this.lines[this.pos] = { number: line.number, indent: nestedIndent, text: rest };
+        items.push(this.parseBlock(nestedIndent));
+      } else {
+        this.pos++;
+        items.push(parseScalar(rest, line));
+      }
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): { [key: string]: Json } {
+    const result: { [key: string]: Json } = {};
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos]!;
+      if (line.indent < indent) break;
+      if (line.indent > indent) fail(line, "unexpected indentation");
+      if (isSequenceItem(line)) fail(line, "sequence item where a key was expected");
+      const entry = splitKey(line.text, line);
+      if (!entry) fail(line, `expected "key: value", got "${line.text}"`);
+      const [key, rest] = entry;
+      if (Object.prototype.hasOwnProperty.call(result, key)) fail(line, `duplicate key "${key}"`);
+      this.pos++;
+      result[key] = rest === "" ? this.parseNested(indent, true) : parseScalar(rest, line);
+    }
+    return result;
+  }
+}
+
+/** Parse the supported YAML subset. Throws with the line number on anything else. */
+export function parseYaml(source: string): unknown {
+  const lines: Line[] = [];
+  const raw = source.replace(/^\uFEFF/, "").split(/\r?\n/);
+  for (let i = 0; i < raw.length; i++) {
+    const full = raw[i]!;
+    const number = i + 1;
+    const indentText = /^[ \t]*/.exec(full)![0];
+    const text = stripComment(full.slice(indentText.length));
+    if (text === "") continue;
+    if (indentText.includes("\t")) fail({ number, indent: 0, text }, "tabs are not allowed in indentation");
+    if (text === "---" && lines.length === 0) continue;
+    if (text === "---" || text === "...") fail({ number, indent: 0, text }, "multiple documents are not supported");
+    lines.push({ number, indent: indentText.length, text });
+  }
+  return new Parser(lines).parseDocument();
+}
@@ -0,0 +1,44 @@
+/**
+ * Fixture record / replay: responses recorded against the fake controller are
+ * served from disk once the controller is gone.
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type Harness } from "./harness.js";
+import { registerApplicationTools } from "../src/tools/applications.js";
+import { registerHealthRuleTools } from "../src/tools/health-rules.js";
+import { invalidateCache } from "../src/services/response-cache.js";
+import { getDefaultControllerName } from "../src/services/auth.js";
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness([registerApplicationTools, registerHealthRuleTools]);
+});
+
+after(async () => {
+  delete process.env["APPD_FIXTURE_MODE"];
+  await h.close();
+});
+
+test("replay answers recorded requests without the controller", async () => {
+  process.env["APPD_FIXTURE_MODE"] = "record";
+  const recordedApps = await h.call("appd_get_applications");
+  const recordedRules = await h.call("appd_get_health_rules", { application: "Checkout" });
+  assert.equal(recordedApps.isError, false, recordedApps.text);
+  assert.equal(recordedRules.isError, false, recordedRules.text);
+  assert.match(recordedRules.text, /Payment response time/);
+
+  // Nothing may reach the controller from here on
+  await h.fake.close();
+  invalidateCache(getDefaultControllerName());
+  process.env["APPD_FIXTURE_MODE"] = "replay";
+
+  assert.deepEqual(await h.call("appd_get_applications"), recordedApps);
+  assert.deepEqual(await h.call("appd_get_health_rules", { application: "Checkout" }), recordedRules);
+
+  const missing = await h.call("appd_get_health_rules", { application: "Inventory" });
+  assert.equal(missing.isError, true);
+  assert.match(missing.text, /No fixture recorded/);
+});
@@ -0,0 +1,82 @@
+/**
+ * Test harness: a fake controller plus an MCP client connected in-process to
+ * a server with the given tools registered.
+ *
+ * Controller settings are read once per process, so each test file starts one
+ * harness and shares it between its tests.
+ */
+
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { startFakeController, type FakeController } from "../src/testing/fake-controller.js";
+
+export interface ToolResult {
+  text: string;
+  isError: boolean;
+}
+
+export interface Harness {
+  fake: FakeController;
+  client: Client;
+  /** Scratch directory for undo records, fixtures and rule files; removed on close. */
+  dir: string;
+  call(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+  close(): Promise<void>;
+}
+
+export async function startHarness(register: Array<(server: McpServer) => void>): Promise<Harness> {
+  const fake = await startFakeController();
+  const dir = await mkdtemp(join(tmpdir(), "appd-mcp-test-"));
+
+  // Hermetic settings: nothing from the developer's environment or home directory
+  for (const key of [
+    "APPD_MCP_CONFIG",
+    "APPD_CONTROLLERS",
+    "APPD_API_KEY",
+    "APPD_ACCOUNT_NAME",
+    "APPD_SAFE_MODE",
+    "APPD_FIXTURE_MODE",
+    "APPD_TIMEZONE",
+  ]) {
+    delete process.env[key];
+  }
+  Object.assign(process.env, {
+    APPD_URL: fake.url,
+    APPD_CLIENT_NAME: "test",
+    APPD_CLIENT_SECRET: "test",
+    APPD_AUDIT_LOG: "off",
+    APPD_UNDO_DIR: join(dir, "undo"),
+    APPD_FIXTURE_DIR: join(dir, "fixtures"),
+    APPD_PROMPTS_DIR: "off",
+    APPD_HEALTH_RULE_TEMPLATES_DIR: "off",
+    APPD_METRIC_INDEX_DIR: "off",
+  });
+
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  for (const fn of register) fn(server);
+  const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverSide);
+  const client = new Client({ name: "test", version: "0.0.0" });
+  await client.connect(clientSide);
+
+  return {
+    fake,
+    client,
+    dir,
+    async call(name, args = {}) {
+      const result = await client.callTool({ name, arguments: args });
+      const content = result.content as Array<{ type: string; text?: string }>;
+      return { text: content.map((c) => c.text ?? "").join("\n"), isError: result.isError === true };
+    },
+    async close() {
+      await client.close();
+      await server.close();
+      await fake.close();
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
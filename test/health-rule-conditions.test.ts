@@ -0,0 +1,162 @@
+/**
+ * Health rule conditions: argument validation and the alerting-API payload
+ * for fixed, baseline and expression conditions.
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type Harness } from "./harness.js";
+import { buildConditions, ConditionSchema } from "../src/utils/health-rule-conditions.js";
+import { registerHealthRuleTools } from "../src/tools/health-rules.js";
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness([registerHealthRuleTools]);
+});
+
+after(async () => {
+  await h.close();
+});
+
+const build = (...conditions: unknown[]) => buildConditions(conditions.map((c) => ConditionSchema.parse(c)));
+
+const issues = (condition: unknown) => {
+  const result = ConditionSchema.safeParse(condition);
+  assert.equal(result.success, false, JSON.stringify(condition));
+  return result.error!.issues.map((issue) => issue.message);
+};
+
+test("fixed thresholds map the aggregate function and operator", () => {
+  assert.deepEqual(build({ metricPath: "Errors per Minute", threshold: 5 }), [
+    {
+      name: "Condition 1",
+      shortcutAlerted: false,
+      evalDetail: {
+        evalDetailType: "SINGLE_METRIC",
+        metricAggregateFunction: "VALUE",
+        metricPath: "Errors per Minute",
+        metricEvalDetail: { metricEvalDetailType: "SPECIFIC_TYPE", compareCondition: "GREATER_THAN", compareValue: 5 },
+      },
+    },
+  ]);
+
+  const [average, max] = build(
+    { metricPath: "Calls per Minute", threshold: 10, operator: "LESS_THAN", aggregateFunction: "AVERAGE" },
+    { metricPath: "Average Response Time (ms)", threshold: 2000, aggregateFunction: "MAX", name: "Slowest" }
+  );
+  assert.deepEqual(average?.evalDetail, {
+    evalDetailType: "SINGLE_METRIC",
+    metricAggregateFunction: "VALUE",
+    metricPath: "Calls per Minute",
+    metricEvalDetail: { metricEvalDetailType: "SPECIFIC_TYPE", compareCondition: "LESS_THAN", compareValue: 10 },
+  });
+  assert.equal(max?.name, "Slowest");
+  assert.deepEqual(max?.evalDetail, {
+    evalDetailType: "SINGLE_METRIC",
+    metricAggregateFunction: "MAXIMUM",
+    metricPath: "Average Response Time (ms)",
+    metricEvalDetail: { metricEvalDetailType: "SPECIFIC_TYPE", compareCondition: "GREATER_THAN", compareValue: 2000 },
+  });
+});
+
+test("baseline conditions name the trend's baseline unless one is given", () => {
+  const [daily, named] = build(
+    { metricPath: "Average Response Time (ms)", threshold: 3, baseline: {} },
+    {
+      metricPath: "Calls per Minute",
+      threshold: 50,
+      baseline: { name: "Black Friday", unit: "PERCENTAGE", compare: "NOT_WITHIN", trend: "WEEKLY" },
+    }
+  );
+  assert.deepEqual(daily?.evalDetail.metricEvalDetail, {
+    metricEvalDetailType: "BASELINE_TYPE",
+    baselineCondition: "GREATER_THAN_BASELINE",
+    baselineName: "Daily Trend - Last 30 Days",
+    baselineUnit: "STANDARD_DEVIATIONS",
+    compareValue: 3,
+  });
+  assert.deepEqual(named?.evalDetail.metricEvalDetail, {
+    metricEvalDetailType: "BASELINE_TYPE",
+    baselineCondition: "NOT_WITHIN_BASELINE",
+    baselineName: "Black Friday",
+    baselineUnit: "PERCENTAGE",
+    compareValue: 50,
+  });
+});
+
+test("expression conditions carry their variables", () => {
+  const [condition] = build({
+    expression: "{errors} / {calls} * 100",
+    variables: [
+      { name: "errors", metricPath: "Errors per Minute", aggregateFunction: "SUM" },
+      { name: "calls", metricPath: "Calls per Minute" },
+    ],
+    threshold: 5,
+  });
+  assert.deepEqual(condition?.evalDetail, {
+    evalDetailType: "METRIC_EXPRESSION",
+    metricExpression: "{errors} / {calls} * 100",
+    metricExpressionVariables: [
+      { variableName: "errors", metricAggregateFunction: "SUM", metricPath: "Errors per Minute" },
+      { variableName: "calls", metricAggregateFunction: "VALUE", metricPath: "Calls per Minute" },
+    ],
+    metricEvalDetail: { metricEvalDetailType: "SPECIFIC_TYPE", compareCondition: "GREATER_THAN", compareValue: 5 },
+  });
+});
+
+test("SIM conditions get short names and the extra SIM fields", () => {
+  const conditions = buildConditions(
+    [{ metricPath: "CPU|%Busy", threshold: 90 }, { metricPath: "Memory|Used %", threshold: 80 }].map((c) =>
+      ConditionSchema.parse(c)
+    ),
+    true
+  ) as unknown as Array<Record<string, unknown>>;
+  assert.deepEqual(conditions.map((c) => c["shortName"]), ["A", "B"]);
+  assert.equal((conditions[0]?.["evalDetail"] as Record<string, unknown>)["inputMetricText"], false);
+  assert.equal(conditions[0]?.["violationStatusOnNoData"], "UNKNOWN");
+});
+
+test("inconsistent conditions are rejected with the reason", () => {
+  assert.deepEqual(issues({ threshold: 1 }), ["Give either metricPath or expression (with variables)."]);
+  assert.deepEqual(issues({ metricPath: "Errors per Minute", expression: "{a}", threshold: 1 }), [
+    "Give either metricPath or expression (with variables).",
+  ]);
+  assert.deepEqual(
+    issues({
+      expression: "{a} + {b}",
+      variables: [
+        { name: "a", metricPath: "Calls per Minute" },
+        { name: "c", metricPath: "Errors per Minute" },
+      ],
+      aggregateFunction: "SUM",
+      baseline: {},
+      threshold: 1,
+    }),
+    [
+      "Baseline comparisons apply to single-metric conditions only.",
+      "Set aggregateFunction on each variable of an expression condition.",
+      "Expression variable {b} is not defined in variables.",
+      "Variable 'c' is not used in the expression.",
+    ]
+  );
+  assert.deepEqual(issues({ expression: "100", variables: [], threshold: 1 }), [
+    "The expression references no variables — write them as {name}.",
+  ]);
+});
+
+test("appd_create_health_rule sends a baseline condition", async () => {
+  const created = await h.call("appd_create_health_rule", {
+    application: "Checkout",
+    name: "Slower than usual",
+    affectedEntityType: "APPLICATION_PERFORMANCE",
+    criticalConditions: [{ metricPath: "Average Response Time (ms)", threshold: 3, baseline: { trend: "WEEKLY" } }],
+  });
+  assert.equal(created.isError, false, created.text);
+  const rule = [...h.fake.state.healthRules.values()].find((r) => r["name"] === "Slower than usual");
+  const criteria = (rule?.["evalCriterias"] as { criticalCriteria: { conditions: unknown[] } }).criticalCriteria;
+  assert.deepEqual(
+    criteria.conditions,
+    build({ metricPath: "Average Response Time (ms)", threshold: 3, baseline: { trend: "WEEKLY" } })
+  );
+});
@@ -0,0 +1,96 @@
+/**
+ * Health rules as files: export, prune, plan and sync against the fake controller.
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { startHarness, type Harness } from "./harness.js";
+import { registerHealthRuleFileTools } from "../src/tools/health-rule-files.js";
+
+let h: Harness;
+let cwd: string;
+
+before(async () => {
+  h = await startHarness([registerHealthRuleFileTools]);
+  // Rule directories must lie inside the working directory
+  cwd = process.cwd();
+  process.chdir(h.dir);
+});
+
+after(async () => {
+  process.chdir(cwd);
+  await h.close();
+});
+
+test("prune deletes only stale health rule files", async () => {
+  const exported = await h.call("appd_export_health_rules", { application: "Checkout", directory: "rules" });
+  assert.equal(exported.isError, false, exported.text);
+  const dir = join(h.dir, "rules");
+  await writeFile(join(dir, "package.json"), JSON.stringify({ name: "not-a-rule", version: "1.0.0" }));
+  await writeFile(join(dir, "config.yaml"), "name: also-not-a-rule\n");
+
+  // A rule deleted on the controller leaves its file behind on the next export
+  h.fake.state.healthRules.delete(501);
+  const reexported = await h.call("appd_export_health_rules", { application: "Checkout", directory: "rules" });
+  assert.match(reexported.text, /1 stale rule file\(s\).*checkout-error-rate\.yaml/);
+
+  const pruned = await h.call("appd_prune_health_rule_files", { application: "Checkout", directory: "rules" });
+  assert.equal(pruned.isError, false, pruned.text);
+  assert.match(pruned.text, /Deleted 1 stale rule file\(s\).*checkout-error-rate\.yaml/);
+  const left = await readdir(dir);
+  assert.ok(left.includes("package.json") && left.includes("config.yaml"), left.join(", "));
+  assert.ok(!left.includes("checkout-error-rate.yaml"));
+});
+
+test("prune refuses a directory that was never exported to", async () => {
+  const { text, isError } = await h.call("appd_prune_health_rule_files", { application: "Checkout", directory: "empty" });
+  assert.equal(isError, true);
+  assert.match(text, /export to it with appd_export_health_rules first/);
+});
+
+test("rule directories outside the working directory are rejected", async () => {
+  for (const directory of ["/etc", "../elsewhere", "."]) {
+    const { text, isError } = await h.call("appd_export_health_rules", { application: "Checkout", directory });
+    assert.equal(isError, true, directory);
+    assert.match(text, /subdirectory of the working directory/);
+  }
+});
+
+test("plan changes nothing; sync applies it and keeps rules without a file", async () => {
+  const exported = await h.call("appd_export_health_rules", { application: "Inventory", directory: "inventory" });
+  assert.equal(exported.isError, false, exported.text);
+  const file = join(h.dir, "inventory", "inventory-response-time.yaml");
+  await writeFile(file, (await readFile(file, "utf-8")).replace("enabled: true", "enabled: false"));
+  h.fake.state.healthRules.set(520, { ...h.fake.state.healthRules.get(510)!, id: 520, name: "Not in files" });
+
+  const plan = await h.call("appd_plan_health_rule_sync", { application: "Inventory", directory: "inventory" });
+  assert.equal(plan.isError, false, plan.text);
+  assert.match(plan.text, /~ update "Inventory response time" #510/);
+  assert.doesNotMatch(plan.text, /- delete/);
+  assert.equal(h.fake.state.healthRules.get(510)?.["enabled"], true);
+
+  const synced = await h.call("appd_sync_health_rules", { application: "Inventory", directory: "inventory" });
+  assert.equal(synced.isError, false, synced.text);
+  assert.equal(h.fake.state.healthRules.get(510)?.["enabled"], false);
+  assert.ok(h.fake.state.healthRules.has(520));
+
+  const again = await h.call("appd_plan_health_rule_sync", { application: "Inventory", directory: "inventory" });
+  assert.match(again.text, /Nothing to do/);
+});
+
+test("a partial file updates an existing rule but cannot create one", async () => {
+  await mkdir(join(h.dir, "partial"));
+  await writeFile(join(h.dir, "partial", "toggle.yaml"), "name: Inventory response time\nenabled: true\n");
+
+  const synced = await h.call("appd_sync_health_rules", { application: "Inventory", directory: "partial" });
+  assert.equal(synced.isError, false, synced.text);
+  assert.equal(h.fake.state.healthRules.get(510)?.["enabled"], true);
+  assert.ok(h.fake.state.healthRules.get(510)?.["evalCriterias"], "other fields were dropped");
+
+  await writeFile(join(h.dir, "partial", "new.yaml"), "name: Brand new\nenabled: true\n");
+  const plan = await h.call("appd_plan_health_rule_sync", { application: "Inventory", directory: "partial" });
+  assert.equal(plan.isError, true);
+  assert.match(plan.text, /new\.yaml: "Brand new" does not exist yet, so the file needs affects and evalCriterias/);
+});
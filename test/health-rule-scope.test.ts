@@ -0,0 +1,168 @@
+/**
+ * Health rule scope: the `affects` block for each kind of scope, resolved
+ * against the fake controller's Checkout application.
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type Harness } from "./harness.js";
+import { resolveScope, type AffectedEntityType, type ScopeInput } from "../src/utils/health-rule-scope.js";
+import { registerHealthRuleTools } from "../src/tools/health-rules.js";
+
+const CHECKOUT = 1;
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness([registerHealthRuleTools]);
+});
+
+after(async () => {
+  await h.close();
+});
+
+const affects = async (entityType: AffectedEntityType, scope: ScopeInput = {}) =>
+  (await resolveScope(CHECKOUT, entityType, scope)).affects;
+
+test("business transactions: specific, by tier, by pattern and all", async () => {
+  const specific = await resolveScope(CHECKOUT, "BUSINESS_TRANSACTION_PERFORMANCE", {
+    businessTransactions: ["/CHECKOUT", 102],
+  });
+  assert.deepEqual(specific.affects, {
+    affectedEntityType: "BUSINESS_TRANSACTION_PERFORMANCE",
+    affectedBusinessTransactions: {
+      businessTransactionScope: "SPECIFIC_BUSINESS_TRANSACTIONS",
+      businessTransactions: ["/checkout", "/pay"],
+    },
+  });
+  assert.equal(
+    specific.summary,
+    "2 business transactions: /checkout (#100, web-frontend), /pay (#102, payment-service)"
+  );
+
+  assert.deepEqual(await affects("BUSINESS_TRANSACTION_PERFORMANCE", { tiers: ["web-frontend"] }), {
+    affectedEntityType: "BUSINESS_TRANSACTION_PERFORMANCE",
+    affectedBusinessTransactions: {
+      businessTransactionScope: "BUSINESS_TRANSACTIONS_IN_SPECIFIC_TIERS",
+      specificTiers: ["web-frontend"],
+    },
+  });
+
+  const pattern = await resolveScope(CHECKOUT, "BUSINESS_TRANSACTION_PERFORMANCE", {
+    namePattern: { matchTo: "STARTS_WITH", value: "/c", negate: true },
+  });
+  assert.deepEqual(pattern.affects, {
+    affectedEntityType: "BUSINESS_TRANSACTION_PERFORMANCE",
+    affectedBusinessTransactions: {
+      businessTransactionScope: "BUSINESS_TRANSACTIONS_MATCHING_PATTERN",
+      patternMatcher: { matchTo: "STARTS_WITH", matchValue: "/c", shouldNot: true },
+    },
+  });
+  assert.match(pattern.summary, /does not match STARTS_WITH "\/c" \(1 today\)/);
+
+  assert.deepEqual(await affects("BUSINESS_TRANSACTION_PERFORMANCE"), {
+    affectedEntityType: "BUSINESS_TRANSACTION_PERFORMANCE",
+    affectedBusinessTransactions: { businessTransactionScope: "ALL_BUSINESS_TRANSACTIONS" },
+  });
+});
+
+test("tiers and nodes: specific nodes, tiers, nodes of tiers and the single-entity shorthands", async () => {
+  assert.deepEqual(await affects("TIER_NODE_HEALTH", { nodes: ["web-frontend-node-1"] }), {
+    affectedEntityType: "TIER_NODE_HEALTH",
+    affectedTierOrNode: { tierOrNodeScope: "SPECIFIC_NODES", nodes: [{ name: "web-frontend-node-1" }] },
+  });
+  assert.deepEqual(await affects("TIER_NODE_HEALTH", { tiers: [10] }), {
+    affectedEntityType: "TIER_NODE_HEALTH",
+    affectedTierOrNode: { tierOrNodeScope: "SPECIFIC_TIERS", tiers: [{ name: "web-frontend" }] },
+  });
+  assert.deepEqual(await affects("TIER_NODE_TRANSACTION_PERFORMANCE", { tiers: ["payment-service"], perNode: true }), {
+    affectedEntityType: "TIER_NODE_TRANSACTION_PERFORMANCE",
+    affectedTierOrNode: { tierOrNodeScope: "NODES_OF_SPECIFIC_TIERS", tiers: [{ name: "payment-service" }] },
+  });
+  assert.deepEqual(
+    await affects("TIER_NODE_HEALTH", { affectedTier: "web-frontend", affectedNode: "payment-service-node-2" }),
+    {
+      affectedEntityType: "TIER_NODE_HEALTH",
+      affectedTierOrNode: { tierOrNodeScope: "SPECIFIC_NODES", nodes: [{ name: "payment-service-node-2" }] },
+    }
+  );
+  assert.deepEqual(await affects("TIER_NODE_HEALTH"), {
+    affectedEntityType: "TIER_NODE_HEALTH",
+    affectedTierOrNode: { tierOrNodeScope: "ALL_TIERS_OR_NODES" },
+  });
+});
+
+test("backends, service endpoints, application and custom scopes", async () => {
+  assert.deepEqual(await affects("BACKEND_CALL_PERFORMANCE", { backends: ["orders-db"] }), {
+    affectedEntityType: "BACKEND_CALL_PERFORMANCE",
+    affectedBackend: { backendScope: "SPECIFIC_BACKENDS", backends: ["orders-db"] },
+  });
+  assert.deepEqual(await affects("BACKEND_CALL_PERFORMANCE", { namePattern: { matchTo: "CONTAINS", value: "db" } }), {
+    affectedEntityType: "BACKEND_CALL_PERFORMANCE",
+    affectedBackend: {
+      backendScope: "BACKENDS_MATCHING_PATTERN",
+      patternMatcher: { matchTo: "CONTAINS", matchValue: "db", shouldNot: false },
+    },
+  });
+  assert.deepEqual(await affects("SERVICE_ENDPOINT_PERFORMANCE", { serviceEndpoints: ["/pay endpoint"] }), {
+    affectedEntityType: "SERVICE_ENDPOINT_PERFORMANCE",
+    affectedServiceEndpoints: {
+      serviceEndpointScope: "SPECIFIC_SERVICE_ENDPOINTS",
+      serviceEndpoints: ["/pay endpoint"],
+    },
+  });
+  assert.deepEqual(await affects("SERVICE_ENDPOINT_PERFORMANCE", { tiers: ["payment-service"] }), {
+    affectedEntityType: "SERVICE_ENDPOINT_PERFORMANCE",
+    affectedServiceEndpoints: {
+      serviceEndpointScope: "SERVICE_ENDPOINTS_IN_SPECIFIC_TIERS",
+      specificTiers: ["payment-service"],
+    },
+  });
+  assert.deepEqual(await affects("APPLICATION_PERFORMANCE"), {
+    affectedEntityType: "APPLICATION_PERFORMANCE",
+    affectedApplicationPerformance: { applicationPerformanceScope: "ALL_TIERS" },
+  });
+  assert.deepEqual(await affects("CUSTOM", { customEntityType: "SERVER", customEntityName: "host-1" }), {
+    affectedEntityType: "CUSTOM",
+    affectedEntityScope: {
+      entityScope: "SPECIFIC_ENTITY_PERFORMANCE",
+      entityType: "SERVER",
+      affectedEntityName: "host-1",
+    },
+  });
+});
+
+test("invalid scopes are rejected before anything is sent", async () => {
+  await assert.rejects(
+    affects("BUSINESS_TRANSACTION_PERFORMANCE", { businessTransactions: ["/check"] }),
+    /Unknown business transactions in application 1: "\/check" \(did you mean "\/checkout"\?\)/
+  );
+  await assert.rejects(affects("APPLICATION_PERFORMANCE", { backends: ["orders-db"] }), /'backends' does not apply/);
+  await assert.rejects(
+    affects("BUSINESS_TRANSACTION_PERFORMANCE", { businessTransactions: ["/pay"], tiers: ["web-frontend"] }),
+    /Give one scope per rule — got businessTransactions and tiers/
+  );
+  await assert.rejects(
+    affects("TIER_NODE_HEALTH", { nodes: ["web-frontend-node-1"], perNode: true }),
+    /'perNode' applies only/
+  );
+});
+
+test("appd_create_health_rule sends the resolved scope", async () => {
+  const created = await h.call("appd_create_health_rule", {
+    application: "Checkout",
+    name: "Pay latency",
+    affectedEntityType: "BUSINESS_TRANSACTION_PERFORMANCE",
+    businessTransactions: ["/pay"],
+    criticalConditions: [{ metricPath: "Average Response Time (ms)", threshold: 2000 }],
+  });
+  assert.equal(created.isError, false, created.text);
+  const rule = [...h.fake.state.healthRules.values()].find((r) => r["name"] === "Pay latency");
+  assert.deepEqual(rule?.["affects"], {
+    affectedEntityType: "BUSINESS_TRANSACTION_PERFORMANCE",
+    affectedBusinessTransactions: {
+      businessTransactionScope: "SPECIFIC_BUSINESS_TRANSACTIONS",
+      businessTransactions: ["/pay"],
+    },
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Health rule templates: applying, re-applying and updating against the fake controller.
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type Harness } from "./harness.js";
+import { registerHealthRuleTemplateTools } from "../src/tools/health-rule-templates.js";
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness([registerHealthRuleTemplateTools]);
+});
+
+after(async () => {
+  await h.close();
+});
+
+const apply = (args: Record<string, unknown>) =>
+  h.call("appd_apply_health_rule_template", {
+    template: "tier-golden-signals",
+    applications: ["Checkout"],
+    parameters: { tier: "payment-service" },
+    ...args,
+  });
+
+test("re-applying a template with onExisting update changes nothing", async () => {
+  const created = await apply({});
+  assert.equal(created.isError, false, created.text);
+  assert.match(created.text, /Totals: 3 created/);
+
+  const dryRun = await apply({ onExisting: "update", dryRun: true });
+  assert.match(dryRun.text, /Totals: 3 unchanged/);
+
+  const reapplied = await apply({ onExisting: "update" });
+  assert.equal(reapplied.isError, false, reapplied.text);
+  assert.match(reapplied.text, /Totals: 3 unchanged/);
+  assert.doesNotMatch(reapplied.text, /Undo:/);
+});
+
+test("a changed parameter updates only the affected rule, with undo", async () => {
+  const dryRun = await apply({ onExisting: "update", dryRun: true, parameters: { tier: "payment-service", responseTimeMs: 1500 } });
+  assert.match(dryRun.text, /Totals: 1 would update, 2 unchanged/);
+
+  const updated = await apply({ onExisting: "update", parameters: { tier: "payment-service", responseTimeMs: 1500 } });
+  assert.equal(updated.isError, false, updated.text);
+  assert.match(updated.text, /\| Checkout \(#1\) \| updated \| unchanged \| unchanged \|/);
+  assert.match(updated.text, /Undo:\n {2}- Checkout \/ "payment-service response time": Undo: appd_undo with operationId/);
+});
+
+test("an update keeps fields the template doesn't set", async () => {
+  const rule = [...h.fake.state.healthRules.values()].find((r) => r["name"] === "payment-service response time");
+  assert.ok(rule);
+  rule["scheduleName"] = "Weekdays: 8am-5pm, Mon-Fri";
+
+  const updated = await apply({ onExisting: "update", parameters: { tier: "payment-service", responseTimeMs: 2500 } });
+  assert.equal(updated.isError, false, updated.text);
+  assert.match(updated.text, /\| Checkout \(#1\) \| updated \|/);
+  const after = h.fake.state.healthRules.get(rule["id"] as number);
+  assert.equal(after?.["scheduleName"], "Weekdays: 8am-5pm, Mon-Fri");
+});
@@ -0,0 +1,68 @@
+/**
+ * Metric analysis tools against the fake controller, whose payment-service
+ * tier has been slow for the last 30 minutes.
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type Harness } from "./harness.js";
+import { registerMetricAnalysisTools } from "../src/tools/metric-analysis.js";
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness([registerMetricAnalysisTools]);
+});
+
+after(async () => {
+  await h.close();
+});
+
+test("appd_detect_metric_anomalies flags the incident against yesterday and last week", async () => {
+  const { text, isError } = await h.call("appd_detect_metric_anomalies", {
+    application: "Checkout",
+    metricPath: "Overall Application Performance|payment-service|Average Response Time (ms)",
+    durationInMins: 60,
+  });
+  assert.equal(isError, false, text);
+  const [result] = JSON.parse(text).results;
+  assert.equal(result.model, "seasonal");
+  assert.deepEqual(
+    result.referenceCoverage.map((r: { name: string; coverage: number }) => [r.name, r.coverage]),
+    [["yesterday", 1], ["last week", 1]]
+  );
+  const spans: Array<{ direction: string; severity: string }> = result.spans;
+  assert.ok(spans.some((s) => s.direction === "above" && s.severity === "critical"), text);
+});
+
+test("appd_forecast_metric fits both models to a week of hourly history", async () => {
+  const { text, isError } = await h.call("appd_forecast_metric", {
+    application: "Checkout",
+    metricPath: "Overall Application Performance|web-frontend|Calls per Minute",
+    threshold: 100_000,
+  });
+  assert.equal(isError, false, text);
+  const [result] = JSON.parse(text).results;
+  assert.equal(result.history.step, "1.0h");
+  const forecasts: Array<{ model: string; projected: { lower: number; value: number; upper: number } }> =
+    result.forecasts;
+  assert.deepEqual(forecasts.map((f) => f.model), ["linear", "holtWinters"]);
+  assert.ok(["linear", "holtWinters"].includes(result.preferred));
+  for (const { projected } of forecasts) {
+    assert.ok(projected.lower <= projected.value && projected.value <= projected.upper, text);
+  }
+});
+
+test("appd_correlate_metrics ranks the backend that shares the incident first", async () => {
+  const { text, isError } = await h.call("appd_correlate_metrics", {
+    application: "Checkout",
+    metricPath: "Overall Application Performance|payment-service|Average Response Time (ms)",
+    paths: ["Backends|*|Average Response Time (ms)", "Overall Application Performance|web-frontend|Calls per Minute"],
+    durationInMins: 120,
+  });
+  assert.equal(isError, false, text);
+  const output = JSON.parse(text);
+  assert.equal(output.candidatesAnalysed, 3);
+  assert.equal(output.results[0].metricPath, "Backends|payments-gateway|Average Response Time (ms)");
+  assert.equal(output.results[0].direction, "positive");
+});
@@ -0,0 +1,33 @@
+/**
+ * Metric index: concurrent requests share a crawl only when its limits cover theirs.
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type Harness } from "./harness.js";
+import { getMetricIndex } from "../src/services/metric-index.js";
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness([]);
+});
+
+after(async () => {
+  await h.close();
+});
+
+test("a request with larger limits does not reuse a smaller crawl in flight", async () => {
+  const [small, large] = await Promise.all([
+    getMetricIndex(1, null, { maxDepth: 1, maxFolders: 1 }),
+    getMetricIndex(1, null, { maxDepth: 10, maxFolders: 1000 }),
+  ]);
+  assert.equal(small.index.truncated, true);
+  assert.equal(large.index.truncated, false);
+  assert.ok(large.index.leaves.length > small.index.leaves.length);
+
+  // The complete index now answers any limits from memory
+  const again = await getMetricIndex(1, null, { maxDepth: 1, maxFolders: 1 });
+  assert.equal(again.source, "memory");
+  assert.equal(again.index.truncated, false);
+});
@@ -0,0 +1,64 @@
+/**
+ * Metric series helpers: percentiles, summaries and LTTB downsampling.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { lttb, linearSlope, percentile, summarizeSeries, type MetricPoint } from "../src/utils/metric-series.js";
+
+const HOUR = 3_600_000;
+
+function point(time: number, value: number): MetricPoint {
+  return { time, value, min: value, max: value, sum: value, count: 1, current: value };
+}
+
+test("percentile interpolates between ranks", () => {
+  const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+  assert.equal(percentile(sorted, 0), 1);
+  assert.equal(percentile(sorted, 50), 5.5);
+  assert.ok(Math.abs(percentile(sorted, 90) - 9.1) < 1e-9);
+  assert.equal(percentile(sorted, 100), 10);
+  assert.equal(percentile([42], 99), 42);
+  assert.ok(Number.isNaN(percentile([], 50)));
+});
+
+test("linearSlope fits a line and is 0 without spread in x", () => {
+  assert.equal(linearSlope([0, 1, 2, 3], [1, 3, 5, 7]), 2);
+  assert.equal(linearSlope([5, 5, 5], [1, 2, 3]), 0);
+  assert.equal(linearSlope([1], [1]), 0);
+});
+
+test("summarizeSeries reports distribution, trend, peak and share above the threshold", () => {
+  const points = [10, 20, 30, 40].map((v, i) => point(i * HOUR, v));
+  const summary = summarizeSeries(points, 25);
+  assert.deepEqual(summary, {
+    points: 4,
+    min: 10,
+    max: 40,
+    mean: 25,
+    p50: 25,
+    p90: 37,
+    p99: 39.7,
+    stdDev: 11.18,
+    trendPerHour: 10,
+    peak: { value: 40, time: 3 * HOUR },
+    pctAboveThreshold: 50,
+  });
+  assert.equal(summarizeSeries([]), null);
+});
+
+test("lttb keeps the endpoints and the extremes", () => {
+  const points = Array.from({ length: 100 }, (_, i) => point(i, i === 37 ? 500 : i === 71 ? -500 : Math.sin(i / 5)));
+  const sampled = lttb(points, 10, (p) => p.time, (p) => p.value);
+  assert.equal(sampled.length, 10);
+  assert.equal(sampled[0], points[0]);
+  assert.equal(sampled[sampled.length - 1], points[99]);
+  assert.ok(sampled.includes(points[37]!) && sampled.includes(points[71]!));
+  assert.ok(sampled.every((p, i) => i === 0 || p.time > sampled[i - 1]!.time));
+});
+
+test("lttb returns small inputs unchanged", () => {
+  const points = [point(0, 1), point(1, 2), point(2, 3)];
+  assert.equal(lttb(points, 5, (p) => p.time, (p) => p.value), points);
+  assert.equal(lttb(points, 2, (p) => p.time, (p) => p.value), points);
+});
@@ -0,0 +1,49 @@
+/**
+ * Metric query tools against the fake controller.
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type Harness } from "./harness.js";
+import { registerMetricTools } from "../src/tools/metrics.js";
+
+const PATH = "Overall Application Performance|web-frontend|Calls per Minute";
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness([registerMetricTools]);
+});
+
+after(async () => {
+  await h.close();
+});
+
+test("appd_get_metric_data summarizes and downsamples the per-minute series", async () => {
+  const { text, isError } = await h.call("appd_get_metric_data", {
+    application: "Checkout",
+    metricPath: PATH,
+    durationInMins: 120,
+    summarize: true,
+    maxPoints: 20,
+  });
+  assert.equal(isError, false, text);
+  const [summary] = JSON.parse(text);
+  assert.equal(summary.metricPath, PATH);
+  assert.equal(summary.points, 120);
+  assert.ok(summary.min <= summary.p50 && summary.p50 <= summary.p90 && summary.p90 <= summary.max, text);
+  assert.equal(summary.series.length, 20);
+});
+
+test("appd_get_metric_data queries an absolute time range", async () => {
+  const { text, isError } = await h.call("appd_get_metric_data", {
+    application: "Checkout",
+    metricPath: PATH,
+    timeRange: "2026-10-18T14:00Z/PT90M",
+    summarize: true,
+  });
+  assert.equal(isError, false, text);
+  const [summary] = JSON.parse(text);
+  assert.equal(summary.timeRange, "2026-10-18 14:00:00 UTC – 2026-10-18 15:30:00 UTC");
+  assert.equal(summary.points, 90);
+});
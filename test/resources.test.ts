@@ -0,0 +1,60 @@
+/**
+ * Resource subscriptions: a change made outside this server reaches the
+ * subscriber on the next periodic refresh.
+ */
+
+import { test, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { startHarness, type Harness } from "./harness.js";
+import { registerEntityResources } from "../src/resources/entities.js";
+import { RESOURCE_REFRESH_INTERVAL_MS } from "../src/constants.js";
+
+let h: Harness;
+
+async function readText(uri: string): Promise<string> {
+  const [content] = (await h.client.readResource({ uri })).contents;
+  assert.ok(content && "text" in content, `no text content for ${uri}`);
+  return content.text;
+}
+
+before(async () => {
+  h = await startHarness([registerEntityResources]);
+});
+
+after(async () => {
+  mock.timers.reset();
+  await h.close();
+});
+
+test("a subscribed health rule changed on the controller is reported", async () => {
+  const uri = "appd://default/applications/Checkout/health-rules/500";
+  const updated: string[] = [];
+  h.client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+    updated.push(notification.params.uri);
+  });
+
+  assert.match(await readText(uri), /Payment response time/);
+
+  mock.timers.enable({ apis: ["setInterval"] });
+  await h.client.subscribeResource({ uri });
+
+  // Changed behind the server's back: no tool call invalidates the cache
+  h.fake.state.healthRules.get(500)!["enabled"] = false;
+  mock.timers.tick(RESOURCE_REFRESH_INTERVAL_MS);
+
+  const deadline = Date.now() + 5000;
+  while (updated.length === 0 && Date.now() < deadline) await new Promise((resolve) => setTimeout(resolve, 20));
+  assert.deepEqual(updated, [uri]);
+
+  assert.match(await readText(uri), /"enabled": false/);
+});
+
+test("each application's health rules are listed and readable as one resource", async () => {
+  const { resources } = await h.client.listResources();
+  const uris = resources.map((r) => r.uri);
+  assert.ok(uris.includes("appd://default/applications/Inventory/health-rules"), uris.join(", "));
+  assert.ok(uris.includes("appd://default/applications/Inventory/health-rules/510"), uris.join(", "));
+
+  assert.match(await readText("appd://default/applications/Inventory/health-rules"), /Inventory response time/);
+});
@@ -0,0 +1,193 @@
+/**
+ * Pure series analysis: robust statistics, anomaly detection, forecasting and
+ * lagged correlation.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  bestLaggedCorrelation,
+  detectAnomalies,
+  fitHoltWinters,
+  fitLinear,
+  holdoutError,
+  mad,
+  median,
+  pearson,
+  ranks,
+  regularize,
+  robustScale,
+  spearman,
+  thresholdCrossing,
+  zForConfidence,
+} from "../src/utils/series-analysis.js";
+import type { MetricPoint } from "../src/utils/metric-series.js";
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const T0 = Date.UTC(2026, 0, 5, 10);
+
+function series(count: number, stepMs: number, value: (i: number) => number, start = T0): MetricPoint[] {
+  return Array.from({ length: count }, (_, i) => {
+    const v = value(i);
+    return { time: start + i * stepMs, value: v, min: v, max: v, sum: v, count: 1, current: v };
+  });
+}
+
+// ── Robust statistics ─────────────────────────────────────────────────────────
+
+test("median and MAD ignore a single outlier", () => {
+  const values = [10, 11, 9, 10, 12, 8, 10, 1000];
+  assert.equal(median(values), 10);
+  assert.equal(mad(values), 1);
+  assert.ok(Math.abs(robustScale(values) - 1.4826) < 1e-9);
+});
+
+test("robustScale falls back to the mean absolute deviation when the MAD is zero", () => {
+  const values = [0, 0, 0, 0, 0, 0, 4, 8];
+  assert.equal(mad(values), 0);
+  assert.ok(Math.abs(robustScale(values) - 1.2533 * 1.5) < 1e-9);
+  assert.equal(robustScale([]), 0);
+});
+
+// ── Anomaly detection ─────────────────────────────────────────────────────────
+
+test("a spike against a matching reference scores as a critical span above", () => {
+  const wobble = (i: number) => 100 + (i % 5) - 2;
+  const current = series(60, MINUTE, (i) => (i >= 40 && i < 45 ? 160 : wobble(i)));
+  const reference = { name: "yesterday", periodMs: DAY, points: series(60, MINUTE, wobble, T0 - DAY) };
+  const result = detectAnomalies(current, [reference], 3.5);
+
+  assert.equal(result.model, "seasonal");
+  assert.deepEqual(result.referencesUsed, ["yesterday"]);
+  assert.equal(result.spans.length, 1);
+  const [span] = result.spans;
+  assert.equal(span?.start, T0 + 40 * MINUTE);
+  assert.equal(span?.intervals, 5);
+  assert.equal(span?.direction, "above");
+  assert.equal(span?.severity, "critical");
+});
+
+test("a reference rolled up to hours covers every minute of the window", () => {
+  // 2 hours per minute today against the same 2 hours yesterday, hourly
+  const current = series(120, MINUTE, (i) => (i < 60 ? 100 : 300));
+  const hourly = series(2, HOUR, (i) => (i === 0 ? 100 : 300), T0 - DAY);
+  const result = detectAnomalies(current, [{ name: "yesterday", periodMs: DAY, points: hourly }], 3.5);
+
+  assert.equal(result.model, "seasonal");
+  assert.deepEqual(result.references, [{ name: "yesterday", stepMs: HOUR, coverage: 1, used: true }]);
+  assert.equal(result.intervals[59]?.expected, 100);
+  assert.equal(result.intervals[60]?.expected, 300);
+  assert.equal(result.spans.length, 0);
+});
+
+test("a reference covering under half the window is reported but not used", () => {
+  const current = series(120, MINUTE, () => 100);
+  const partial = series(30, MINUTE, () => 500, T0 - DAY);
+  const result = detectAnomalies(current, [{ name: "yesterday", periodMs: DAY, points: partial }], 3.5);
+
+  assert.equal(result.model, "level");
+  assert.deepEqual(result.referencesUsed, []);
+  assert.deepEqual(result.references, [{ name: "yesterday", stepMs: MINUTE, coverage: 0.25, used: false }]);
+  assert.ok(result.intervals.every((iv) => iv.expected === 100));
+});
+
+// ── Forecasting ───────────────────────────────────────────────────────────────
+
+const near = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+test("regularize fills gaps on the median step", () => {
+  const points = series(6, MINUTE, (i) => i * 10).filter((_, i) => i !== 3);
+  assert.deepEqual(regularize(points), { start: T0, stepMs: MINUTE, values: [0, 10, 20, 30, 40, 50] });
+  assert.equal(regularize(points.slice(0, 1)), null);
+});
+
+test("a linear series is forecast exactly by both models", () => {
+  const values = Array.from({ length: 20 }, (_, t) => 5 + 3 * t);
+  for (const model of [fitLinear(values), fitHoltWinters(values, 0)]) {
+    assert.equal(model.sigma, 0, model.name);
+    assert.deepEqual(model.at(5), { value: 5 + 3 * 24, se: 0 }, model.name);
+  }
+  assert.equal(holdoutError(values, fitLinear), 0);
+});
+
+test("Holt-Winters follows a season and its error grows with the horizon", () => {
+  const season = [0, 10, 0, -10];
+  const values = Array.from({ length: 48 }, (_, t) => 100 + 2 * t + season[t % 4]!);
+  const model = fitHoltWinters(values, 4);
+  assert.equal(model.params["seasonLengthSteps"], 4);
+  for (const h of [1, 2, 3, 4, 8]) near(model.at(h).value, 100 + 2 * (47 + h) + season[(47 + h) % 4]!, 0.5);
+
+  // One step ahead the standard error is the residual sigma; further out it widens
+  assert.equal(model.at(1).se, model.sigma);
+  const errors = [1, 2, 4, 8, 16].map((h) => model.at(h).se);
+  assert.ok(errors.every((se, i) => i === 0 || se > errors[i - 1]!), errors.join(", "));
+});
+
+test("Holt-Winters drops the season without two full seasons of history", () => {
+  const model = fitHoltWinters(Array.from({ length: 10 }, (_, t) => t), 8);
+  assert.equal(model.params["seasonLengthSteps"], 0);
+  assert.equal(model.params["gamma"], undefined);
+});
+
+test("zForConfidence gives the two-sided normal quantile", () => {
+  near(zForConfidence(95), 1.96, 5e-4);
+  near(zForConfidence(99), 2.576, 5e-4);
+  near(zForConfidence(80), 1.2816, 5e-4);
+});
+
+test("thresholdCrossing brackets the expected crossing with the confidence bounds", () => {
+  const exact = fitLinear(Array.from({ length: 10 }, (_, t) => t));
+  assert.deepEqual(thresholdCrossing(exact, 9, 20, 1.96, 100), {
+    direction: "up",
+    expected: 11,
+    earliest: 11,
+    latest: 11,
+  });
+  assert.deepEqual(thresholdCrossing(exact, 9, -5, 1.96, 100), {
+    direction: "down",
+    expected: null,
+    earliest: null,
+    latest: null,
+  });
+
+  const noisy = fitLinear(Array.from({ length: 40 }, (_, t) => 50 + t + (t % 3) - 1));
+  const crossing = thresholdCrossing(noisy, 89, 120, 1.96, 100);
+  assert.equal(crossing.direction, "up");
+  assert.ok(crossing.earliest! < crossing.expected! && crossing.expected! < crossing.latest!, JSON.stringify(crossing));
+});
+
+// ── Correlation ───────────────────────────────────────────────────────────────
+
+test("pearson measures linear and spearman monotone relations", () => {
+  const xs = [1, 2, 3, 4, 5, 6];
+  assert.equal(pearson(xs, xs.map((x) => 3 * x + 1)), 1);
+  near(pearson(xs, xs.map((x) => -x))!, -1, 1e-12);
+  assert.equal(pearson(xs, xs.map(() => 7)), null);
+
+  const cubes = xs.map((x) => x ** 3);
+  assert.ok(pearson(xs, cubes)! < 0.99);
+  assert.equal(spearman(xs, cubes), 1);
+});
+
+test("ranks share the average rank between ties", () => {
+  assert.deepEqual(ranks([10, 30, 20, 30]), [1, 3.5, 2, 3.5]);
+});
+
+test("bestLaggedCorrelation finds the lag by which the candidate leads", () => {
+  // Irregular but deterministic, so only the true shift lines up
+  const signal = (i: number) => ((i * 7919) % 97) + (i % 5) * 3;
+  const target = series(60, MINUTE, (i) => signal(i + 10));
+  const leading = series(60, MINUTE, (i) => signal(i + 13));
+
+  const best = bestLaggedCorrelation(target, leading, MINUTE, 5, "pearson");
+  assert.equal(best?.lag, 3);
+  near(best!.pearson, 1, 1e-9);
+  assert.equal(best?.pairs, 57);
+
+  const lagging = bestLaggedCorrelation(leading, target, MINUTE, 5, "spearman");
+  assert.equal(lagging?.lag, -3);
+  assert.equal(bestLaggedCorrelation(target.slice(0, 5), leading.slice(0, 5), MINUTE, 0, "pearson"), null);
+});
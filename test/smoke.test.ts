@@ -0,0 +1,99 @@
+/**
+ * Smoke tests: diagnosis, dashboard and health rule tools end to end against
+ * the fake controller.
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startHarness, type Harness } from "./harness.js";
+import { registerRootCauseTools } from "../src/tools/root-cause.js";
+import { registerDashboardTools } from "../src/tools/dashboards.js";
+import { registerHealthRuleTools } from "../src/tools/health-rules.js";
+import { registerUndoTools } from "../src/tools/undo.js";
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness([registerRootCauseTools, registerDashboardTools, registerHealthRuleTools, registerUndoTools]);
+});
+
+after(async () => {
+  await h.close();
+});
+
+function operationId(text: string): string {
+  const match = /appd_undo with operationId "(\w+)"/.exec(text);
+  assert.ok(match, `no undo operation in: ${text}`);
+  return match[1]!;
+}
+
+test("appd_diagnose_issue finds the degraded payment-service tier", async () => {
+  const { text, isError } = await h.call("appd_diagnose_issue", { application: "Checkout" });
+  assert.equal(isError, false, text);
+  const report = JSON.parse(text) as { topRootCauseCandidates: Array<{ entity: string; highestSeverity: string }> };
+  assert.equal(report.topRootCauseCandidates[0]?.entity, "payment-service");
+  assert.equal(report.topRootCauseCandidates[0]?.highestSeverity, "CRITICAL");
+});
+
+test("appd_diagnose_issue reports an unknown application", async () => {
+  const { text, isError } = await h.call("appd_diagnose_issue", { application: "NoSuchApp" });
+  assert.equal(isError, true);
+  assert.match(text, /NoSuchApp/);
+});
+
+test("dashboards: list, get, create, update and undo in place", async () => {
+  const list = await h.call("appd_get_dashboards");
+  assert.equal(list.isError, false, list.text);
+  assert.match(list.text, /Checkout Overview/);
+
+  const one = await h.call("appd_get_dashboard", { dashboardId: 900 });
+  assert.equal(one.isError, false, one.text);
+  assert.match(one.text, /Checkout Overview/);
+
+  const created = await h.call("appd_create_dashboard", {
+    name: "Smoke Test",
+    widgets: [{ type: "TEXT", title: "Hello", text: "Hello", height: 2, width: 4, x: 0, y: 0 }],
+  });
+  assert.equal(created.isError, false, created.text);
+  assert.ok([...h.fake.state.dashboards.values()].some((d) => d["name"] === "Smoke Test"));
+
+  const updated = await h.call("appd_update_dashboard", { dashboardId: 900, name: "Renamed" });
+  assert.equal(updated.isError, false, updated.text);
+  assert.equal(h.fake.state.dashboards.get(900)?.["name"], "Renamed");
+
+  const undone = await h.call("appd_undo", { operationId: operationId(updated.text) });
+  assert.equal(undone.isError, false, undone.text);
+  assert.equal(h.fake.state.dashboards.get(900)?.["name"], "Checkout Overview");
+});
+
+test("health rules: create, update, delete and undo the delete", async () => {
+  const created = await h.call("appd_create_health_rule", {
+    application: "Checkout",
+    name: "Smoke errors",
+    affectedEntityType: "APPLICATION_PERFORMANCE",
+    criticalConditions: [{ metricPath: "Errors per Minute", threshold: 5 }],
+  });
+  assert.equal(created.isError, false, created.text);
+  const rule = [...h.fake.state.healthRules.values()].find((r) => r["name"] === "Smoke errors");
+  assert.ok(rule, "rule was not created");
+  const ruleId = rule["id"] as number;
+
+  const updated = await h.call("appd_update_health_rule", {
+    application: "Checkout",
+    healthRuleId: ruleId,
+    enabled: false,
+  });
+  assert.equal(updated.isError, false, updated.text);
+  assert.equal(h.fake.state.healthRules.get(ruleId)?.["enabled"], false);
+
+  const rules = await h.call("appd_get_health_rules", { application: "Checkout" });
+  assert.match(rules.text, /Smoke errors/);
+
+  const deleted = await h.call("appd_delete_health_rule", { application: "Checkout", healthRuleId: ruleId });
+  assert.equal(deleted.isError, false, deleted.text);
+  assert.equal(h.fake.state.healthRules.has(ruleId), false);
+
+  const undone = await h.call("appd_undo", { operationId: operationId(deleted.text) });
+  assert.equal(undone.isError, false, undone.text);
+  assert.ok([...h.fake.state.healthRules.values()].some((r) => r["name"] === "Smoke errors"));
+});
@@ -0,0 +1,79 @@
+/**
+ * Time-range input: relative and ISO-8601 forms, and times without an offset
+ * read in the configured time zone.
+ */
+
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import { parseTime, precedingTimeRange, resolveTimeRange } from "../src/utils/time-range.js";
+
+const NOW = Date.UTC(2026, 9, 18, 16, 0);
+const MINUTE = 60_000;
+
+before(() => {
+  // Read once per process, before anything formats a time
+  process.env["APPD_TIMEZONE"] = "Europe/Berlin";
+});
+
+test("relative strings resolve to BEFORE_NOW", () => {
+  const range = resolveTimeRange("last 2h", undefined, 60, NOW);
+  assert.deepEqual(range.params, { "time-range-type": "BEFORE_NOW", "duration-in-mins": 120 });
+  assert.equal(range.startMs, NOW - 120 * MINUTE);
+  assert.equal(range.endMs, NOW);
+  assert.equal(range.label, "Last 120 minutes");
+
+  for (const [text, minutes] of [
+    ["past 90 minutes", 90],
+    ["last 1.5h", 90],
+    ["last 7 days", 10080],
+    ["PT2H", 120],
+    ["P1DT30M", 1470],
+  ] as const) {
+    assert.equal(resolveTimeRange(text, undefined, 60, NOW).durationInMins, minutes, text);
+  }
+});
+
+test("start plus duration resolves to AFTER_TIME", () => {
+  const range = resolveTimeRange("2026-10-18T14:00Z/PT90M", undefined, 60, NOW);
+  const start = Date.UTC(2026, 9, 18, 14, 0);
+  assert.equal(range.type, "AFTER_TIME");
+  assert.deepEqual(range.params, { "time-range-type": "AFTER_TIME", "start-time": start, "duration-in-mins": 90 });
+  assert.equal(range.endMs, start + 90 * MINUTE);
+  assert.equal(range.label, "2026-10-18 16:00:00 Europe/Berlin – 2026-10-18 17:30:00 Europe/Berlin");
+});
+
+test("duration before an end, and start / end, resolve to BEFORE_TIME and BETWEEN_TIMES", () => {
+  const end = Date.UTC(2026, 9, 18, 15, 30);
+  const before = resolveTimeRange("PT90M/2026-10-18T15:30Z", undefined, 60, NOW);
+  assert.deepEqual(before.params, { "time-range-type": "BEFORE_TIME", "end-time": end, "duration-in-mins": 90 });
+  assert.equal(before.startMs, end - 90 * MINUTE);
+
+  const between = resolveTimeRange("2026-10-18T14:00Z/2026-10-18T15:30Z", undefined, 60, NOW);
+  assert.equal(between.type, "BETWEEN_TIMES");
+  assert.equal(between.durationInMins, 90);
+  assert.throws(
+    () => resolveTimeRange("2026-10-18T15:30Z/2026-10-18T14:00Z", undefined, 60, NOW),
+    /must be after its start/
+  );
+});
+
+test("without timeRange, durationInMins and then the tool default apply", () => {
+  assert.equal(resolveTimeRange(undefined, 15, 60, NOW).durationInMins, 15);
+  assert.equal(resolveTimeRange(undefined, undefined, 60, NOW).durationInMins, 60);
+
+  const previous = precedingTimeRange(resolveTimeRange("last 30m", undefined, 60, NOW));
+  assert.equal(previous.endMs, NOW - 30 * MINUTE);
+  assert.equal(previous.startMs, NOW - 60 * MINUTE);
+});
+
+test("ISO times without an offset are read in APPD_TIMEZONE, across DST", () => {
+  assert.equal(parseTime("2026-10-18T14:00"), Date.UTC(2026, 9, 18, 12, 0));
+  assert.equal(parseTime("2026-12-01 14:00"), Date.UTC(2026, 11, 1, 13, 0));
+  assert.equal(parseTime("2026-10-18T14:00+05:30"), Date.UTC(2026, 9, 18, 8, 30));
+  assert.equal(parseTime(String(NOW)), NOW);
+});
+
+test("unrecognised input is rejected with the accepted forms", () => {
+  assert.throws(() => resolveTimeRange("yesterday afternoon", undefined, 60, NOW), /Unrecognised time range.*last 2h/);
+  assert.throws(() => parseTime("not a time"), /Invalid time "not a time"/);
+});